@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { storage } from "../storage";
+import { requirePermission } from "../middleware/permission.middleware";
 
 export function register() {
   const router = Router();
 
   // Get activity logs with pagination, search, filtering, and sorting
-  router.get("/", async (req, res) => {
+  router.get("/", requirePermission("activity:read"), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const perPage = parseInt(req.query.perPage as string) || 15;
@@ -27,7 +28,7 @@ export function register() {
   });
 
   // Get a specific activity log by ID
-  router.get("/:id", async (req, res) => {
+  router.get("/:id", requirePermission("activity:read"), async (req, res) => {
     try {
       const activityId = parseInt(req.params.id);
       
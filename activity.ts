@@ -15,7 +15,42 @@ type ActionType =
   | "event_delete" 
   | "sermon_create" 
   | "sermon_update" 
-  | "sermon_delete";
+  | "sermon_delete"
+  | "session_revoke"
+  | "login_failed"
+  | "account_locked"
+  | "role_create"
+  | "role_update"
+  | "role_delete"
+  | "ownership_transfer"
+  | "api_token_create"
+  | "api_token_revoke"
+  | "api_token_used"
+  | "identity_link"
+  | "identity_unlink"
+  | "invitation_send"
+  | "invitation_revoke"
+  | "invitation_accept"
+  | "impersonation_start"
+  | "impersonation_stop"
+  | "impersonation_request"
+  | "user_restore"
+  | "user_anonymize"
+  | "data_export"
+  | "member_field_create"
+  | "member_field_update"
+  | "member_field_delete"
+  | "household_create"
+  | "household_update"
+  | "household_delete"
+  | "user_import"
+  | "user_export"
+  | "user_merge"
+  | "user_merge_undo"
+  | "recurring_donation"
+  | "fund_create"
+  | "fund_update"
+  | "fund_delete";
 
 interface ActivityLogParams {
   userId?: number;
@@ -0,0 +1,170 @@
+import { Router } from "express";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertApiTokenSchema, PERMISSIONS } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import { createSecureToken, hashToken } from "../utils/tokens";
+
+// Prefix makes tokens easy to recognise (e.g. by secret scanners) if they leak
+const API_TOKEN_PREFIX = "gc_pat_";
+const DEFAULT_EXPIRES_IN_DAYS = 90;
+const MAX_EXPIRES_IN_DAYS = 365;
+
+const createApiTokenSchema = insertApiTokenSchema.pick({ name: true, scopes: true }).extend({
+  scopes: z.array(
+    z.string().refine(key => key in PERMISSIONS, key => ({ message: `Unknown scope: ${key}` }))
+  ).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(MAX_EXPIRES_IN_DAYS).default(DEFAULT_EXPIRES_IN_DAYS)
+});
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get every user's API tokens
+    router.get("/", requirePermission("security:manage"), async (req, res) => {
+      try {
+        const tokens = await storage.getApiTokens();
+
+        res.status(200).json(tokens);
+      } catch (error) {
+        console.error("Get all API tokens error:", error);
+        res.status(500).json({ message: "An error occurred while fetching API tokens" });
+      }
+    });
+
+    // Revoke any user's API token
+    router.delete("/:id", requirePermission("security:manage"), async (req, res) => {
+      try {
+        const tokenId = parseInt(req.params.id);
+
+        if (isNaN(tokenId)) {
+          return res.status(400).json({ message: "Invalid token ID" });
+        }
+
+        const [revoked] = await storage.revokeApiToken(tokenId);
+
+        if (!revoked) {
+          return res.status(404).json({ message: "Active API token not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "api_token_revoke",
+          details: `Admin revoked API token "${revoked.name}" (${revoked.tokenPrefix}) of user ID ${revoked.userId}`
+        });
+
+        res.status(200).json({ message: "API token revoked" });
+      } catch (error) {
+        console.error("Admin revoke API token error:", error);
+        res.status(500).json({ message: "An error occurred while revoking the API token" });
+      }
+    });
+  } else {
+    // User routes - routes.ts only allows cookie sessions here, a token can't mint more tokens
+
+    // Get current user's API tokens
+    router.get("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const tokens = await storage.getApiTokens(req.user.id);
+
+        res.status(200).json(tokens);
+      } catch (error) {
+        console.error("Get API tokens error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your API tokens" });
+      }
+    });
+
+    // Create an API token - the plain token is only ever returned in this response
+    router.post("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+
+        // Scopes can't grant more than the user's own role has
+        const notAllowed = scopes.filter(scope => !req.user?.permissions.includes(scope));
+
+        if (notAllowed.length > 0) {
+          return res.status(403).json({ message: `Your role doesn't have these scopes: ${notAllowed.join(", ")}` });
+        }
+
+        const { token: secret } = createSecureToken();
+        const token = `${API_TOKEN_PREFIX}${secret}`;
+
+        const [apiToken] = await storage.createApiToken({
+          userId: req.user.id,
+          name,
+          tokenHash: hashToken(token),
+          tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+          scopes,
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        });
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "api_token_create",
+          details: `Created API token "${name}" (${apiToken.tokenPrefix}) with scopes: ${scopes.join(", ")}`
+        });
+
+        const { tokenHash, ...tokenWithoutHash } = apiToken;
+        res.status(201).json({ ...tokenWithoutHash, token });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create API token error:", error);
+        res.status(500).json({ message: "An error occurred while creating the API token" });
+      }
+    });
+
+    // Revoke one of the current user's API tokens
+    router.delete("/:id", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const tokenId = parseInt(req.params.id);
+
+        if (isNaN(tokenId)) {
+          return res.status(400).json({ message: "Invalid token ID" });
+        }
+
+        const [revoked] = await storage.revokeApiToken(tokenId, req.user.id);
+
+        if (!revoked) {
+          return res.status(404).json({ message: "Active API token not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "api_token_revoke",
+          details: `Revoked API token "${revoked.name}" (${revoked.tokenPrefix})`
+        });
+
+        res.status(200).json({ message: "API token revoked" });
+      } catch (error) {
+        console.error("Revoke API token error:", error);
+        res.status(500).json({ message: "An error occurred while revoking the API token" });
+      }
+    });
+  }
+
+  return router;
+}
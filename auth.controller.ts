@@ -2,12 +2,102 @@ import { Router } from "express";
 import bcrypt from "bcrypt";
 import { storage } from "../storage";
 import { authenticateJWT } from "../middleware/auth.middleware";
-import { generateToken } from "../utils/jwt";
-import { sendSignupConfirmationEmail } from "../utils/email";
-import { insertUserSchema } from "@shared/schema";
+import { generateToken, generatePurposeToken, verifyPurposeToken } from "../utils/jwt";
+import { sendSignupConfirmationEmail, sendPasswordResetEmail, sendMagicLinkEmail } from "../utils/email";
+import { createSecureToken, generateSecureToken, hashToken } from "../utils/tokens";
+import { completeLogin, clearAuthCookies, setAuthCookies } from "../utils/session";
+import { getLoginRetryAfter, startLoginAttempt, clearLoginAttempt, checkLoginPassword, recordFailedLogin } from "../utils/login-protection";
+import { createRateLimiter } from "../utils/rate-limit";
+import { TWO_FACTOR_CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_EXPIRES_IN, isTwoFactorRequiredForRole, setTwoFactorChallengeCookie } from "../utils/two-factor";
+import { insertUserSchema, DEFAULT_MEMBER_ROLE, User } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { logActivity } from "../utils/activity";
+import { sanitizeUser, sendUserVerificationEmail, EMAIL_VERIFICATION_PURPOSE } from "../utils/user";
+import { issueCsrfToken } from "../utils/csrf";
+import { getOidcProviders, getOidcProvider, startOidcFlow, takeOidcFlow, completeOidcFlow, safeReturnTo, OidcProfile } from "../utils/oidc";
+
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000; // 1 minute
+// A rotated-out refresh token presented this soon after rotation is a concurrent refresh (e.g. another tab), not theft
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+// Magic link requests, per email address and per IP, so the endpoint can't be used to flood inboxes
+const magicLinkEmailLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 3 });
+const magicLinkIpLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10 });
+
+// One verification email resend per user per interval
+const verificationResendLimiter = createRateLimiter({ windowMs: VERIFICATION_RESEND_INTERVAL_MS, max: 1 });
+
+// Find the user for an OIDC sign-in: an already linked identity, the user starting a link, a user with the
+// same verified email, or else a new account. Returns the user or the error code to show on the login page.
+async function resolveOidcUser(providerId: string, profile: OidcProfile, linkUserId?: number): Promise<{ user?: User; error?: string }> {
+  const identity = await storage.getUserIdentity(providerId, profile.subject);
+
+  if (identity) {
+    if (linkUserId && identity.userId !== linkUserId) {
+      return { error: "identity_in_use" };
+    }
+
+    await storage.touchUserIdentity(identity.id);
+    return { user: await storage.getUserById(identity.userId) };
+  }
+
+  let user: User | undefined;
+
+  if (linkUserId) {
+    user = await storage.getUserById(linkUserId);
+  } else {
+    // Matching on email is only safe when the provider has verified the address
+    if (!profile.email || !profile.emailVerified) {
+      return { error: "email_unverified" };
+    }
+
+    user = await storage.getUserByEmail(profile.email);
+
+    if (!user) {
+      const [newUser] = await storage.createUser({
+        name: profile.name || profile.email.split("@")[0],
+        email: profile.email,
+        password: await bcrypt.hash(generateSecureToken(), 10), // Unusable until the member sets one with forgot-password
+        role: DEFAULT_MEMBER_ROLE,
+        status: "active",
+        emailVerifiedAt: new Date()
+      });
+      user = newUser;
+
+      await logActivity({
+        userId: newUser.id,
+        action: "signup",
+        details: `New user registered via ${providerId}: ${newUser.email}`
+      });
+    } else if (!user.emailVerifiedAt) {
+      // The provider has just proven the member controls this address
+      [user] = await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+    }
+  }
+
+  if (!user) {
+    return { error: "failed" };
+  }
+
+  await storage.createUserIdentity({
+    userId: user.id,
+    provider: providerId,
+    subject: profile.subject,
+    email: profile.email || null,
+    lastLoginAt: new Date()
+  });
+
+  await logActivity({
+    userId: user.id,
+    action: "identity_link",
+    details: `Linked ${providerId} sign-in to ${user.email}`
+  });
+
+  return { user };
+}
 
 export function register() {
   const router = Router();
@@ -16,56 +106,46 @@ export function register() {
   router.post("/login", async (req, res) => {
     try {
       const { email, password } = req.body;
-      console.log(`Login attempt for email: ${email}`);
 
       if (!email || !password) {
-        console.log("Login failed: Email or password missing");
         return res.status(400).json({ message: "Email and password are required" });
       }
 
       const user = await storage.getUserByEmail(email);
 
-      if (!user) {
-        console.log(`Login failed: No user found with email ${email}`);
+      // Too many failures from this IP or for this account
+      const attempt = await startLoginAttempt(req, user);
+      if (attempt.retryAfter > 0) {
+        res.set("Retry-After", String(attempt.retryAfter));
+        return res.status(429).json({ message: "Too many failed login attempts. Please try again later." });
+      }
+
+      if (!user || !(await checkLoginPassword(user, password))) {
+        await recordFailedLogin(req, attempt, user);
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
       if (user.status === "inactive") {
-        console.log(`Login failed: User ${email} is inactive`);
+        await clearLoginAttempt(attempt);
         return res.status(403).json({ message: "Your account has been deactivated. Please contact an administrator." });
       }
 
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-
-      if (!isPasswordValid) {
-        console.log(`Login failed: Invalid password for ${email}`);
-        return res.status(401).json({ message: "Invalid email or password" });
+      // With two-factor enabled the password is only the first step, finished at /api/auth/2fa/verify
+      if (user.twoFactorEnabledAt) {
+        await clearLoginAttempt(attempt);
+        const challengeToken = generatePurposeToken({ id: user.id, method: "password" }, TWO_FACTOR_CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+        return res.status(200).json({ twoFactorRequired: true, challengeToken });
       }
 
-      // Generate JWT token
-      const token = generateToken(user);
-      console.log(`Generated token for ${email}, role: ${user.role}`);
-
-      // Set token in cookie
-      res.cookie("auth_token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        maxAge: 24 * 60 * 60 * 1000, // 1 day
-        sameSite: "strict"
-      });
-      console.log(`Auth cookie set for ${email}`);
+      // Create a session for this device, set the auth cookies and log the login
+      await completeLogin(req, res, user);
 
-      // Log the login activity
-      await logActivity({
-        userId: user.id,
-        action: "login",
-        details: `User logged in: ${user.email}`
+      // Return user info (excluding password), flagging if the role requires 2FA to be set up
+      const userWithoutPassword = sanitizeUser(user);
+      res.status(200).json({
+        ...userWithoutPassword,
+        twoFactorSetupRequired: await isTwoFactorRequiredForRole(user.role)
       });
-
-      // Return user info (excluding password)
-      const { password: _, ...userWithoutPassword } = user;
-      console.log(`Login successful: ${email}, role: ${user.role}`);
-      res.status(200).json(userWithoutPassword);
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ message: "An error occurred during login" });
@@ -75,13 +155,10 @@ export function register() {
   // Signup
   router.post("/signup", async (req, res) => {
     try {
-      // Validate the request data
+      // Validate the request data - only these fields can be set during signup
       const userData = insertUserSchema
-        .omit({ role: true }) // Don't allow role to be set during signup
-        .parse({
-          ...req.body,
-          role: "user" // Force role to be "user"
-        });
+        .pick({ name: true, email: true, password: true, notificationOptIn: true })
+        .parse(req.body);
 
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -96,10 +173,18 @@ export function register() {
       const [newUser] = await storage.createUser({
         ...userData,
         password: hashedPassword,
-        role: "user", // Force role to be "user"
+        role: DEFAULT_MEMBER_ROLE, // New accounts are always plain members
         status: "active"
       });
 
+      // Always send the verification link, the account can't donate or publish until it is used
+      try {
+        await sendUserVerificationEmail(newUser);
+      } catch (emailError) {
+        console.error("Failed to send verification email:", emailError);
+        // Continue with signup process, the user can request a new link
+      }
+
       // Send confirmation email
       if (userData.notificationOptIn) {
         try {
@@ -118,7 +203,7 @@ export function register() {
       });
 
       // Return success message
-      res.status(201).json({ message: "User created successfully" });
+      res.status(201).json({ message: "User created successfully. Please check your email to verify your address." });
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -133,6 +218,17 @@ export function register() {
   // Logout - Removed authenticateJWT middleware to allow anyone to logout
   router.post("/logout", async (req, res) => {
     try {
+      // Revoke the session server-side, even if the access token has already expired
+      const refreshToken = req.cookies?.refresh_token;
+      if (refreshToken) {
+        const session = await storage.getSessionByRefreshTokenHash(hashToken(refreshToken));
+        if (session) {
+          await storage.revokeSession(session.id, "logout");
+        }
+      } else if (req.user?.sessionId) {
+        await storage.revokeSession(req.user.sessionId, "logout");
+      }
+
       // If user is authenticated, log the activity
       if (req.user) {
         await logActivity({
@@ -142,12 +238,8 @@ export function register() {
         });
       }
 
-      // Clear the authentication cookie
-      res.clearCookie("auth_token", {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict"
-      });
+      // Clear the authentication cookies
+      clearAuthCookies(res);
       
       res.status(200).json({ message: "Logged out successfully" });
     } catch (error) {
@@ -156,6 +248,310 @@ export function register() {
     }
   });
 
+  // Refresh - exchange the refresh token for a new access token, rotating the refresh token
+  router.post("/refresh", async (req, res) => {
+    try {
+      const refreshToken = req.cookies?.refresh_token;
+
+      if (!refreshToken) {
+        return res.status(401).json({ message: "No refresh token" });
+      }
+
+      const tokenHash = hashToken(refreshToken);
+      const session = await storage.getSessionByRefreshTokenHash(tokenHash);
+
+      if (!session) {
+        const rotatedSession = await storage.getSessionByPreviousRefreshTokenHash(tokenHash);
+
+        if (rotatedSession && !rotatedSession.revokedAt) {
+          if (Date.now() - rotatedSession.lastUsedAt.getTime() < REFRESH_REUSE_GRACE_MS) {
+            // Another request already refreshed this session; the browser now holds the new cookies
+            return res.status(409).json({ message: "Session was just refreshed" });
+          }
+
+          // An old refresh token was replayed after the grace window, so it has been copied: revoke the whole session
+          await storage.revokeSession(rotatedSession.id, "token_reuse");
+          await logActivity({
+            userId: rotatedSession.userId,
+            action: "session_revoke",
+            details: `Session ${rotatedSession.id} revoked after refresh token reuse was detected`
+          });
+        }
+
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+
+      if (session.revokedAt || session.expiresAt < new Date()) {
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Session has expired" });
+      }
+
+      const user = await storage.getUserById(session.userId);
+
+      if (!user || user.status === "inactive") {
+        await storage.revokeSession(session.id, "user_deactivated");
+        clearAuthCookies(res);
+        return res.status(401).json({ message: "Session has expired" });
+      }
+
+      const { token: newRefreshToken, tokenHash: newTokenHash } = createSecureToken();
+      const [rotated] = await storage.rotateSessionRefreshToken(session.id, tokenHash, newTokenHash);
+
+      if (!rotated) {
+        // Lost a race with a concurrent refresh of the same session
+        return res.status(409).json({ message: "Session was just refreshed" });
+      }
+
+      setAuthCookies(res, generateToken(user, session.id), newRefreshToken);
+
+      res.status(200).json({ message: "Session refreshed" });
+    } catch (error) {
+      console.error("Refresh error:", error);
+      res.status(500).json({ message: "An error occurred while refreshing the session" });
+    }
+  });
+
+  // List the current user's active sessions (signed-in devices)
+  router.get("/sessions", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const sessions = await storage.getActiveSessionsByUserId(req.user.id);
+
+      res.status(200).json(sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+        current: session.id === req.user?.sessionId
+      })));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ message: "An error occurred while fetching your sessions" });
+    }
+  });
+
+  // Revoke all of the current user's sessions except this one
+  router.delete("/sessions", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const revoked = await storage.revokeUserSessions(req.user.id, "user_revoked", req.user.sessionId);
+
+      await logActivity({
+        userId: req.user.id,
+        action: "session_revoke",
+        details: `User signed out ${revoked.length} other device(s): ${req.user.email}`
+      });
+
+      res.status(200).json({ message: "Signed out of all other devices" });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      res.status(500).json({ message: "An error occurred while revoking your sessions" });
+    }
+  });
+
+  // Revoke one of the current user's sessions
+  router.delete("/sessions/:id", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const sessionId = parseInt(req.params.id);
+
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+
+      const session = await storage.getSessionById(sessionId);
+
+      if (!session || session.userId !== req.user.id || session.revokedAt) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.revokeSession(sessionId, "user_revoked");
+
+      await logActivity({
+        userId: req.user.id,
+        action: "session_revoke",
+        details: `User revoked session ${sessionId}: ${req.user.email}`
+      });
+
+      // Revoking the current session signs this browser out
+      if (sessionId === req.user.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      res.status(200).json({ message: "Session revoked successfully" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "An error occurred while revoking the session" });
+    }
+  });
+
+  // Get a CSRF token - the client sends it back in the X-CSRF-Token header on every mutation.
+  // ?rotate=true always issues a new one, e.g. after the current token was rejected
+  router.get("/csrf-token", (req, res) => {
+    try {
+      const csrfToken = issueCsrfToken(req, res, req.query.rotate === "true");
+
+      res.status(200).json({ csrfToken });
+    } catch (error) {
+      console.error("CSRF token error:", error);
+      res.status(500).json({ message: "An error occurred while issuing a CSRF token" });
+    }
+  });
+
+  // List the configured OIDC providers for the login page
+  router.get("/oidc/providers", (req, res) => {
+    try {
+      const providers = getOidcProviders().map(({ id, name }) => ({ id, name }));
+
+      res.status(200).json(providers);
+    } catch (error) {
+      console.error("Get OIDC providers error:", error);
+      res.status(500).json({ message: "An error occurred while fetching sign-in providers" });
+    }
+  });
+
+  // Start signing in with an OIDC provider
+  router.get("/oidc/:provider/login", async (req, res) => {
+    try {
+      const provider = getOidcProvider(req.params.provider);
+
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown sign-in provider" });
+      }
+
+      res.redirect(await startOidcFlow(res, provider, safeReturnTo(req.query.returnTo)));
+    } catch (error) {
+      console.error("OIDC login error:", error);
+      res.redirect("/login?oidc=failed");
+    }
+  });
+
+  // Link an OIDC provider to the signed-in user's account
+  router.get("/oidc/:provider/link", authenticateJWT, async (req, res) => {
+    try {
+      const provider = getOidcProvider(req.params.provider);
+
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown sign-in provider" });
+      }
+
+      res.redirect(await startOidcFlow(res, provider, safeReturnTo(req.query.returnTo || "/profile"), req.user?.id));
+    } catch (error) {
+      console.error("OIDC link error:", error);
+      res.redirect("/profile?oidc=failed");
+    }
+  });
+
+  // Provider redirects back here with the authorization code
+  router.get("/oidc/:provider/callback", async (req, res) => {
+    const providerId = req.params.provider;
+    const flow = takeOidcFlow(req, res, providerId, req.query.state);
+    const errorPage = flow?.linkUserId ? "/profile" : "/login";
+
+    try {
+      const provider = getOidcProvider(providerId);
+
+      if (!provider || !flow) {
+        return res.redirect("/login?oidc=invalid_state");
+      }
+
+      if (req.query.error || typeof req.query.code !== "string") {
+        return res.redirect(`${errorPage}?oidc=cancelled`);
+      }
+
+      const profile = await completeOidcFlow(provider, flow, req.query.code);
+      const { user, error } = await resolveOidcUser(providerId, profile, flow.linkUserId);
+
+      if (!user) {
+        return res.redirect(`${errorPage}?oidc=${error}`);
+      }
+
+      if (user.status === "inactive") {
+        return res.redirect("/login?oidc=account_inactive");
+      }
+
+      // An account locked after failed logins stays locked for every sign-in method
+      if (await getLoginRetryAfter(req, user) > 0) {
+        return res.redirect("/login?oidc=account_locked");
+      }
+
+      // Two-factor still applies, the login page finishes the challenge at /api/auth/2fa/verify. The challenge
+      // goes in an httpOnly cookie so it doesn't end up in the browser history or Referer headers
+      if (user.twoFactorEnabledAt) {
+        const challengeToken = generatePurposeToken({ id: user.id, method: `oidc:${providerId}` }, TWO_FACTOR_CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+        setTwoFactorChallengeCookie(res, challengeToken);
+        return res.redirect(`/login?twoFactorChallenge=cookie&returnTo=${encodeURIComponent(flow.returnTo)}`);
+      }
+
+      await completeLogin(req, res, user, `oidc:${providerId}`);
+
+      res.redirect(flow.returnTo);
+    } catch (error) {
+      console.error("OIDC callback error:", error);
+      res.redirect(`${errorPage}?oidc=failed`);
+    }
+  });
+
+  // List the current user's linked sign-in providers
+  router.get("/oidc/identities", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const identities = await storage.getUserIdentitiesByUserId(req.user.id);
+
+      res.status(200).json(identities);
+    } catch (error) {
+      console.error("Get identities error:", error);
+      res.status(500).json({ message: "An error occurred while fetching linked sign-in providers" });
+    }
+  });
+
+  // Unlink a sign-in provider from the current user's account
+  router.delete("/oidc/identities/:id", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const identityId = parseInt(req.params.id);
+
+      if (isNaN(identityId)) {
+        return res.status(400).json({ message: "Invalid identity ID" });
+      }
+
+      const [identity] = await storage.deleteUserIdentity(identityId, req.user.id);
+
+      if (!identity) {
+        return res.status(404).json({ message: "Linked sign-in provider not found" });
+      }
+
+      await logActivity({
+        userId: req.user.id,
+        action: "identity_unlink",
+        details: `Unlinked ${identity.provider} sign-in from ${req.user.email}`
+      });
+
+      res.status(200).json({ message: "Sign-in provider unlinked" });
+    } catch (error) {
+      console.error("Unlink identity error:", error);
+      res.status(500).json({ message: "An error occurred while unlinking the sign-in provider" });
+    }
+  });
+
   // Get current user (me)
   router.get("/me", authenticateJWT, (req, res) => {
     if (!req.user) {
@@ -200,6 +596,9 @@ export function register() {
       // Update the password
       await storage.updateUser(user.id, { password: hashedPassword });
 
+      // Sign out every other device that knew the old password
+      await storage.revokeUserSessions(user.id, "password_change", req.user.sessionId);
+
       // Log the password change activity
       await logActivity({
         userId: user.id,
@@ -214,5 +613,270 @@ export function register() {
     }
   });
 
+  // Verify email address (linked from the verification email)
+  router.get("/verify-email", async (req, res) => {
+    try {
+      const token = req.query.token as string;
+      const decoded = token ? verifyPurposeToken(token, EMAIL_VERIFICATION_PURPOSE) : null;
+
+      if (!decoded || !decoded.id) {
+        return res.redirect("/login?emailVerified=invalid");
+      }
+
+      const user = await storage.getUserById(decoded.id);
+
+      if (!user || user.email !== decoded.email) {
+        return res.redirect("/login?emailVerified=invalid");
+      }
+
+      if (!user.emailVerifiedAt) {
+        await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User verified their email: ${user.email}`
+        });
+      }
+
+      res.redirect("/login?emailVerified=success");
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "An error occurred while verifying your email" });
+    }
+  });
+
+  // Resend the email verification link
+  router.post("/resend-verification", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (req.user.emailVerified) {
+        return res.status(400).json({ message: "Your email is already verified" });
+      }
+
+      const resendKey = String(req.user.id);
+      if (verificationResendLimiter.retryAfter(resendKey) > 0) {
+        return res.status(429).json({ message: "Please wait a minute before requesting another verification email" });
+      }
+
+      verificationResendLimiter.hit(resendKey);
+      await sendUserVerificationEmail(req.user);
+
+      res.status(200).json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "An error occurred while sending the verification email" });
+    }
+  });
+
+  // Forgot password - request a reset link
+  router.post("/forgot-password", async (req, res) => {
+    // Same response whether or not the account exists, so this can't be used to discover accounts
+    const genericResponse = { message: "If an account exists for that email, a password reset link has been sent" };
+
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const user = await storage.getUserByEmail(email);
+
+      if (!user || user.status === "inactive") {
+        return res.status(200).json(genericResponse);
+      }
+
+      // Only the most recent link should work
+      await storage.deletePasswordResetTokensForUser(user.id);
+
+      const { token, tokenHash } = createSecureToken();
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash,
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS)
+      });
+
+      // Don't wait for the mail server, otherwise response times would reveal which emails exist
+      sendPasswordResetEmail(user.email, token).catch((emailError) => {
+        console.error("Failed to send password reset email:", emailError);
+      });
+
+      res.status(200).json(genericResponse);
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "An error occurred while requesting a password reset" });
+    }
+  });
+
+  // Request a passwordless sign-in link
+  router.post("/magic-link", async (req, res) => {
+    // Same response whether or not the account exists, so this can't be used to discover accounts
+    const genericResponse = { message: "If an account exists for that email, a sign-in link has been sent" };
+
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const emailKey = email.trim().toLowerCase();
+      const ipKey = req.ip || "unknown";
+      const retryAfter = Math.max(magicLinkEmailLimiter.retryAfter(emailKey), magicLinkIpLimiter.retryAfter(ipKey));
+
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many sign-in link requests. Please try again later." });
+      }
+
+      magicLinkEmailLimiter.hit(emailKey);
+      magicLinkIpLimiter.hit(ipKey);
+
+      const user = await storage.getUserByEmail(email);
+
+      if (!user || user.status === "inactive") {
+        return res.status(200).json(genericResponse);
+      }
+
+      // Only the most recent link should work
+      await storage.deleteMagicLinkTokensForUser(user.id);
+
+      const { token, tokenHash } = createSecureToken();
+      const [magicLink] = await storage.createMagicLinkToken({
+        userId: user.id,
+        tokenHash,
+        ipAddress: req.ip || null,
+        userAgent: req.get("user-agent") || null,
+        expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS)
+      });
+
+      // Don't wait for the mail server, otherwise response times would reveal which emails exist
+      sendMagicLinkEmail(user.email, user.name, token, {
+        ipAddress: magicLink.ipAddress,
+        userAgent: magicLink.userAgent,
+        requestedAt: magicLink.createdAt
+      }).catch((emailError) => {
+        console.error("Failed to send magic link email:", emailError);
+      });
+
+      res.status(200).json(genericResponse);
+    } catch (error) {
+      console.error("Magic link request error:", error);
+      res.status(500).json({ message: "An error occurred while requesting a sign-in link" });
+    }
+  });
+
+  // Sign in with a magic link - a POST from the /magic-link page, so mail scanners that
+  // open links can't use up the token
+  router.post("/magic-link/verify", async (req, res) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Token is required" });
+      }
+
+      const [magicLink] = await storage.consumeMagicLinkToken(hashToken(token));
+
+      if (!magicLink) {
+        return res.status(400).json({ message: "This sign-in link is invalid or has expired. Please request a new one." });
+      }
+
+      const user = await storage.getUserById(magicLink.userId);
+
+      if (!user) {
+        return res.status(400).json({ message: "This sign-in link is invalid or has expired. Please request a new one." });
+      }
+
+      if (user.status === "inactive") {
+        return res.status(403).json({ message: "Your account has been deactivated. Please contact an administrator." });
+      }
+
+      // An account locked after failed logins stays locked for every sign-in method
+      const retryAfter = await getLoginRetryAfter(req, user);
+      if (retryAfter > 0) {
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many failed login attempts. Please try again later." });
+      }
+
+      // Receiving the email proves the address, but two-factor still applies
+      if (!user.emailVerifiedAt) {
+        await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      }
+
+      if (user.twoFactorEnabledAt) {
+        const challengeToken = generatePurposeToken({ id: user.id, method: "magic_link" }, TWO_FACTOR_CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+        return res.status(200).json({ twoFactorRequired: true, challengeToken });
+      }
+
+      // Same session and auth cookies as a password login
+      await completeLogin(req, res, user, "magic_link");
+
+      const userWithoutPassword = sanitizeUser({ ...user, emailVerifiedAt: user.emailVerifiedAt || new Date() });
+      res.status(200).json({
+        ...userWithoutPassword,
+        twoFactorSetupRequired: await isTwoFactorRequiredForRole(user.role)
+      });
+    } catch (error) {
+      console.error("Magic link sign-in error:", error);
+      res.status(500).json({ message: "An error occurred while signing in" });
+    }
+  });
+
+  // Reset password using a token from the reset email
+  router.post("/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (!token || !newPassword) {
+        return res.status(400).json({ message: "Token and new password are required" });
+      }
+
+      if (newPassword.length < 6) {
+        return res.status(400).json({ message: "New password must be at least 6 characters long" });
+      }
+
+      const [resetToken] = await storage.consumePasswordResetToken(hashToken(token));
+
+      if (!resetToken) {
+        return res.status(400).json({ message: "Invalid or expired password reset token" });
+      }
+
+      const user = await storage.getUserById(resetToken.userId);
+
+      if (!user || user.status === "inactive") {
+        return res.status(400).json({ message: "Invalid or expired password reset token" });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+      // Bumping passwordChangedAt invalidates every token issued before the reset
+      await storage.updateUser(user.id, {
+        password: hashedPassword,
+        passwordChangedAt: new Date()
+      });
+      await storage.deletePasswordResetTokensForUser(user.id);
+      await storage.revokeUserSessions(user.id, "password_reset");
+
+      await logActivity({
+        userId: user.id,
+        action: "user_update",
+        details: `User reset their password: ${user.email}`
+      });
+
+      // Sign out this browser as well
+      clearAuthCookies(res);
+
+      res.status(200).json({ message: "Password reset successfully. Please log in with your new password." });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "An error occurred while resetting your password" });
+    }
+  });
+
   return router;
 }
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 import { verifyToken } from "../utils/jwt";
+import { isTwoFactorRequiredForRole } from "../utils/two-factor";
+import { hashToken } from "../utils/tokens";
+import { logActivity } from "../utils/activity";
+import { getImpersonationId } from "../utils/impersonation";
+import { ALL_PERMISSIONS, OWNER_ROLE, User } from "@shared/schema";
 
 // Extend the Request type to include user
 declare global {
@@ -11,17 +16,123 @@ declare global {
         name: string;
         email: string;
         role: string;
+        permissions: string[];
         notificationOptIn: boolean;
+        emailVerified: boolean;
+        twoFactorEnabled: boolean;
         profilePictureUrl?: string;
         createdAt: string;
+        sessionId?: number;
+        apiToken?: {
+          id: number;
+          name: string;
+          scopes: string[];
+        };
+        // Set while an owner is impersonating: the fields above are the impersonated user, this is the owner
+        realUser?: {
+          id: number;
+          name: string;
+          email: string;
+          impersonationId: number;
+          expiresAt: string;
+        };
       };
     }
   }
 }
 
+// The owner always has every permission, other roles get what is assigned to them
+async function getRolePermissions(user: User) {
+  return user.role === OWNER_ROLE
+    ? [...ALL_PERMISSIONS]
+    : await storage.getPermissionKeysForRole(user.role);
+}
+
+// Build the req.user object from a user row
+function toRequestUser(user: User, permissions: string[]): NonNullable<Request["user"]> {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    permissions,
+    notificationOptIn: !!user.notificationOptIn, // Convert to boolean
+    emailVerified: !!user.emailVerifiedAt,
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+    profilePictureUrl: user.profilePictureUrl || undefined,
+    createdAt: user.createdAt.toISOString()
+  };
+}
+
+// Authenticate a request made with "Authorization: Bearer <api token>"
+async function setUserFromApiToken(req: Request, token: string) {
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt < new Date()) {
+    console.log("Invalid, revoked or expired API token");
+    return;
+  }
+  
+  const user = await storage.getUserById(apiToken.userId);
+  
+  if (!user || user.status === "inactive") {
+    console.log(`API token ${apiToken.tokenPrefix} belongs to a missing or inactive user`);
+    return;
+  }
+  
+  // A token can only use the scopes it was given that the user's role still has
+  const rolePermissions = await getRolePermissions(user);
+  const permissions = rolePermissions.filter(permission => apiToken.scopes.includes(permission));
+  
+  req.user = {
+    ...toRequestUser(user, permissions),
+    apiToken: { id: apiToken.id, name: apiToken.name, scopes: apiToken.scopes }
+  };
+  
+  await storage.touchApiToken(apiToken.id);
+  
+  await logActivity({
+    userId: user.id,
+    action: "api_token_used",
+    details: `API token "${apiToken.name}" (${apiToken.tokenPrefix}) used: ${req.method} ${req.originalUrl.split("?")[0]}`
+  });
+}
+
+// The user an owner is currently impersonating from this session, if any
+async function getImpersonation(req: Request, owner: User, sessionId: number) {
+  const impersonationId = getImpersonationId(req);
+  
+  if (!impersonationId || owner.role !== OWNER_ROLE) {
+    return null;
+  }
+  
+  const impersonation = await storage.getImpersonationSessionById(impersonationId);
+  
+  if (!impersonation || impersonation.ownerId !== owner.id || impersonation.ownerSessionId !== sessionId ||
+      impersonation.endedAt || impersonation.expiresAt < new Date()) {
+    return null;
+  }
+  
+  const target = await storage.getUserById(impersonation.targetUserId);
+  
+  if (!target || target.status === "inactive") {
+    return null;
+  }
+  
+  return { impersonation, target };
+}
+
 // Middleware to set user info if the user is authenticated
 export const setUserInfo = async (req: Request, res: Response, next: NextFunction) => {
   try {
+    // API clients send a bearer token instead of the session cookie, and never fall back to it
+    const authorization = req.get("authorization");
+    
+    if (authorization?.startsWith("Bearer ")) {
+      await setUserFromApiToken(req, authorization.slice("Bearer ".length).trim());
+      return next();
+    }
+    
     // Check if cookies object exists
     if (!req.cookies) {
       console.log("No cookies object in request");
@@ -37,11 +148,18 @@ export const setUserInfo = async (req: Request, res: Response, next: NextFunctio
     
     const decoded = verifyToken(token);
     
-    if (!decoded || !decoded.id) {
+    if (!decoded || !decoded.id || !decoded.sid) {
       console.log("Invalid token or missing ID in token");
       return next(); // Invalid token, continue without setting user
     }
     
+    // The session backing the token must still be active (it may have been revoked)
+    const session = await storage.getSessionById(decoded.sid);
+    
+    if (!session || session.userId !== decoded.id || session.revokedAt || session.expiresAt < new Date()) {
+      return next();
+    }
+    
     const user = await storage.getUserById(decoded.id);
     
     if (!user) {
@@ -50,25 +168,41 @@ export const setUserInfo = async (req: Request, res: Response, next: NextFunctio
     }
     
     if (user.status === "inactive") {
-      console.log(`User is inactive: ${user.email}`);
+      console.log(`User is inactive, ID: ${user.id}`);
       return next(); // User is inactive, continue without setting user
     }
     
-    // Set user info on the request object
-    const { password, ...userWithoutPassword } = user;
+    // Tokens issued before the last password reset are no longer valid
+    if (user.passwordChangedAt && (!decoded.iat || decoded.iat < Math.floor(user.passwordChangedAt.getTime() / 1000))) {
+      return next();
+    }
+    
+    // While impersonating, the request acts as the target user but remembers the real owner
+    const impersonated = await getImpersonation(req, user, session.id);
     
-    // Create a properly typed user object with guaranteed non-null values
+    if (impersonated) {
+      req.user = {
+        ...toRequestUser(impersonated.target, await getRolePermissions(impersonated.target)),
+        sessionId: session.id,
+        realUser: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          impersonationId: impersonated.impersonation.id,
+          expiresAt: impersonated.impersonation.expiresAt.toISOString()
+        }
+      };
+      
+      return next();
+    }
+    
+    // Set user info on the request object
     req.user = {
-      id: userWithoutPassword.id,
-      name: userWithoutPassword.name,
-      email: userWithoutPassword.email,
-      role: userWithoutPassword.role,
-      notificationOptIn: !!userWithoutPassword.notificationOptIn, // Convert to boolean
-      profilePictureUrl: userWithoutPassword.profilePictureUrl || undefined,
-      createdAt: userWithoutPassword.createdAt.toISOString()
+      ...toRequestUser(user, await getRolePermissions(user)),
+      sessionId: session.id
     };
     
-    console.log(`User authenticated: ${user.email}, Role: ${user.role}`);
+    console.log(`User authenticated, ID: ${user.id}, Role: ${user.role}`);
     next();
   } catch (error) {
     console.error("Error in setUserInfo middleware:", error);
@@ -85,20 +219,46 @@ export const authenticateJWT = async (req: Request, res: Response, next: NextFun
   next();
 };
 
-// Middleware to check if user has admin access (admin or owner role)
+// Middleware for account-level routes that only a signed-in browser session may use, never an API token
+export const rejectApiTokens = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.apiToken) {
+    return res.status(403).json({ message: "Forbidden - API tokens can't be used for this endpoint" });
+  }
+  
+  next();
+};
+
+// Middleware to require a verified email address (used for donations and publishing content)
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized - Authentication required" });
+  }
+  
+  if (!req.user.emailVerified) {
+    return res.status(403).json({ message: "Please verify your email address before continuing" });
+  }
+  
+  next();
+};
+
+// Middleware to check if user has admin panel access (any role with the admin:access permission)
 export const isAdmin = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
     console.log("isAdmin middleware: No user found in request");
     return res.status(401).json({ message: "Unauthorized - Authentication required" });
   }
   
-  console.log(`isAdmin middleware: User ${req.user.email} has role ${req.user.role}`);
+  console.log(`isAdmin middleware: User ID ${req.user.id} has role ${req.user.role}`);
   
-  if (req.user.role !== "admin" && req.user.role !== "owner") {
-    console.log(`isAdmin middleware: User ${req.user.email} does not have admin privileges`);
+  if (!req.user.permissions.includes("admin:access")) {
+    console.log(`isAdmin middleware: User ID ${req.user.id} does not have admin privileges`);
     return res.status(403).json({ message: "Forbidden - Admin access required" });
   }
   
-  console.log(`isAdmin middleware: User ${req.user.email} authorized as admin`);
+  if (!req.user.twoFactorEnabled && await isTwoFactorRequiredForRole(req.user.role)) {
+    return res.status(403).json({ message: "Forbidden - Two-factor authentication is required for your role", twoFactorSetupRequired: true });
+  }
+  
+  console.log(`isAdmin middleware: User ID ${req.user.id} authorized as admin`);
   next();
 };
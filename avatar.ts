@@ -0,0 +1,17 @@
+// Avatar sizes in pixels; the largest is also stored as the user's profilePictureUrl
+export const AVATAR_SIZES = [64, 128, 256, 512];
+export const AVATAR_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+// Known image signatures - the declared mimetype comes from the client and can't be trusted
+const IMAGE_SIGNATURES: { mimetype: string; matches: (buffer: Buffer) => boolean }[] = [
+  { mimetype: "image/jpeg", matches: buffer => buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimetype: "image/png", matches: buffer => buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimetype: "image/gif", matches: buffer => ["GIF87a", "GIF89a"].includes(buffer.subarray(0, 6).toString("ascii")) },
+  { mimetype: "image/webp", matches: buffer => buffer.subarray(0, 4).toString("ascii") === "RIFF" && buffer.subarray(8, 12).toString("ascii") === "WEBP" }
+];
+
+// Detect the image type from the file's first bytes; returns null for anything that isn't a supported image
+export function detectImageType(buffer: Buffer) {
+  const signature = IMAGE_SIGNATURES.find(({ matches }) => matches(buffer));
+  return signature ? signature.mimetype : null;
+}
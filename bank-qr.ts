@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { Donation } from "@shared/schema";
+import { PaymentProvider, PaymentProviderError } from "./payments";
+
+// EMVCo merchant-presented QR, the format NepalPay and FonePay QR codes follow. The merchant account
+// template (tag 26 by default) is whatever the church's bank issued, e.g. BANK_QR_GUID=fonepay.
+const BANK_QR_TEMPLATE_TAG = process.env.BANK_QR_TEMPLATE_TAG || "26";
+const BANK_QR_GUID = process.env.BANK_QR_GUID || "np.com.nepalpay";
+const BANK_QR_BANK_CODE = process.env.BANK_QR_BANK_CODE || "";
+const BANK_QR_ACCOUNT_NUMBER = process.env.BANK_QR_ACCOUNT_NUMBER || "0000000000000";
+const BANK_QR_MERCHANT_NAME = process.env.BANK_QR_MERCHANT_NAME || "Grace Church";
+const BANK_QR_MERCHANT_CITY = process.env.BANK_QR_MERCHANT_CITY || "Kathmandu";
+const BANK_QR_MCC = process.env.BANK_QR_MCC || "8661"; // Religious organizations
+const BANK_QR_CURRENCY = process.env.BANK_QR_CURRENCY || "524"; // ISO 4217 numeric, NPR
+const BANK_QR_COUNTRY = process.env.BANK_QR_COUNTRY || "NP";
+
+// Donors put this in the transfer remarks; it's also what bank statements are searched for
+const REFERENCE_PATTERN = /GC\d+X[0-9A-F]{4}/i;
+
+// One ID/length/value field; lengths are two digits, counted in UTF-8 bytes as scanning apps read them
+function field(id: string, value: string) {
+  return `${id}${String(Buffer.byteLength(value, "utf8")).padStart(2, "0")}${value}`;
+}
+
+// Shorten to at most maxBytes of UTF-8 without splitting a character
+function truncateBytes(value: string, maxBytes: number) {
+  let result = "";
+
+  for (const char of value) {
+    if (Buffer.byteLength(result + char, "utf8") > maxBytes) {
+      break;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+// CRC-16/CCITT-FALSE, as EMVCo requires for tag 63
+function crc16(payload: string) {
+  let crc = 0xffff;
+
+  for (const byte of Buffer.from(payload, "utf8")) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+export function createBankTransferReference(donationId: number) {
+  return `GC${donationId}X${crypto.randomBytes(2).toString("hex").toUpperCase()}`;
+}
+
+// Pull a donation reference out of free text such as a bank statement's remarks
+export function findBankTransferReference(text: unknown) {
+  const match = typeof text === "string" ? text.match(REFERENCE_PATTERN) : null;
+  return match ? match[0].toUpperCase() : null;
+}
+
+// The QR payload for one donation: the church account, the amount and the donation's reference
+export function buildBankQrPayload(donation: Pick<Donation, "amount" | "transactionId">) {
+  const merchantAccount = field("00", BANK_QR_GUID) +
+    (BANK_QR_BANK_CODE ? field("01", BANK_QR_BANK_CODE) : "") +
+    field("02", BANK_QR_ACCOUNT_NUMBER);
+
+  const payload = field("00", "01") +
+    field("01", "12") + // Dynamic, usable for this one payment
+    field(BANK_QR_TEMPLATE_TAG, merchantAccount) +
+    field("52", BANK_QR_MCC) +
+    field("53", BANK_QR_CURRENCY) +
+    field("54", parseFloat(donation.amount).toFixed(2)) +
+    field("58", BANK_QR_COUNTRY) +
+    field("59", truncateBytes(BANK_QR_MERCHANT_NAME, 25)) +
+    field("60", truncateBytes(BANK_QR_MERCHANT_CITY, 15)) +
+    field("62", field("05", donation.transactionId || "") + field("08", "Donation")) +
+    "6304";
+
+  return payload + crc16(payload);
+}
+
+export async function renderBankQr(payload: string, format: "svg" | "png") {
+  if (format === "svg") {
+    return await QRCode.toString(payload, { type: "svg", errorCorrectionLevel: "M", margin: 2 });
+  }
+
+  return await QRCode.toBuffer(payload, { type: "png", errorCorrectionLevel: "M", margin: 2, width: 512 });
+}
+
+export interface BankTransferEntry {
+  reference?: string; // The remarks/description line from the bank statement
+  amount?: number | string;
+  bankReference?: string; // The bank's own transaction ID
+  date?: string;
+}
+
+// Match bank statement lines to bank QR donations by the reference in their remarks. Nothing is changed,
+// the admin confirms each match separately.
+export async function matchBankTransfers(entries: BankTransferEntry[]) {
+  const references = entries.map(entry => findBankTransferReference(entry.reference));
+  const donations = await storage.getDonationsByProviderReferences(
+    bankQrPaymentProvider.id,
+    Array.from(new Set(references.filter((reference): reference is string => !!reference)))
+  );
+
+  return entries.map((entry, index) => {
+    const reference = references[index];
+    const donation = donations.find(candidate => candidate.transactionId === reference);
+
+    if (!donation) {
+      return { entry, reference, match: "not_found" as const, donation: null };
+    }
+
+    let match: "matched" | "amount_mismatch" | "not_pending" = "matched";
+
+    if (donation.status !== "pending" && donation.status !== "failed") {
+      match = "not_pending";
+    } else if (entry.amount === undefined || Math.abs(Number(entry.amount) - parseFloat(donation.amount)) >= 0.005) {
+      match = "amount_mismatch";
+    }
+
+    const { user, ...donationWithoutUser } = donation;
+
+    return {
+      entry,
+      reference,
+      match,
+      donation: { ...donationWithoutUser, donor: { id: user.id, name: user.name, email: user.email } }
+    };
+  });
+}
+
+// Bank transfers have no callbacks: the donor scans and pays, then an admin matches the bank
+// statement to pending donations (see the reconciliation routes) which applies the update.
+export const bankQrPaymentProvider: PaymentProvider = {
+  id: "bank_qr",
+  paymentMethods: ["bank_qr"],
+
+  async createIntent(donation: Donation) {
+    const reference = createBankTransferReference(donation.id);
+    const payload = buildBankQrPayload({ amount: donation.amount, transactionId: reference });
+
+    await storage.updateDonation(donation.id, { qrImageUrl: `/api/payments/${donation.id}/qr.png` });
+
+    return {
+      reference,
+      clientData: {
+        qrPayload: payload,
+        qrSvgUrl: `/api/payments/${donation.id}/qr.svg`,
+        qrPngUrl: `/api/payments/${donation.id}/qr.png`,
+        accountName: BANK_QR_MERCHANT_NAME,
+        accountNumber: BANK_QR_ACCOUNT_NUMBER
+      }
+    };
+  },
+
+  // Nothing to check with the bank, the donation stays pending until it's reconciled
+  async confirm() {
+    return null;
+  },
+
+  async refund() {
+    throw new PaymentProviderError("Bank transfers have to be refunded from the church's bank account");
+  },
+
+  async verifyWebhook() {
+    return null;
+  }
+};
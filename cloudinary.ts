@@ -1,4 +1,4 @@
-import { v2 as cloudinary } from "cloudinary";
+import { v2 as cloudinary, UploadApiOptions } from "cloudinary";
 
 // Configure Cloudinary
 cloudinary.config({
@@ -8,8 +8,8 @@ cloudinary.config({
   secure: true
 });
 
-// Upload a file to Cloudinary
-export const uploadToCloudinary = async (file: Express.Multer.File, resourceType: "image" | "video") => {
+// Upload a file to Cloudinary; options override the defaults below (e.g. the folder, or transformations)
+export const uploadToCloudinary = async (file: Express.Multer.File, resourceType: "image" | "video", options: UploadApiOptions = {}) => {
   try {
     if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
       throw new Error("Cloudinary credentials are not configured");
@@ -27,7 +27,8 @@ export const uploadToCloudinary = async (file: Express.Multer.File, resourceType
       folder: folder,
       overwrite: true,
       unique_filename: true,
-      invalidate: true
+      invalidate: true,
+      ...options
     });
     
     return result;
@@ -37,6 +38,31 @@ export const uploadToCloudinary = async (file: Express.Multer.File, resourceType
   }
 };
 
+// Upload a profile picture - cropped to a centred square, with each avatar size built up front
+export const uploadAvatarToCloudinary = async (file: Express.Multer.File, sizes: number[]) => {
+  const largest = Math.max(...sizes);
+  
+  const result = await uploadToCloudinary(file, "image", {
+    folder: "grace_church/avatars",
+    // Only the cropped square is stored, so nothing outside it (or any EXIF data) is kept
+    transformation: [{ width: largest, height: largest, crop: "fill", gravity: "center" }],
+    eager: sizes.map(size => ({ width: size, height: size, crop: "fill", gravity: "center", fetch_format: "auto", quality: "auto" }))
+  });
+  
+  const variants: Record<string, string> = {};
+  sizes.forEach((size, index) => {
+    variants[size] = result.eager?.[index]?.secure_url || cloudinary.url(result.public_id, {
+      width: size,
+      height: size,
+      crop: "fill",
+      gravity: "center",
+      secure: true
+    });
+  });
+  
+  return { url: variants[largest], publicId: result.public_id, variants };
+};
+
 // Delete a file from Cloudinary
 export const deleteFromCloudinary = async (publicId: string, resourceType: "image" | "video") => {
   try {
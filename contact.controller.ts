@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { authenticateJWT } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { insertContactSchema } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -10,10 +11,10 @@ export function register(isAdmin = false) {
   const router = Router();
 
   if (isAdmin) {
-    // Admin routes - these are already protected by the isOwner middleware in routes.ts
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
 
     // Get all contacts with pagination, search, and filtering
-    router.get("/", async (req, res) => {
+    router.get("/", requirePermission("contacts:read"), async (req, res) => {
       try {
         const page = parseInt(req.query.page as string) || 1;
         const perPage = parseInt(req.query.perPage as string) || 10;
@@ -30,7 +31,7 @@ export function register(isAdmin = false) {
     });
 
     // Get a specific contact by ID
-    router.get("/:id", async (req, res) => {
+    router.get("/:id", requirePermission("contacts:read"), async (req, res) => {
       try {
         const contactId = parseInt(req.params.id);
         
@@ -52,7 +53,7 @@ export function register(isAdmin = false) {
     });
 
     // Update a contact status
-    router.patch("/:id", async (req, res) => {
+    router.patch("/:id", requirePermission("contacts:write"), async (req, res) => {
       try {
         const contactId = parseInt(req.params.id);
         
@@ -93,7 +94,7 @@ export function register(isAdmin = false) {
     });
 
     // Respond to a contact
-    router.post("/:id/respond", async (req, res) => {
+    router.post("/:id/respond", requirePermission("contacts:write"), async (req, res) => {
       try {
         const contactId = parseInt(req.params.id);
         
@@ -138,7 +139,7 @@ export function register(isAdmin = false) {
     });
 
     // Delete a contact
-    router.delete("/:id", async (req, res) => {
+    router.delete("/:id", requirePermission("contacts:write"), async (req, res) => {
       try {
         const contactId = parseInt(req.params.id);
         
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express";
+import { verifyCsrfRequest } from "../utils/csrf";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Called server-to-server by payment providers, which sign their requests instead, or posted to
+// by the browser on the way to the (development only) eSewa stub, standing in for eSewa's own site
+const EXEMPT_PATH_PREFIXES = ["/api/payments/webhook/", "/api/payments/esewa-stub/"];
+
+// Middleware to reject state-changing requests that don't carry a matching CSRF token
+export const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
+  if (SAFE_METHODS.includes(req.method)) {
+    return next();
+  }
+  
+  // Bearer-token requests don't use cookies, so they can't be forged by another site
+  if (req.get("authorization")?.startsWith("Bearer ")) {
+    return next();
+  }
+  
+  if (EXEMPT_PATH_PREFIXES.some(prefix => req.originalUrl.startsWith(prefix))) {
+    return next();
+  }
+  
+  if (!verifyCsrfRequest(req)) {
+    console.log(`csrfProtection middleware: Rejected ${req.method} ${req.originalUrl} without a valid CSRF token`);
+    return res.status(403).json({ message: "Forbidden - Invalid or missing CSRF token", code: "csrf_invalid" });
+  }
+  
+  next();
+};
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { generateSecureToken } from "./tokens";
+
+// The token is readable by the client (not httpOnly) so it can echo it back in this header
+export const CSRF_COOKIE_NAME = "csrf_token";
+export const CSRF_HEADER_NAME = "x-csrf-token";
+
+// Tokens are signed so a cookie planted from a sibling subdomain can't be used
+const CSRF_SECRET = process.env.CSRF_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+function sign(value: string) {
+  return crypto.createHmac("sha256", CSRF_SECRET).update(value).digest("hex");
+}
+
+// Create a new signed token in the form "<random>.<signature>"
+export function createCsrfToken() {
+  const value = generateSecureToken();
+  return `${value}.${sign(value)}`;
+}
+
+export function isValidCsrfToken(token: unknown): token is string {
+  if (typeof token !== "string") {
+    return false;
+  }
+  
+  const [value, signature] = token.split(".");
+  if (!value || !signature) {
+    return false;
+  }
+  
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Set a new CSRF cookie, replacing any existing one
+export function rotateCsrfToken(res: Response) {
+  const token = createCsrfToken();
+  res.cookie(CSRF_COOKIE_NAME, token, {
+    httpOnly: false,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict"
+  });
+  
+  return token;
+}
+
+// Reuse the request's CSRF cookie if it is still valid and no rotation was asked for, otherwise set a new one
+export function issueCsrfToken(req: Request, res: Response, rotate = false) {
+  const existingToken = req.cookies?.[CSRF_COOKIE_NAME];
+  
+  if (!rotate && isValidCsrfToken(existingToken)) {
+    return existingToken;
+  }
+  
+  return rotateCsrfToken(res);
+}
+
+// Double-submit check: the header must match the cookie and carry our signature
+export function verifyCsrfRequest(req: Request) {
+  const cookieToken = req.cookies?.[CSRF_COOKIE_NAME];
+  const headerToken = req.get(CSRF_HEADER_NAME);
+  
+  if (!isValidCsrfToken(cookieToken) || !isValidCsrfToken(headerToken)) {
+    return false;
+  }
+  
+  const a = Buffer.from(cookieToken);
+  const b = Buffer.from(headerToken);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
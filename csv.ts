@@ -0,0 +1,74 @@
+// Convert a list of objects to CSV, with a column for every key that appears in any row unless headers are given
+export function toCsv(rows: Record<string, unknown>[], headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))))) {
+  const lines = [headers.map(escapeCsvValue).join(",")];
+
+  for (const row of rows) {
+    lines.push(headers.map(header => escapeCsvValue(row[header])).join(","));
+  }
+
+  return lines.join("\r\n");
+}
+
+function escapeCsvValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  // Stop spreadsheets from treating user-entered text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF line endings) into rows of cells.
+// Blank lines are skipped and a leading byte order mark is ignored.
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
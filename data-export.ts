@@ -0,0 +1,163 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { once } from "events";
+import archiver from "archiver";
+import { storage } from "../storage";
+import { DataExport } from "@shared/schema";
+import { generatePurposeToken, verifyPurposeToken } from "./jwt";
+import { toCsv } from "./csv";
+import { logActivity } from "./activity";
+import { sanitizeUser } from "./user";
+import { getMemberFieldValues } from "./member-fields";
+import { toRecurringDonationResponse } from "./recurring-donations";
+import { sendDataExportReadyEmail } from "./email";
+
+export const DATA_EXPORT_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+const DATA_EXPORT_TIMEOUT_MS = 30 * 60 * 1000; // Exports still unfinished after this are treated as failed
+
+const DATA_EXPORT_DIR = process.env.DATA_EXPORT_DIR || path.join(os.tmpdir(), "grace-church-exports");
+const DATA_EXPORT_DOWNLOAD_PURPOSE = "data_export_download";
+const DONATIONS_PAGE_SIZE = 500;
+
+// A signed download link that stops working when the export expires
+export function createDataExportDownloadUrl(dataExport: DataExport) {
+  const expiresInSeconds = Math.max(1, Math.floor(((dataExport.expiresAt?.getTime() || 0) - Date.now()) / 1000));
+  const token = generatePurposeToken({ exportId: dataExport.id }, DATA_EXPORT_DOWNLOAD_PURPOSE, `${expiresInSeconds}s`);
+
+  return `/api/users/exports/${dataExport.id}/download?token=${token}`;
+}
+
+export function verifyDataExportDownloadToken(token: string, exportId: number) {
+  const decoded = verifyPurposeToken(token, DATA_EXPORT_DOWNLOAD_PURPOSE);
+  return !!decoded && decoded.exportId === exportId;
+}
+
+// What the status endpoints return; includes the download link once the archive is ready
+export function toDataExportStatus(dataExport: DataExport) {
+  const { filePath, error, ...status } = dataExport;
+  const isReady = dataExport.status === "ready" && !!dataExport.expiresAt && dataExport.expiresAt > new Date();
+
+  return {
+    ...status,
+    downloadUrl: isReady ? createDataExportDownloadUrl(dataExport) : null
+  };
+}
+
+// The user's export that is in progress or downloadable; exports that have been building for too long
+// are failed first, so one lost in a restart doesn't block new requests
+export async function getCurrentDataExport(userId: number) {
+  await storage.failStaleDataExports(userId, new Date(Date.now() - DATA_EXPORT_TIMEOUT_MS));
+  return await storage.getCurrentDataExport(userId);
+}
+
+// Build the archive in the background so large accounts don't hold up the request,
+// clearing out archives that have expired since the last export on the way
+export function queueDataExport(exportId: number) {
+  setImmediate(() => {
+    removeExpiredDataExports().catch(error => {
+      console.error("Failed to remove expired data exports:", error);
+    });
+
+    buildDataExport(exportId).catch(error => {
+      console.error(`Data export ${exportId} failed:`, error);
+    });
+  });
+}
+
+// All donations, fetched a page at a time through the same query as the donation history
+async function getAllDonationsForUser(userId: number) {
+  const donations = [];
+
+  for (let page = 1; ; page++) {
+    const result = await storage.getDonationsByUserId(userId, page, DONATIONS_PAGE_SIZE);
+    donations.push(...result.donations);
+
+    if (result.donations.length < DONATIONS_PAGE_SIZE) {
+      return donations;
+    }
+  }
+}
+
+async function buildDataExport(exportId: number) {
+  const [dataExport] = await storage.updateDataExport(exportId, { status: "processing" });
+
+  try {
+    const user = await storage.getUserById(dataExport.userId);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const profile = sanitizeUser(user);
+    const sections: Record<string, Record<string, unknown>[]> = {
+      profile: [profile],
+      profile_fields: Object.entries(await getMemberFieldValues(user.id, "admin"))
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => ({ field, value })),
+      donations: await getAllDonationsForUser(user.id),
+      recurring_donations: (await storage.getRecurringDonationsByUserId(user.id)).map(toRecurringDonationResponse),
+      activities: await storage.getActivitiesByUserId(user.id),
+      contact_messages: await storage.getContactsByEmail(user.email),
+      media: await storage.getMediaByUploader(user.id)
+    };
+
+    await fs.promises.mkdir(DATA_EXPORT_DIR, { recursive: true });
+    const filePath = path.join(DATA_EXPORT_DIR, `export-${dataExport.id}-${user.id}.zip`);
+
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    archive.pipe(output);
+
+    for (const [name, rows] of Object.entries(sections)) {
+      archive.append(JSON.stringify(rows, null, 2), { name: `json/${name}.json` });
+      archive.append(toCsv(rows), { name: `csv/${name}.csv` });
+    }
+    archive.append(
+      `Personal data export for ${user.name} <${user.email}>\r\nGenerated ${new Date().toISOString()}\r\n`,
+      { name: "README.txt" }
+    );
+
+    await archive.finalize();
+    await once(output, "close");
+
+    const [readyExport] = await storage.updateDataExport(dataExport.id, {
+      status: "ready",
+      filePath,
+      fileSize: archive.pointer(),
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_MS)
+    });
+
+    await logActivity({
+      userId: dataExport.requestedBy || undefined,
+      action: "data_export",
+      details: `Data export #${dataExport.id} for ${user.email} is ready`
+    });
+
+    // Members who asked for their own data get the link by email as well
+    if (dataExport.requestedBy === user.id) {
+      sendDataExportReadyEmail(user.email, user.name, createDataExportDownloadUrl(readyExport), readyExport.expiresAt!).catch(emailError => {
+        console.error("Failed to send data export email:", emailError);
+      });
+    }
+  } catch (error) {
+    await storage.updateDataExport(dataExport.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// Delete archives whose download link has expired
+export async function removeExpiredDataExports() {
+  const expiredExports = await storage.getExpiredDataExports();
+
+  for (const dataExport of expiredExports) {
+    if (dataExport.filePath) {
+      await fs.promises.rm(dataExport.filePath, { force: true });
+    }
+    await storage.updateDataExport(dataExport.id, { status: "expired", filePath: null });
+  }
+}
@@ -0,0 +1,16 @@
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"refresh_token_hash" text NOT NULL,
+	"previous_refresh_token_hash" text,
+	"user_agent" text,
+	"ip_address" text,
+	"expires_at" timestamp NOT NULL,
+	"last_used_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	"revoked_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sessions_refresh_token_hash_unique" UNIQUE("refresh_token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "profile_picture_public_id" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "profile_picture_variants" jsonb;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "member_field_definitions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"type" text NOT NULL,
+	"required" boolean DEFAULT false NOT NULL,
+	"visibility" text DEFAULT 'editable' NOT NULL,
+	"options" jsonb,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "member_field_definitions_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "member_field_values" (
+	"user_id" integer NOT NULL,
+	"field_id" integer NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "member_field_values_user_id_field_id_pk" PRIMARY KEY("user_id","field_id")
+);
+--> statement-breakpoint
+ALTER TABLE "member_field_values" ADD CONSTRAINT "member_field_values_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "member_field_values" ADD CONSTRAINT "member_field_values_field_id_member_field_definitions_id_fk" FOREIGN KEY ("field_id") REFERENCES "public"."member_field_definitions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
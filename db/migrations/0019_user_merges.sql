@@ -0,0 +1,19 @@
+CREATE TABLE "user_merges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_user_id" integer NOT NULL,
+	"target_user_id" integer NOT NULL,
+	"merged_by" integer,
+	"moved_donation_ids" jsonb NOT NULL,
+	"moved_activity_ids" jsonb NOT NULL,
+	"moved_media_ids" jsonb NOT NULL,
+	"source_previous_status" text NOT NULL,
+	"undo_expires_at" timestamp NOT NULL,
+	"undone_at" timestamp,
+	"undone_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_merges" ADD CONSTRAINT "user_merges_source_user_id_users_id_fk" FOREIGN KEY ("source_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD CONSTRAINT "user_merges_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD CONSTRAINT "user_merges_merged_by_users_id_fk" FOREIGN KEY ("merged_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD CONSTRAINT "user_merges_undone_by_users_id_fk" FOREIGN KEY ("undone_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "payment_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"event_id" text NOT NULL,
+	"donation_id" integer,
+	"type" text NOT NULL,
+	"status" text NOT NULL,
+	"result" text DEFAULT 'received' NOT NULL,
+	"payload" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_events_provider_event_unique" UNIQUE("provider","event_id")
+);
+--> statement-breakpoint
+ALTER TABLE "donations" ADD COLUMN "payment_provider" text;--> statement-breakpoint
+ALTER TABLE "donations" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "donations" ADD COLUMN "refunded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_donation_id_donations_id_fk" FOREIGN KEY ("donation_id") REFERENCES "public"."donations"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "recurring_donations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"frequency" text NOT NULL,
+	"payment_method" text NOT NULL,
+	"payment_provider" text NOT NULL,
+	"payment_token" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"last_run_at" timestamp,
+	"last_failure_reason" text,
+	"paused_reason" text,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "donations" ADD COLUMN "recurring_donation_id" integer;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD COLUMN "moved_recurring_donation_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "recurring_donations" ADD CONSTRAINT "recurring_donations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donations" ADD CONSTRAINT "donations_recurring_donation_id_recurring_donations_id_fk" FOREIGN KEY ("recurring_donation_id") REFERENCES "public"."recurring_donations"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "donation_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"donation_id" integer NOT NULL,
+	"fund_id" integer NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	CONSTRAINT "donation_allocations_donation_fund_unique" UNIQUE("donation_id","fund_id")
+);
+--> statement-breakpoint
+CREATE TABLE "funds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"restricted" boolean DEFAULT false NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"goal_amount" numeric(12, 2),
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "funds_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "recurring_donations" ADD COLUMN "fund_id" integer;--> statement-breakpoint
+ALTER TABLE "donation_allocations" ADD CONSTRAINT "donation_allocations_donation_id_donations_id_fk" FOREIGN KEY ("donation_id") REFERENCES "public"."donations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donation_allocations" ADD CONSTRAINT "donation_allocations_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "funds_single_default_unique" ON "funds" USING btree ("is_default") WHERE "funds"."is_default";--> statement-breakpoint
+ALTER TABLE "recurring_donations" ADD CONSTRAINT "recurring_donations_fund_id_funds_id_fk" FOREIGN KEY ("fund_id") REFERENCES "public"."funds"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "funds" ("name", "description", "is_default") VALUES ('General Fund', 'Where the church most needs it', true);--> statement-breakpoint
+INSERT INTO "donation_allocations" ("donation_id", "fund_id", "amount")
+SELECT "donations"."id", "funds"."id", "donations"."amount"
+FROM "donations" JOIN "funds" ON "funds"."is_default"
+WHERE NOT EXISTS (SELECT 1 FROM "donation_allocations" WHERE "donation_allocations"."donation_id" = "donations"."id");
@@ -0,0 +1,13 @@
+CREATE TABLE "failed_logins" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"ip_address" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "failed_logins" ADD CONSTRAINT "failed_logins_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "failed_logins_ip_address_created_at_idx" ON "failed_logins" USING btree ("ip_address","created_at");--> statement-breakpoint
+CREATE INDEX "failed_logins_user_id_created_at_idx" ON "failed_logins" USING btree ("user_id","created_at");--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "failed_login_attempts";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "last_failed_login_at";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "locked_until";
\ No newline at end of file
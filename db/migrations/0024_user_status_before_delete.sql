@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "status_before_delete" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "user_merges" ADD COLUMN "moved_household_member_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD COLUMN "moved_member_field_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_merges" ADD COLUMN "moved_identity_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "donations" ADD COLUMN "recurring_run_at" timestamp;--> statement-breakpoint
+ALTER TABLE "donations" ADD CONSTRAINT "donations_recurring_run_unique" UNIQUE("recurring_donation_id","recurring_run_at");
\ No newline at end of file
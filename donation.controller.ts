@@ -1,19 +1,42 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { authenticateJWT } from "../middleware/auth.middleware";
+import { authenticateJWT, requireVerifiedEmail } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { insertDonationSchema } from "@shared/schema";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { logActivity } from "../utils/activity";
+import { getPaymentProvider, getPaymentProviderForMethod, applyPaymentUpdate, PaymentProviderError } from "../utils/payments";
+import { bankQrPaymentProvider, matchBankTransfers } from "../utils/bank-qr";
+import { donationDesignationSchema, resolveDonationAllocations, toAllocationInput } from "../utils/funds";
+
+const bankTransferEntriesSchema = z.object({
+  entries: z.array(z.object({
+    reference: z.string().max(500),
+    amount: z.union([z.number(), z.string()]).optional(),
+    bankReference: z.string().max(200).optional(),
+    date: z.string().max(50).optional()
+  })).min(1, "Add at least one bank statement line").max(1000)
+});
+
+const reconcileDonationSchema = z.object({
+  status: z.enum(["completed", "failed"]),
+  bankReference: z.string().trim().max(200).optional(),
+  amount: z.coerce.number().positive().optional(), // What the bank statement shows was received
+  acceptAmountMismatch: z.boolean().default(false) // Complete it even though the amounts differ
+}).refine(data => data.status !== "completed" || data.amount !== undefined, {
+  message: "The received amount is required to complete a bank transfer",
+  path: ["amount"]
+});
 
 export function register(isAdmin = false) {
   const router = Router();
 
   if (isAdmin) {
-    // Admin routes - these are already protected by the isOwner middleware in routes.ts
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
 
     // Get all donations with pagination, search, filtering, and sorting
-    router.get("/", async (req, res) => {
+    router.get("/", requirePermission("donations:read"), async (req, res) => {
       try {
         const page = parseInt(req.query.page as string) || 1;
         const perPage = parseInt(req.query.perPage as string) || 10;
@@ -22,9 +45,10 @@ export function register(isAdmin = false) {
         const period = (req.query.period as string) || "all_time";
         const sort = (req.query.sort as string) || "date";
         const direction = (req.query.direction as string) || "desc";
+        const fundId = parseInt(req.query.fundId as string) || null;
         
         const { donations, total } = await storage.getAllDonations(
-          page, perPage, search, status, period, sort, direction
+          page, perPage, search, status, period, sort, direction, fundId
         );
         
         res.status(200).json({ donations, total });
@@ -35,7 +59,7 @@ export function register(isAdmin = false) {
     });
 
     // Get donation summary statistics
-    router.get("/summary", async (req, res) => {
+    router.get("/summary", requirePermission("donations:read"), async (req, res) => {
       try {
         const period = (req.query.period as string) || "all_time";
         
@@ -48,8 +72,41 @@ export function register(isAdmin = false) {
       }
     });
 
+    // Get bank QR donations still waiting for their transfer, for reconciliation
+    router.get("/reconciliation", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const donations = await storage.getPendingDonationsByProvider(bankQrPaymentProvider.id);
+        
+        res.status(200).json(donations.map(({ user, ...donation }) => ({
+          ...donation,
+          donor: { id: user.id, name: user.name, email: user.email }
+        })));
+      } catch (error) {
+        console.error("Get pending bank transfers error:", error);
+        res.status(500).json({ message: "An error occurred while fetching pending bank transfers" });
+      }
+    });
+    
+    // Match bank statement lines to bank QR donations by the reference in their remarks - doesn't change anything
+    router.post("/reconciliation/match", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const { entries } = bankTransferEntriesSchema.parse(req.body);
+        
+        const matches = await matchBankTransfers(entries);
+        
+        res.status(200).json(matches);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+        
+        console.error("Match bank transfers error:", error);
+        res.status(500).json({ message: "An error occurred while matching bank transfers" });
+      }
+    });
+
     // Get a specific donation by ID
-    router.get("/:id", async (req, res) => {
+    router.get("/:id", requirePermission("donations:read"), async (req, res) => {
       try {
         const donationId = parseInt(req.params.id);
         
@@ -71,7 +128,17 @@ export function register(isAdmin = false) {
           userEmail: donation.user?.email,
           amount: donation.amount,
           paymentMethod: donation.paymentMethod,
+          paymentProvider: donation.paymentProvider,
+          transactionId: donation.transactionId,
           status: donation.status,
+          completedAt: donation.completedAt?.toISOString() || null,
+          refundedAt: donation.refundedAt?.toISOString() || null,
+          allocations: donation.allocations.map(allocation => ({
+            fundId: allocation.fundId,
+            fundName: allocation.fund.name,
+            restricted: allocation.fund.restricted,
+            amount: allocation.amount
+          })),
           createdAt: donation.createdAt.toISOString()
         };
         
@@ -82,8 +149,128 @@ export function register(isAdmin = false) {
       }
     });
 
+    // Get the payment events recorded for a donation
+    router.get("/:id/payment-events", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const donationId = parseInt(req.params.id);
+        
+        if (isNaN(donationId)) {
+          return res.status(400).json({ message: "Invalid donation ID" });
+        }
+        
+        const events = await storage.getPaymentEventsByDonationId(donationId);
+        
+        res.status(200).json(events);
+      } catch (error) {
+        console.error("Get payment events error:", error);
+        res.status(500).json({ message: "An error occurred while fetching payment events" });
+      }
+    });
+
+    // Mark a bank QR donation as received (or as never paid) after checking the bank statement
+    router.post("/:id/reconcile", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const donationId = parseInt(req.params.id);
+        
+        if (isNaN(donationId)) {
+          return res.status(400).json({ message: "Invalid donation ID" });
+        }
+        
+        const { status, bankReference, amount, acceptAmountMismatch } = reconcileDonationSchema.parse(req.body);
+        const donation = await storage.getDonationById(donationId);
+        
+        if (!donation || donation.paymentProvider !== bankQrPaymentProvider.id || !donation.transactionId) {
+          return res.status(404).json({ message: "Bank transfer donation not found" });
+        }
+        
+        const amountMismatch = amount !== undefined && Math.abs(amount - parseFloat(donation.amount)) >= 0.005;
+        
+        if (status === "completed" && amountMismatch && !acceptAmountMismatch) {
+          return res.status(409).json({
+            message: `The transfer was for ${amount!.toFixed(2)} but the donation is for ${donation.amount}, set acceptAmountMismatch to complete it anyway`
+          });
+        }
+        
+        const { result, donation: updatedDonation } = await applyPaymentUpdate(bankQrPaymentProvider, {
+          eventId: `reconcile:${donation.transactionId}:${status}`,
+          type: `bank_transfer.${status}`,
+          reference: donation.transactionId,
+          status,
+          payload: { bankReference: bankReference || null, receivedAmount: amount ?? null, acceptAmountMismatch, reconciledBy: req.user?.id }
+        });
+        
+        if (result !== "applied") {
+          return res.status(400).json({ message: `Donation is already ${updatedDonation?.status || donation.status}` });
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "donation",
+          details: `Reconciled bank transfer for donation ID ${donationId} as ${status}${bankReference ? ` (bank reference ${bankReference})` : ""}${status === "completed" && amountMismatch ? `, accepting ${amount!.toFixed(2)} received` : ""}`
+        });
+        
+        const { user, ...reconciledDonation } = (await storage.getDonationById(donationId))!;
+        res.status(200).json(reconciledDonation);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+        
+        console.error("Reconcile donation error:", error);
+        res.status(500).json({ message: "An error occurred while reconciling the donation" });
+      }
+    });
+
+    // Refund a completed donation through its payment provider
+    router.post("/:id/refund", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const donationId = parseInt(req.params.id);
+        
+        if (isNaN(donationId)) {
+          return res.status(400).json({ message: "Invalid donation ID" });
+        }
+        
+        const donation = await storage.getDonationById(donationId);
+        
+        if (!donation) {
+          return res.status(404).json({ message: "Donation not found" });
+        }
+        
+        if (donation.status !== "completed") {
+          return res.status(400).json({ message: "Only completed donations can be refunded" });
+        }
+        
+        const provider = getPaymentProvider(donation.paymentProvider);
+        
+        if (!provider) {
+          return res.status(400).json({ message: "This donation wasn't paid through a payment provider, refund it manually" });
+        }
+        
+        const update = await provider.refund(donation);
+        const { result } = await applyPaymentUpdate(provider, update);
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "donation",
+          details: `Refunded donation ID ${donationId} of $${donation.amount} through ${provider.id}`
+        });
+        
+        const { user, ...refundedDonation } = (await storage.getDonationById(donationId))!;
+        res.status(200).json({ ...refundedDonation, refundResult: result });
+      } catch (error) {
+        if (error instanceof PaymentProviderError) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        console.error("Refund donation error:", error);
+        res.status(500).json({ message: "An error occurred while refunding the donation" });
+      }
+    });
+
     // Update a donation
-    router.patch("/:id", async (req, res) => {
+    router.patch("/:id", requirePermission("donations:write"), async (req, res) => {
       try {
         const donationId = parseInt(req.params.id);
         
@@ -125,8 +312,8 @@ export function register(isAdmin = false) {
   } else {
     // User routes
 
-    // Make a donation (authenticated only)
-    router.post("/", authenticateJWT, async (req, res) => {
+    // Make a donation (authenticated users with a verified email only)
+    router.post("/", authenticateJWT, requireVerifiedEmail, async (req, res) => {
       try {
         if (!req.user) {
           return res.status(401).json({ message: "Not authenticated" });
@@ -136,50 +323,47 @@ export function register(isAdmin = false) {
         const donationData = insertDonationSchema
           .omit({ userId: true, status: true })
           .parse(req.body);
+        const designation = donationDesignationSchema.parse(req.body);
         
-        // Handle different payment methods
-        let donationStatus: "pending" | "completed" | "failed" = "completed";
-        let donationDetails: any = { ...donationData };
-        
-        // For eSewa and bank QR, set status to pending and add additional info
-        if (donationData.paymentMethod === "esewa") {
-          donationStatus = "pending";
-          // In a real implementation, you would integrate with eSewa API
-          // and store the transaction reference
-          if (req.body.esewaId) {
-            donationDetails.esewaReference = `ESEWA-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-          }
-        } else if (donationData.paymentMethod === "bank_qr") {
-          donationStatus = "pending";
-          // In a real implementation, you would generate a QR code
-          // for the specific bank and store its URL
-          if (req.body.bankName) {
-            // This would be a generated QR code URL in a real app
-            // For this example, we're just creating a placeholder
-            donationDetails.qrImageUrl = `https://example.com/qr-codes/church-donation-${Date.now()}.png`;
-            donationDetails.transactionId = `BANK-${req.body.bankName?.toUpperCase()}-${Date.now()}`;
-          }
+        // Donations stay pending until their payment provider confirms them
+        const provider = getPaymentProviderForMethod(donationData.paymentMethod);
+        
+        if (!provider) {
+          return res.status(400).json({ message: "This payment method is not available right now" });
+        }
+        
+        // Optional split across funds, otherwise the whole gift goes to the default fund
+        const allocationResult = await resolveDonationAllocations(
+          donationData.amount, toAllocationInput(designation, donationData.amount)
+        );
+        
+        if (!allocationResult.allocations) {
+          return res.status(400).json({ message: allocationResult.message });
         }
         
-        // Create the donation with properly typed data
-        const [newDonation] = await storage.createDonation({
-          amount: donationDetails.amount,
-          paymentMethod: donationDetails.paymentMethod,
-          transactionId: donationDetails.transactionId || null,
-          qrImageUrl: donationDetails.qrImageUrl || null,
-          esewaReference: donationDetails.esewaReference || null,
+        const [pendingDonation] = await storage.createDonation({
+          amount: donationData.amount,
+          paymentMethod: donationData.paymentMethod,
+          paymentProvider: provider.id,
           userId: req.user.id,
-          status: donationStatus
+          status: "pending"
         });
         
+        const allocations = await storage.createDonationAllocations(
+          allocationResult.allocations.map(allocation => ({ ...allocation, donationId: pendingDonation.id }))
+        );
+        
+        const payment = await provider.createIntent(pendingDonation, { name: req.user.name, email: req.user.email });
+        const [newDonation] = await storage.updateDonation(pendingDonation.id, { transactionId: payment.reference });
+        
         // Log the activity
         await logActivity({
           userId: req.user.id,
           action: "donation",
-          details: `Made a donation of $${newDonation.amount} using ${donationData.paymentMethod.replace('_', ' ')}`
+          details: `Started a donation of $${newDonation.amount} using ${donationData.paymentMethod.replace('_', ' ')}`
         });
         
-        res.status(201).json(newDonation);
+        res.status(201).json({ ...newDonation, allocations, payment });
       } catch (error) {
         if (error instanceof ZodError) {
           const validationError = fromZodError(error);
@@ -53,6 +53,107 @@ export async function sendSignupConfirmationEmail(email: string, name: string) {
   }
 }
 
+// Send email address verification email
+export async function sendEmailVerificationEmail(email: string, name: string, verificationToken: string) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const verifyUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/api/auth/verify-email?token=${verificationToken}`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'Verify Your Email Address - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Please Verify Your Email, ${escapeHtml(name)}</h2>
+          <p>Thank you for signing up with Grace Church. Please confirm that this is your email address by clicking the button below.</p>
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${verifyUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Verify Email</a>
+          </p>
+          <p>Until your email is verified you won't be able to make donations or publish content.</p>
+          <p>If you did not create an account, you can safely ignore this email.</p>
+          <p>This link is valid for 24 hours.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Verification email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+    throw error;
+  }
+}
+
+// Escape request-supplied text (e.g. a user agent) before putting it in an email body
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Send magic sign-in link email, with where the request came from
+export async function sendMagicLinkEmail(
+  email: string,
+  name: string,
+  magicToken: string,
+  context: { ipAddress?: string | null; userAgent?: string | null; requestedAt: Date }
+) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const signInUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/magic-link?token=${magicToken}`;
+    const formattedTime = context.requestedAt.toLocaleString('en-US', {
+      dateStyle: 'long',
+      timeStyle: 'short'
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'Your Sign-In Link - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Sign In to Grace Church</h2>
+          <p>Dear ${escapeHtml(name)},</p>
+          <p>Click the button below to sign in to your account. No password is needed.</p>
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${signInUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Sign In</a>
+          </p>
+          <p>This link was requested on ${formattedTime}:</p>
+          <ul>
+            <li>IP address: ${escapeHtml(context.ipAddress || 'Unknown')}</li>
+            <li>Device: ${escapeHtml(context.userAgent || 'Unknown')}</li>
+          </ul>
+          <p>If you did not request this, you can safely ignore this email. Nobody can sign in without the link.</p>
+          <p>This link can be used once and is valid for 15 minutes.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Magic link email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send magic link email:', error);
+    throw error;
+  }
+}
+
 // Send password reset email
 export async function sendPasswordResetEmail(email: string, resetToken: string) {
   try {
@@ -91,6 +192,168 @@ export async function sendPasswordResetEmail(email: string, resetToken: string)
   }
 }
 
+// Send account locked notification email
+export async function sendAccountLockedEmail(email: string, name: string, lockedUntil: Date) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const formattedTime = lockedUntil.toLocaleString('en-US', {
+      dateStyle: 'long',
+      timeStyle: 'short'
+    });
+    const resetUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/forgot-password`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'Your Account Has Been Locked - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Your Account Has Been Temporarily Locked</h2>
+          <p>Dear ${escapeHtml(name)},</p>
+          <p>We noticed several unsuccessful attempts to sign in to your Grace Church account, so we have blocked further attempts from that device until ${formattedTime} to keep it safe.</p>
+          <p>If this was you, you can try again after that time or <a href="${resetUrl}">reset your password</a>.</p>
+          <p>If this wasn't you, we recommend resetting your password. Please contact us if you need help unlocking your account sooner.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Account locked email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send account locked email:', error);
+    throw error;
+  }
+}
+
+// Send invitation email so the invitee can create their account
+export async function sendInvitationEmail(email: string, name: string | null, inviterName: string, role: string, invitationToken: string, expiresAt: Date) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const acceptUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/accept-invitation?token=${invitationToken}`;
+    const formattedExpiry = expiresAt.toLocaleDateString('en-US', { dateStyle: 'long' });
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'You Are Invited to Join Grace Church Online',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>You're Invited${name ? `, ${escapeHtml(name)}` : ''}!</h2>
+          <p>${escapeHtml(inviterName)} has invited you to create an account on the Grace Church website as ${escapeHtml(role.replace(/_/g, ' '))}.</p>
+          <p>Click the button below to choose your password and finish setting up your account.</p>
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${acceptUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Accept Invitation</a>
+          </p>
+          <p>This invitation is valid until ${formattedExpiry}.</p>
+          <p>If you were not expecting this invitation, you can safely ignore this email.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Invitation email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send invitation email:', error);
+    throw error;
+  }
+}
+
+// Send email with the link to a finished personal data export
+export async function sendDataExportReadyEmail(email: string, name: string, downloadPath: string, expiresAt: Date) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const downloadUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}${downloadPath}`;
+    const formattedExpiry = expiresAt.toLocaleString('en-US', {
+      dateStyle: 'long',
+      timeStyle: 'short'
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'Your Data Export Is Ready - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Your Data Export Is Ready</h2>
+          <p>Dear ${escapeHtml(name)},</p>
+          <p>The copy of your personal data you requested is ready. It contains your profile, donations, account activity, contact messages and uploaded media details.</p>
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${downloadUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Download Your Data</a>
+          </p>
+          <p>This link works until ${formattedExpiry}. After that you can request a new export from your profile.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Data export email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send data export email:', error);
+    throw error;
+  }
+}
+
+// Send ownership transfer request email to the proposed new owner
+export async function sendOwnershipTransferEmail(email: string, name: string, ownerName: string, transferToken: string) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const acceptUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/ownership/accept?token=${transferToken}`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: 'You Have Been Asked to Become the Owner - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Ownership Transfer Request</h2>
+          <p>Dear ${escapeHtml(name)},</p>
+          <p>${escapeHtml(ownerName)} would like to transfer ownership of the Grace Church website to you. As owner you will have full access to every part of the site, including roles and security settings.</p>
+          <p>To accept, sign in to your account and click the button below.</p>
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${acceptUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Accept Ownership</a>
+          </p>
+          <p>If you were not expecting this, you can safely ignore this email and nothing will change.</p>
+          <p>This link is valid for 72 hours.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Ownership transfer email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send ownership transfer email:', error);
+    throw error;
+  }
+}
+
 // Send contact form confirmation email
 export async function sendContactConfirmationEmail(email: string, name: string) {
   try {
@@ -168,4 +431,47 @@ export async function sendDonationReceiptEmail(email: string, name: string, amou
     console.error('Failed to send donation receipt email:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Send an email when a recurring gift's payment fails - retryAt is null once it has been paused
+export async function sendRecurringDonationFailedEmail(email: string, name: string, amount: number, retryAt: Date | null) {
+  try {
+    // Check if email credentials are provided
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.log('Email credentials not configured, skipping email send');
+      return;
+    }
+
+    const formattedAmount = amount.toFixed(2);
+    const manageUrl = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/profile/giving`;
+    const nextStep = retryAt
+      ? `<p>We'll try again on ${retryAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. If your card or account details have changed, please update them before then.</p>`
+      : `<p>After several attempts we've paused your recurring gift. Please update your payment method and resume it whenever you're ready.</p>`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM || 'church@example.com',
+      to: email,
+      subject: retryAt ? 'Your Recurring Gift Could Not Be Processed - Grace Church' : 'Your Recurring Gift Has Been Paused - Grace Church',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>We Couldn't Process Your Recurring Gift</h2>
+          <p>Dear ${escapeHtml(name)},</p>
+          <p>Your recurring gift of $${formattedAmount} didn't go through this time.</p>
+          ${nextStep}
+          <p style="text-align: center; margin: 20px 0;">
+            <a href="${manageUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">Manage Your Giving</a>
+          </p>
+          <p>Thank you for your faithful support.</p>
+          <p>Blessings,<br/>Grace Church Team</p>
+        </div>
+      `
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    console.log('Recurring donation failure email sent successfully:', result.messageId);
+    return result;
+  } catch (error) {
+    console.error('Failed to send recurring donation failure email:', error);
+    throw error;
+  }
+}
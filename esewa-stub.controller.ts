@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { signEsewaFields } from "../utils/esewa";
+
+// A local stand-in for eSewa's ePay form and status endpoints, for development only. Point the provider
+// at it with ESEWA_FORM_URL=<site>/api/payments/esewa-stub/form and ESEWA_STATUS_URL=<site>/api/payments/esewa-stub/status.
+// Payments only live in memory, like eSewa's they are signed with the product's secret key.
+
+interface StubTransaction {
+  productCode: string;
+  totalAmount: string;
+  successUrl: string;
+  failureUrl: string;
+  status: "PENDING" | "COMPLETE" | "CANCELED";
+  refId: string | null;
+}
+
+const RESPONSE_SIGNED_FIELDS = ["transaction_code", "status", "total_amount", "transaction_uuid", "product_code", "signed_field_names"];
+
+const transactions = new Map<string, StubTransaction>();
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export function register() {
+  const router = Router();
+
+  // The donor's browser posts the signed payment form here
+  router.post("/form", (req, res) => {
+    const fields = req.body || {};
+    const fieldNames = String(fields.signed_field_names || "").split(",");
+
+    if (!fields.transaction_uuid || !fields.signature || fields.signature !== signEsewaFields(fields, fieldNames)) {
+      return res.status(400).send("Invalid payment request signature");
+    }
+
+    transactions.set(fields.transaction_uuid, {
+      productCode: fields.product_code,
+      totalAmount: fields.total_amount,
+      successUrl: fields.success_url,
+      failureUrl: fields.failure_url,
+      status: "PENDING",
+      refId: null
+    });
+
+    const path = `${req.baseUrl}/form/${encodeURIComponent(fields.transaction_uuid)}`;
+
+    res.status(200).send(`<!DOCTYPE html>
+<html>
+  <body>
+    <h1>eSewa stub</h1>
+    <p>Pay Rs. ${escapeHtml(String(fields.total_amount))} to ${escapeHtml(String(fields.product_code))}?</p>
+    <p><a href="${path}/pay">Pay</a> <a href="${path}/cancel">Cancel</a></p>
+  </body>
+</html>`);
+  });
+
+  // Complete the payment and send the donor back with a signed response, as eSewa does
+  router.get("/form/:transactionUuid/pay", (req, res) => {
+    const transaction = transactions.get(req.params.transactionUuid);
+
+    if (!transaction || transaction.status !== "PENDING") {
+      return res.status(404).send("Payment not found");
+    }
+
+    transaction.status = "COMPLETE";
+    transaction.refId = crypto.randomBytes(4).toString("hex").toUpperCase();
+
+    const response: Record<string, string> = {
+      transaction_code: transaction.refId,
+      status: transaction.status,
+      total_amount: transaction.totalAmount,
+      transaction_uuid: req.params.transactionUuid,
+      product_code: transaction.productCode,
+      signed_field_names: RESPONSE_SIGNED_FIELDS.join(",")
+    };
+    response.signature = signEsewaFields(response, RESPONSE_SIGNED_FIELDS);
+
+    res.redirect(`${transaction.successUrl}?data=${encodeURIComponent(Buffer.from(JSON.stringify(response)).toString("base64"))}`);
+  });
+
+  router.get("/form/:transactionUuid/cancel", (req, res) => {
+    const transaction = transactions.get(req.params.transactionUuid);
+
+    if (!transaction || transaction.status !== "PENDING") {
+      return res.status(404).send("Payment not found");
+    }
+
+    transaction.status = "CANCELED";
+
+    res.redirect(transaction.failureUrl);
+  });
+
+  // Transaction status check, same query and response shape as eSewa's
+  router.get("/status", (req, res) => {
+    const transactionUuid = String(req.query.transaction_uuid || "");
+    const transaction = transactions.get(transactionUuid);
+
+    if (!transaction || transaction.productCode !== req.query.product_code ||
+        Number(transaction.totalAmount) !== Number(req.query.total_amount)) {
+      return res.status(200).json({
+        product_code: req.query.product_code,
+        transaction_uuid: transactionUuid,
+        total_amount: req.query.total_amount,
+        status: "NOT_FOUND",
+        ref_id: null
+      });
+    }
+
+    res.status(200).json({
+      product_code: transaction.productCode,
+      transaction_uuid: transactionUuid,
+      total_amount: transaction.totalAmount,
+      status: transaction.status,
+      ref_id: transaction.refId
+    });
+  });
+
+  return router;
+}
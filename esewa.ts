@@ -0,0 +1,203 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { storage } from "../storage";
+import { Donation } from "@shared/schema";
+import { PaymentProvider, PaymentUpdate, PaymentProviderError } from "./payments";
+
+// eSewa ePay v2. Defaults are eSewa's public test (UAT) merchant; set ESEWA_FORM_URL and ESEWA_STATUS_URL
+// to the local stub (/api/payments/esewa-stub) to test without network access.
+const ESEWA_PRODUCT_CODE = process.env.ESEWA_PRODUCT_CODE || "EPAYTEST";
+const ESEWA_SECRET_KEY = process.env.ESEWA_SECRET_KEY || "8gBm/:&EnhH.1/q";
+const ESEWA_FORM_URL = process.env.ESEWA_FORM_URL || "https://rc-epay.esewa.com.np/api/epay/main/v2/form";
+const ESEWA_STATUS_URL = process.env.ESEWA_STATUS_URL || "https://rc.esewa.com.np/api/epay/transaction/status/";
+const ESEWA_STATUS_TIMEOUT_MS = 10 * 1000;
+
+// Outside development the test defaults above must not be used, so routes.ts checks these are all set
+export const ESEWA_CONFIG_VARIABLES = ["ESEWA_SECRET_KEY", "ESEWA_PRODUCT_CODE", "ESEWA_FORM_URL", "ESEWA_STATUS_URL"];
+
+const PAYMENT_SIGNED_FIELDS = ["total_amount", "transaction_uuid", "product_code"];
+
+// eSewa's transaction status values and the donation status each means
+const ESEWA_STATUSES: Record<string, PaymentUpdate["status"]> = {
+  COMPLETE: "completed",
+  PENDING: "pending",
+  AMBIENT: "pending", // Reached eSewa but not finished yet
+  FULL_REFUND: "refunded",
+  PARTIAL_REFUND: "completed", // Still a gift, only part of it was returned
+  CANCELED: "failed",
+  NOT_FOUND: "failed"
+};
+
+export function getMissingEsewaConfig() {
+  return ESEWA_CONFIG_VARIABLES.filter(name => !process.env[name]);
+}
+
+// Base64 HMAC-SHA256 over "field=value" pairs, joined with commas in the order given
+export function signEsewaFields(fields: Record<string, string | number>, fieldNames: string[], secretKey = ESEWA_SECRET_KEY) {
+  const message = fieldNames.map(name => `${name}=${fields[name]}`).join(",");
+  return crypto.createHmac("sha256", secretKey).update(message).digest("base64");
+}
+
+// Decode the base64 "data" eSewa adds to the success URL and check its signature; returns null if invalid.
+// It holds transaction_code, status, total_amount, transaction_uuid, product_code and the signature fields.
+export function decodeEsewaResponse(data: unknown): Record<string, string> | null {
+  if (typeof data !== "string" || !data) {
+    return null;
+  }
+
+  try {
+    const response = JSON.parse(Buffer.from(data, "base64").toString("utf8")) as Record<string, string>;
+    const fieldNames = String(response.signed_field_names || "").split(",");
+    const expected = signEsewaFields(response, fieldNames);
+
+    if (!fieldNames.includes("transaction_uuid") || typeof response.signature !== "string" ||
+        response.signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(response.signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    return response;
+  } catch {
+    return null;
+  }
+}
+
+// eSewa formats amounts without trailing zeros ("1000.0" or "1000"), so compare them as numbers
+function sameAmount(a: string | number, b: string | number) {
+  return Math.abs(Number(a) - Number(b)) < 0.005;
+}
+
+// Ask eSewa for the transaction's status - the redirect alone isn't proof of payment
+async function checkStatus(donation: Donation) {
+  const url = new URL(ESEWA_STATUS_URL);
+  url.searchParams.set("product_code", ESEWA_PRODUCT_CODE);
+  url.searchParams.set("total_amount", donation.amount);
+  url.searchParams.set("transaction_uuid", donation.transactionId!);
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(ESEWA_STATUS_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`eSewa status check failed: ${response.status}`);
+  }
+
+  return await response.json() as { status: string; ref_id?: string | null; total_amount?: string | number };
+}
+
+// eSewa appends ?data= to the success URL but sends nothing back on failure, so that one carries the reference
+function getReturnUrl(outcome: "success" | "failure", transactionUuid?: string) {
+  const url = `${process.env.WEBSITE_URL || 'http://localhost:3000'}/api/payments/esewa/${outcome}`;
+  return transactionUuid ? `${url}/${encodeURIComponent(transactionUuid)}` : url;
+}
+
+export const esewaPaymentProvider: PaymentProvider = {
+  id: "esewa",
+  paymentMethods: ["esewa"],
+
+  // The donor's browser posts these fields to eSewa's form URL
+  async createIntent(donation: Donation) {
+    const transactionUuid = `GC-${donation.id}-${crypto.randomBytes(6).toString("hex")}`;
+    const fields: Record<string, string> = {
+      amount: donation.amount,
+      tax_amount: "0",
+      product_service_charge: "0",
+      product_delivery_charge: "0",
+      total_amount: donation.amount,
+      transaction_uuid: transactionUuid,
+      product_code: ESEWA_PRODUCT_CODE,
+      success_url: getReturnUrl("success"),
+      failure_url: getReturnUrl("failure", transactionUuid),
+      signed_field_names: PAYMENT_SIGNED_FIELDS.join(",")
+    };
+    fields.signature = signEsewaFields(fields, PAYMENT_SIGNED_FIELDS);
+
+    return {
+      reference: transactionUuid,
+      clientData: { formUrl: ESEWA_FORM_URL, method: "POST", fields }
+    };
+  },
+
+  // input is { data } from the success redirect, or {} after the failure redirect.
+  // Either way eSewa's status API decides the outcome.
+  async confirm(donation: Donation, input: Record<string, unknown>) {
+    if (!donation.transactionId) {
+      return null;
+    }
+
+    if (input.data !== undefined) {
+      const response = decodeEsewaResponse(input.data);
+
+      if (!response || response.transaction_uuid !== donation.transactionId || !sameAmount(response.total_amount, donation.amount)) {
+        throw new PaymentProviderError("Invalid eSewa response");
+      }
+    }
+
+    const result = await checkStatus(donation);
+    const status = ESEWA_STATUSES[result.status];
+
+    if (!status || (result.total_amount !== undefined && !sameAmount(result.total_amount, donation.amount))) {
+      throw new PaymentProviderError(`Unexpected eSewa status: ${result.status}`);
+    }
+
+    if (result.ref_id) {
+      await storage.updateDonation(donation.id, { esewaReference: result.ref_id });
+    }
+
+    return {
+      eventId: `status:${donation.transactionId}:${result.status}`,
+      type: `status.${result.status.toLowerCase()}`,
+      reference: donation.transactionId,
+      status,
+      payload: result
+    };
+  },
+
+  // ePay has no refund API; refunds are made in the eSewa merchant portal and picked up from the status
+  async refund(donation: Donation) {
+    const update = await esewaPaymentProvider.confirm(donation, {});
+
+    if (!update || update.status !== "refunded") {
+      throw new PaymentProviderError("Refund this payment in the eSewa merchant portal first, then try again");
+    }
+
+    return update;
+  },
+
+  // eSewa doesn't send webhooks, but its signed response can be posted here as { data } too. Like the
+  // redirect, it's only trusted once eSewa's status API agrees.
+  async verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    let data: unknown;
+
+    try {
+      data = headers["content-type"]?.includes("application/json")
+        ? JSON.parse(rawBody.toString("utf8")).data
+        : new URLSearchParams(rawBody.toString("utf8")).get("data");
+    } catch {
+      return null;
+    }
+
+    const response = decodeEsewaResponse(data);
+
+    if (!response) {
+      return null;
+    }
+
+    const donation = await storage.getDonationByProviderReference(esewaPaymentProvider.id, response.transaction_uuid);
+
+    if (!donation) {
+      return [];
+    }
+
+    try {
+      const update = await esewaPaymentProvider.confirm(donation, { data });
+      return update ? [update] : [];
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+};
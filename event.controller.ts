@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { authenticateJWT } from "../middleware/auth.middleware";
+import { authenticateJWT, requireVerifiedEmail } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { insertEventSchema } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -73,8 +74,8 @@ export function register() {
     }
   });
 
-  // Create a new event (authenticated only)
-  router.post("/", authenticateJWT, async (req, res) => {
+  // Create a new event (events:write, verified email required)
+  router.post("/", authenticateJWT, requirePermission("events:write"), requireVerifiedEmail, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -115,8 +116,8 @@ export function register() {
     }
   });
 
-  // Update an event (authenticated only)
-  router.patch("/:id", authenticateJWT, async (req, res) => {
+  // Update an event (events:write)
+  router.patch("/:id", authenticateJWT, requirePermission("events:write"), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -161,8 +162,8 @@ export function register() {
     }
   });
 
-  // Delete an event (authenticated only)
-  router.delete("/:id", authenticateJWT, async (req, res) => {
+  // Delete an event (events:write)
+  router.delete("/:id", authenticateJWT, requirePermission("events:write"), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -0,0 +1,181 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertFundSchema, Fund } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+
+const createFundSchema = insertFundSchema
+  .pick({ name: true, description: true, active: true, restricted: true, isDefault: true, goalAmount: true, sortOrder: true });
+
+const updateFundSchema = createFundSchema.partial();
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get all funds, including inactive ones
+    router.get("/", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const funds = await storage.getAllFunds();
+
+        res.status(200).json(funds);
+      } catch (error) {
+        console.error("Get funds error:", error);
+        res.status(500).json({ message: "An error occurred while fetching funds" });
+      }
+    });
+
+    // Create a fund
+    router.post("/", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const fundData = createFundSchema.parse(req.body);
+
+        if (fundData.isDefault && fundData.active === false) {
+          return res.status(400).json({ message: "The default fund must be active" });
+        }
+
+        if (await storage.getFundByName(fundData.name)) {
+          return res.status(409).json({ message: "A fund with this name already exists" });
+        }
+
+        const [newFund] = await storage.createFund(fundData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "fund_create",
+          details: `Created fund ${newFund.name}${newFund.restricted ? " (restricted)" : ""}`
+        });
+
+        res.status(201).json(newFund);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create fund error:", error);
+        res.status(500).json({ message: "An error occurred while creating the fund" });
+      }
+    });
+
+    // Update a fund - deactivate it instead of deleting once it has received gifts
+    router.patch("/:id", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const fundId = parseInt(req.params.id);
+
+        if (isNaN(fundId)) {
+          return res.status(400).json({ message: "Invalid fund ID" });
+        }
+
+        const fund = await storage.getFundById(fundId);
+
+        if (!fund) {
+          return res.status(404).json({ message: "Fund not found" });
+        }
+
+        const fundData: Partial<Fund> = updateFundSchema.parse(req.body);
+        const isDefault = fundData.isDefault ?? fund.isDefault;
+
+        if (isDefault && (fundData.active ?? fund.active) === false) {
+          return res.status(400).json({ message: "The default fund must be active" });
+        }
+
+        if (fund.isDefault && fundData.isDefault === false) {
+          return res.status(400).json({ message: "Make another fund the default instead" });
+        }
+
+        if (fundData.name && fundData.name.toLowerCase() !== fund.name.toLowerCase() && await storage.getFundByName(fundData.name)) {
+          return res.status(409).json({ message: "A fund with this name already exists" });
+        }
+
+        if (Object.keys(fundData).length === 0) {
+          return res.status(200).json(fund);
+        }
+
+        const [updatedFund] = await storage.updateFund(fundId, fundData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "fund_update",
+          details: `Updated fund ${updatedFund.name}: ${Object.keys(fundData).join(", ")}`
+        });
+
+        res.status(200).json(updatedFund);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update fund error:", error);
+        res.status(500).json({ message: "An error occurred while updating the fund" });
+      }
+    });
+
+    // Delete a fund that has never received a gift
+    router.delete("/:id", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const fundId = parseInt(req.params.id);
+
+        if (isNaN(fundId)) {
+          return res.status(400).json({ message: "Invalid fund ID" });
+        }
+
+        const fund = await storage.getFundById(fundId);
+
+        if (!fund) {
+          return res.status(404).json({ message: "Fund not found" });
+        }
+
+        if (fund.isDefault) {
+          return res.status(400).json({ message: "The default fund can't be deleted" });
+        }
+
+        if (await storage.countFundAllocations(fundId) > 0) {
+          return res.status(409).json({ message: "This fund has received gifts, deactivate it instead" });
+        }
+
+        await storage.deleteFund(fundId);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "fund_delete",
+          details: `Deleted fund ${fund.name}`
+        });
+
+        res.status(200).json({ message: "Fund deleted" });
+      } catch (error) {
+        console.error("Delete fund error:", error);
+        res.status(500).json({ message: "An error occurred while deleting the fund" });
+      }
+    });
+  } else {
+    // Public routes - the funds a donor can choose from
+
+    // Get active funds
+    router.get("/", async (req, res) => {
+      try {
+        const funds = await storage.getAllFunds(false);
+
+        res.status(200).json(funds.map(fund => ({
+          id: fund.id,
+          name: fund.name,
+          description: fund.description,
+          restricted: fund.restricted,
+          isDefault: fund.isDefault,
+          goalAmount: fund.goalAmount
+        })));
+      } catch (error) {
+        console.error("Get active funds error:", error);
+        res.status(500).json({ message: "An error occurred while fetching funds" });
+      }
+    });
+  }
+
+  return router;
+}
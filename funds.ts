@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { storage } from "../storage";
+
+// How a donor splits a gift, e.g. [{ fundId: 1, amount: "40.00" }, { fundId: 3, amount: "10.00" }]
+export const donationAllocationsSchema = z.array(z.object({
+  fundId: z.number().int().positive(),
+  amount: z.union([z.number(), z.string()])
+    .transform(amount => Number(amount))
+    .refine(amount => amount > 0 && Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6, "Allocation amounts must be positive with at most 2 decimals")
+})).min(1, "Add at least one fund").max(10);
+
+// The designation on a new gift: a split across funds, or a single fund that gets the whole amount
+export const donationDesignationSchema = z.object({
+  allocations: donationAllocationsSchema.optional(),
+  fundId: z.coerce.number().int().positive().nullish()
+});
+
+type AllocationInput = z.infer<typeof donationAllocationsSchema>;
+type DonationDesignation = z.infer<typeof donationDesignationSchema>;
+
+function toCents(amount: string | number) {
+  return Math.round(Number(amount) * 100);
+}
+
+// Check a gift's split against its amount and the active funds. Without a split the whole gift goes to
+// the default fund (or stays unallocated if there isn't one). Returns the rows to store, or a message.
+export async function resolveDonationAllocations(amount: string, input?: AllocationInput) {
+  if (!input) {
+    const defaultFund = await storage.getDefaultFund();
+    return { allocations: defaultFund ? [{ fundId: defaultFund.id, amount }] : [] };
+  }
+
+  const fundIds = input.map(allocation => allocation.fundId);
+
+  if (new Set(fundIds).size !== fundIds.length) {
+    return { message: "Each fund can only appear once" };
+  }
+
+  const funds = await storage.getFundsByIds(fundIds);
+  const unavailable = fundIds.filter(id => !funds.some(fund => fund.id === id && fund.active));
+
+  if (unavailable.length > 0) {
+    return { message: `These funds aren't accepting gifts: ${unavailable.join(", ")}` };
+  }
+
+  const allocatedCents = input.reduce((total, allocation) => total + toCents(allocation.amount), 0);
+
+  if (allocatedCents !== toCents(amount)) {
+    return { message: "The fund amounts must add up to the donation amount" };
+  }
+
+  return {
+    allocations: input.map(allocation => ({ fundId: allocation.fundId, amount: (toCents(allocation.amount) / 100).toFixed(2) }))
+  };
+}
+
+// Turn a parsed designation into the split to check, or undefined to use the default fund
+export function toAllocationInput(designation: DonationDesignation, amount: string): AllocationInput | undefined {
+  if (designation.allocations) {
+    return designation.allocations;
+  }
+
+  return designation.fundId ? [{ fundId: designation.fundId, amount: Number(amount) }] : undefined;
+}
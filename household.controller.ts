@@ -0,0 +1,571 @@
+import { Router, Request } from "express";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertHouseholdSchema, insertHouseholdMemberSchema, HouseholdMember } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+
+const householdSchema = insertHouseholdSchema.pick({
+  name: true,
+  addressLine1: true,
+  addressLine2: true,
+  city: true,
+  state: true,
+  postalCode: true,
+  country: true
+});
+
+// Members without a login only have a name
+const dependentSchema = insertHouseholdMemberSchema.pick({ role: true, birthDate: true }).extend({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters")
+});
+
+type HouseholdWithMembers = NonNullable<Awaited<ReturnType<typeof storage.getHouseholdById>>>;
+
+// Heads and spouses manage the household from their profile
+function canManageHousehold(membership: HouseholdMember) {
+  return membership.role === "head" || membership.role === "spouse";
+}
+
+// Household with each member's display name, plus giving totals for those allowed to see them
+async function toHouseholdView(household: HouseholdWithMembers, includeGiving: boolean) {
+  return {
+    ...household,
+    members: household.members.map(member => ({
+      ...member,
+      name: member.user?.name || member.name,
+      hasLogin: member.userId !== null
+    })),
+    giving: includeGiving ? await storage.getHouseholdGivingTotals(household.id) : undefined
+  };
+}
+
+// Check that a user can be added to a household; returns an error response or null
+async function checkNewHouseholdUser(userId: number) {
+  const user = await storage.getUserById(userId);
+
+  if (!user || user.deletedAt) {
+    return { status: 404, message: "User not found" };
+  }
+
+  if (await storage.getHouseholdMembershipByUserId(userId)) {
+    return { status: 409, message: "User already belongs to a household" };
+  }
+
+  return null;
+}
+
+function canSeeGiving(req: Request) {
+  return !!req.user?.permissions.includes("donations:read");
+}
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get all households with pagination and search
+    router.get("/", requirePermission("users:read"), async (req, res) => {
+      try {
+        const page = parseInt(req.query.page as string) || 1;
+        const perPage = parseInt(req.query.perPage as string) || 10;
+        const search = (req.query.search as string) || "";
+
+        const { households, total } = await storage.getAllHouseholds(page, perPage, search);
+
+        res.status(200).json({ households, total });
+      } catch (error) {
+        console.error("Get all households error:", error);
+        res.status(500).json({ message: "An error occurred while fetching households" });
+      }
+    });
+
+    // Get a household with its members, and its giving totals for those who can view donations
+    router.get("/:id", requirePermission("users:read"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+
+        if (isNaN(householdId)) {
+          return res.status(400).json({ message: "Invalid household ID" });
+        }
+
+        const household = await storage.getHouseholdById(householdId);
+
+        if (!household) {
+          return res.status(404).json({ message: "Household not found" });
+        }
+
+        res.status(200).json(await toHouseholdView(household, canSeeGiving(req)));
+      } catch (error) {
+        console.error("Get household error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the household" });
+      }
+    });
+
+    // Create a household, optionally with an existing user as its head
+    router.post("/", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdData = householdSchema.parse(req.body);
+        const headUserId = req.body.headUserId !== undefined ? parseInt(req.body.headUserId) : undefined;
+
+        if (headUserId !== undefined) {
+          const userError = isNaN(headUserId) ? { status: 400, message: "Invalid user ID" } : await checkNewHouseholdUser(headUserId);
+
+          if (userError) {
+            return res.status(userError.status).json({ message: userError.message });
+          }
+        }
+
+        const household = await storage.createHousehold(
+          { ...householdData, createdBy: req.user?.id },
+          headUserId !== undefined ? { userId: headUserId, role: "head" } : undefined
+        );
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_create",
+          details: `Created household ${household.name}`
+        });
+
+        res.status(201).json(household);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create household error:", error);
+        res.status(500).json({ message: "An error occurred while creating the household" });
+      }
+    });
+
+    // Update a household's name and address
+    router.patch("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+
+        if (isNaN(householdId)) {
+          return res.status(400).json({ message: "Invalid household ID" });
+        }
+
+        const householdData = householdSchema.partial().parse(req.body);
+        const [updatedHousehold] = await storage.updateHousehold(householdId, householdData);
+
+        if (!updatedHousehold) {
+          return res.status(404).json({ message: "Household not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_update",
+          details: `Updated household ${updatedHousehold.name}`
+        });
+
+        res.status(200).json(updatedHousehold);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update household error:", error);
+        res.status(500).json({ message: "An error occurred while updating the household" });
+      }
+    });
+
+    // Delete a household - its users stay, members without a login are removed with it
+    router.delete("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+
+        if (isNaN(householdId)) {
+          return res.status(400).json({ message: "Invalid household ID" });
+        }
+
+        const [deletedHousehold] = await storage.deleteHousehold(householdId);
+
+        if (!deletedHousehold) {
+          return res.status(404).json({ message: "Household not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_delete",
+          details: `Deleted household ${deletedHousehold.name}`
+        });
+
+        res.status(200).json({ message: "Household deleted successfully" });
+      } catch (error) {
+        console.error("Delete household error:", error);
+        res.status(500).json({ message: "An error occurred while deleting the household" });
+      }
+    });
+
+    // Add a member - either an existing user ({ userId, role }) or someone without a login ({ name, role, birthDate })
+    router.post("/:id/members", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+
+        if (isNaN(householdId)) {
+          return res.status(400).json({ message: "Invalid household ID" });
+        }
+
+        const household = await storage.getHouseholdById(householdId);
+
+        if (!household) {
+          return res.status(404).json({ message: "Household not found" });
+        }
+
+        let memberData;
+
+        if (req.body.userId !== undefined) {
+          const userId = parseInt(req.body.userId);
+          const userError = isNaN(userId) ? { status: 400, message: "Invalid user ID" } : await checkNewHouseholdUser(userId);
+
+          if (userError) {
+            return res.status(userError.status).json({ message: userError.message });
+          }
+
+          memberData = { ...insertHouseholdMemberSchema.pick({ role: true, birthDate: true }).parse(req.body), userId };
+        } else {
+          memberData = dependentSchema.parse(req.body);
+        }
+
+        const [member] = await storage.addHouseholdMember({ ...memberData, householdId });
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_update",
+          details: `Added member #${member.id} to household ${household.name} as ${member.role}`
+        });
+
+        res.status(201).json(member);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Add household member error:", error);
+        res.status(500).json({ message: "An error occurred while adding the household member" });
+      }
+    });
+
+    // Update a member's role, or the name and birth date of a member without a login
+    router.patch("/:id/members/:memberId", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+        const memberId = parseInt(req.params.memberId);
+
+        if (isNaN(householdId) || isNaN(memberId)) {
+          return res.status(400).json({ message: "Invalid household or member ID" });
+        }
+
+        const member = await storage.getHouseholdMemberById(memberId);
+
+        if (!member || member.householdId !== householdId) {
+          return res.status(404).json({ message: "Household member not found" });
+        }
+
+        // Users keep their own name, only members without a login are renamed here
+        const memberData = member.userId
+          ? insertHouseholdMemberSchema.pick({ role: true, birthDate: true }).partial().parse(req.body)
+          : dependentSchema.partial().parse(req.body);
+
+        if (Object.keys(memberData).length === 0) {
+          return res.status(200).json(member);
+        }
+
+        const [updatedMember] = await storage.updateHouseholdMember(memberId, householdId, memberData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_update",
+          details: `Updated member #${memberId} of household #${householdId}`
+        });
+
+        res.status(200).json(updatedMember);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update household member error:", error);
+        res.status(500).json({ message: "An error occurred while updating the household member" });
+      }
+    });
+
+    // Remove a member from a household
+    router.delete("/:id/members/:memberId", requirePermission("users:write"), async (req, res) => {
+      try {
+        const householdId = parseInt(req.params.id);
+        const memberId = parseInt(req.params.memberId);
+
+        if (isNaN(householdId) || isNaN(memberId)) {
+          return res.status(400).json({ message: "Invalid household or member ID" });
+        }
+
+        const [removedMember] = await storage.removeHouseholdMember(memberId, householdId);
+
+        if (!removedMember) {
+          return res.status(404).json({ message: "Household member not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "household_update",
+          details: `Removed member #${memberId} from household #${householdId}`
+        });
+
+        res.status(200).json({ message: "Household member removed" });
+      } catch (error) {
+        console.error("Remove household member error:", error);
+        res.status(500).json({ message: "An error occurred while removing the household member" });
+      }
+    });
+  } else {
+    // User routes - mounted at /api/users/profile/household, for the current user's own household.
+    // Heads and spouses can edit it and its members without a login; other users are linked by admins.
+
+    // Get the current user's household, with its giving totals for the head and spouse
+    router.get("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const membership = await storage.getHouseholdMembershipByUserId(req.user.id);
+        const household = membership ? await storage.getHouseholdById(membership.householdId) : undefined;
+
+        if (!membership || !household) {
+          return res.status(404).json({ message: "You are not part of a household" });
+        }
+
+        res.status(200).json(await toHouseholdView(household, canManageHousehold(membership)));
+      } catch (error) {
+        console.error("Get own household error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your household" });
+      }
+    });
+
+    // Create a household with the current user as its head
+    router.post("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        if (await storage.getHouseholdMembershipByUserId(req.user.id)) {
+          return res.status(409).json({ message: "You already belong to a household" });
+        }
+
+        const householdData = householdSchema.parse(req.body);
+        const household = await storage.createHousehold(
+          { ...householdData, createdBy: req.user.id },
+          { userId: req.user.id, role: "head" }
+        );
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "household_create",
+          details: `User created household ${household.name}`
+        });
+
+        res.status(201).json(household);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create own household error:", error);
+        res.status(500).json({ message: "An error occurred while creating your household" });
+      }
+    });
+
+    // Update the household's name and shared address
+    router.patch("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const membership = await storage.getHouseholdMembershipByUserId(req.user.id);
+
+        if (!membership) {
+          return res.status(404).json({ message: "You are not part of a household" });
+        }
+
+        if (!canManageHousehold(membership)) {
+          return res.status(403).json({ message: "Only the head of the household or their spouse can change it" });
+        }
+
+        const householdData = householdSchema.partial().parse(req.body);
+        const [updatedHousehold] = await storage.updateHousehold(membership.householdId, householdData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "household_update",
+          details: `User updated household ${updatedHousehold.name}`
+        });
+
+        res.status(200).json(updatedHousehold);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update own household error:", error);
+        res.status(500).json({ message: "An error occurred while updating your household" });
+      }
+    });
+
+    // Add a member without a login, e.g. a child
+    router.post("/members", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const membership = await storage.getHouseholdMembershipByUserId(req.user.id);
+
+        if (!membership) {
+          return res.status(404).json({ message: "You are not part of a household" });
+        }
+
+        if (!canManageHousehold(membership)) {
+          return res.status(403).json({ message: "Only the head of the household or their spouse can add members" });
+        }
+
+        const memberData = dependentSchema.parse(req.body);
+        const [member] = await storage.addHouseholdMember({ ...memberData, householdId: membership.householdId });
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "household_update",
+          details: `User added ${member.name} to their household as ${member.role}`
+        });
+
+        res.status(201).json(member);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Add own household member error:", error);
+        res.status(500).json({ message: "An error occurred while adding the household member" });
+      }
+    });
+
+    // Update a member without a login
+    router.patch("/members/:memberId", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const memberId = parseInt(req.params.memberId);
+
+        if (isNaN(memberId)) {
+          return res.status(400).json({ message: "Invalid member ID" });
+        }
+
+        const membership = await storage.getHouseholdMembershipByUserId(req.user.id);
+        const member = await storage.getHouseholdMemberById(memberId);
+
+        if (!membership || !member || member.householdId !== membership.householdId) {
+          return res.status(404).json({ message: "Household member not found" });
+        }
+
+        if (!canManageHousehold(membership) || member.userId !== null) {
+          return res.status(403).json({ message: "You can only change household members without their own login" });
+        }
+
+        const memberData = dependentSchema.partial().parse(req.body);
+
+        if (Object.keys(memberData).length === 0) {
+          return res.status(200).json(member);
+        }
+
+        const [updatedMember] = await storage.updateHouseholdMember(memberId, membership.householdId, memberData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "household_update",
+          details: `User updated household member ${updatedMember.name}`
+        });
+
+        res.status(200).json(updatedMember);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update own household member error:", error);
+        res.status(500).json({ message: "An error occurred while updating the household member" });
+      }
+    });
+
+    // Remove a member without a login, or leave the household by removing yourself
+    router.delete("/members/:memberId", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const memberId = parseInt(req.params.memberId);
+
+        if (isNaN(memberId)) {
+          return res.status(400).json({ message: "Invalid member ID" });
+        }
+
+        const membership = await storage.getHouseholdMembershipByUserId(req.user.id);
+        const member = await storage.getHouseholdMemberById(memberId);
+
+        if (!membership || !member || member.householdId !== membership.householdId) {
+          return res.status(404).json({ message: "Household member not found" });
+        }
+
+        const isSelf = member.id === membership.id;
+
+        if (!isSelf && (!canManageHousehold(membership) || member.userId !== null)) {
+          return res.status(403).json({ message: "You can only remove yourself or household members without their own login" });
+        }
+
+        // The household would be left without a head, so someone else has to take over first
+        if (isSelf && membership.role === "head") {
+          const household = await storage.getHouseholdById(membership.householdId);
+
+          if (household && household.members.length > 1) {
+            return res.status(409).json({ message: "Ask an administrator to make another member head of the household before you leave" });
+          }
+        }
+
+        await storage.removeHouseholdMember(memberId, membership.householdId);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "household_update",
+          details: isSelf ? `User left household #${membership.householdId}` : `User removed ${member.name} from their household`
+        });
+
+        res.status(200).json({ message: isSelf ? "You have left the household" : "Household member removed" });
+      } catch (error) {
+        console.error("Remove own household member error:", error);
+        res.status(500).json({ message: "An error occurred while removing the household member" });
+      }
+    });
+  }
+
+  return router;
+}
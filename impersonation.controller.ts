@@ -0,0 +1,143 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { OWNER_ROLE } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import {
+  IMPERSONATION_DEFAULT_DURATION_MINUTES,
+  IMPERSONATION_MAX_DURATION_MINUTES,
+  setImpersonationCookie,
+  clearImpersonationCookie
+} from "../utils/impersonation";
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Owner routes - routes.ts requires the owner role
+
+    // Get recent impersonation sessions (audit)
+    router.get("/", async (req, res) => {
+      try {
+        const impersonations = await storage.getRecentImpersonationSessions();
+
+        res.status(200).json(impersonations);
+      } catch (error) {
+        console.error("Get impersonation sessions error:", error);
+        res.status(500).json({ message: "An error occurred while fetching impersonation sessions" });
+      }
+    });
+
+    // Start viewing the site as another user, for a limited time
+    router.post("/", async (req, res) => {
+      try {
+        if (!req.user?.sessionId) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const targetUserId = parseInt(req.body.userId);
+        const durationMinutes = parseInt(req.body.durationMinutes) || IMPERSONATION_DEFAULT_DURATION_MINUTES;
+        const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+
+        if (isNaN(targetUserId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+
+        if (durationMinutes < 1 || durationMinutes > IMPERSONATION_MAX_DURATION_MINUTES) {
+          return res.status(400).json({ message: `Duration must be between 1 and ${IMPERSONATION_MAX_DURATION_MINUTES} minutes` });
+        }
+
+        const target = await storage.getUserById(targetUserId);
+
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (target.id === req.user.id || target.role === OWNER_ROLE) {
+          return res.status(403).json({ message: "Owners can't be impersonated" });
+        }
+
+        if (target.status === "inactive") {
+          return res.status(400).json({ message: "Inactive users can't be impersonated" });
+        }
+
+        // Only one impersonation per session at a time
+        await storage.endImpersonationSessionsForOwnerSession(req.user.sessionId);
+
+        const [impersonation] = await storage.createImpersonationSession({
+          ownerId: req.user.id,
+          targetUserId: target.id,
+          ownerSessionId: req.user.sessionId,
+          reason: reason || null,
+          expiresAt: new Date(Date.now() + durationMinutes * 60 * 1000)
+        });
+
+        setImpersonationCookie(res, impersonation.id, impersonation.expiresAt);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "impersonation_start",
+          details: `Started viewing as ${target.email} for ${durationMinutes} minutes${reason ? `: ${reason}` : ""}`
+        });
+
+        res.status(201).json(impersonation);
+      } catch (error) {
+        console.error("Start impersonation error:", error);
+        res.status(500).json({ message: "An error occurred while starting impersonation" });
+      }
+    });
+  } else {
+    // User routes - while impersonating, req.user is the impersonated user and req.user.realUser the owner
+
+    // Get the current impersonation, if any
+    router.get("/status", authenticateJWT, async (req, res) => {
+      try {
+        const realUser = req.user?.realUser;
+
+        if (!realUser) {
+          return res.status(200).json({ impersonating: false });
+        }
+
+        res.status(200).json({
+          impersonating: true,
+          realUser: { id: realUser.id, name: realUser.name, email: realUser.email },
+          user: { id: req.user?.id, name: req.user?.name, email: req.user?.email },
+          expiresAt: realUser.expiresAt
+        });
+      } catch (error) {
+        console.error("Get impersonation status error:", error);
+        res.status(500).json({ message: "An error occurred while fetching impersonation status" });
+      }
+    });
+
+    // Stop impersonating and go back to the owner's own view
+    router.post("/stop", async (req, res) => {
+      try {
+        const realUser = req.user?.realUser;
+
+        clearImpersonationCookie(res);
+
+        if (!realUser) {
+          return res.status(200).json({ message: "Not impersonating" });
+        }
+
+        await storage.endImpersonationSession(realUser.impersonationId);
+
+        // Log the activity
+        await logActivity({
+          userId: realUser.id,
+          action: "impersonation_stop",
+          details: `Stopped viewing as ${req.user?.email}`
+        });
+
+        res.status(200).json({ message: "Impersonation ended" });
+      } catch (error) {
+        console.error("Stop impersonation error:", error);
+        res.status(500).json({ message: "An error occurred while stopping impersonation" });
+      }
+    });
+  }
+
+  return router;
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from "express";
+import { logActivity } from "../utils/activity";
+import { IMPERSONATION_ALLOWED_MUTATIONS, IMPERSONATION_ALLOWED_READS } from "../utils/impersonation";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const isAllowedRead = (path: string) =>
+  IMPERSONATION_ALLOWED_READS.some(prefix => path === prefix || path.startsWith(`${prefix}/`));
+
+// Middleware to audit every request made while impersonating and to block anything that isn't an allowed read
+export const impersonationGuard = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user?.realUser) {
+    return next();
+  }
+  
+  const path = req.originalUrl.split("?")[0];
+  const isAllowed = req.method === "OPTIONS" ||
+    (SAFE_METHODS.includes(req.method) ? isAllowedRead(path) : IMPERSONATION_ALLOWED_MUTATIONS.includes(path));
+  
+  // Logged under the real owner, so the impersonated user's own history stays theirs
+  await logActivity({
+    userId: req.user.realUser.id,
+    action: "impersonation_request",
+    details: `${isAllowed ? "" : "Blocked: "}${req.method} ${path} as ${req.user.email}`
+  });
+  
+  if (!isAllowed) {
+    return res.status(403).json({ message: "Forbidden - Changes can't be made while viewing as another user", impersonating: true });
+  }
+  
+  next();
+};
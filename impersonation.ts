@@ -0,0 +1,62 @@
+import { Request, Response } from "express";
+import { generatePurposeToken, verifyPurposeToken } from "./jwt";
+
+export const IMPERSONATION_MAX_DURATION_MINUTES = 60;
+export const IMPERSONATION_DEFAULT_DURATION_MINUTES = 30;
+
+const IMPERSONATION_COOKIE_NAME = "impersonation_token";
+const IMPERSONATION_PURPOSE = "impersonation";
+
+// Mutations allowed while impersonating, so the owner can always get back out
+export const IMPERSONATION_ALLOWED_MUTATIONS = ["/api/impersonation/stop", "/api/auth/logout", "/api/auth/refresh"];
+
+// Reads allowed while impersonating, as path prefixes. Anything not listed is blocked, including GET endpoints
+// that change state such as email verification and the OIDC and payment provider redirects
+export const IMPERSONATION_ALLOWED_READS = [
+  "/api/auth/me",
+  "/api/auth/csrf-token",
+  "/api/auth/sessions",
+  "/api/auth/oidc/providers",
+  "/api/auth/oidc/identities",
+  "/api/auth/2fa/status",
+  "/api/auth/tokens",
+  "/api/users/profile/household",
+  "/api/member-fields",
+  "/api/events",
+  "/api/sermons",
+  "/api/media",
+  "/api/funds",
+  "/api/donations/history",
+  "/api/donations/recurring",
+  "/api/impersonation/status",
+  "/api/ownership/transfers",
+  "/api/admin"
+];
+
+// The cookie only names the impersonation session; setUserInfo checks it against the database on every request
+export function setImpersonationCookie(res: Response, impersonationId: number, expiresAt: Date) {
+  const expiresInSeconds = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+
+  res.cookie(IMPERSONATION_COOKIE_NAME, generatePurposeToken({ iid: impersonationId }, IMPERSONATION_PURPOSE, `${expiresInSeconds}s`), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: expiresInSeconds * 1000
+  });
+}
+
+export function clearImpersonationCookie(res: Response) {
+  res.clearCookie(IMPERSONATION_COOKIE_NAME, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict"
+  });
+}
+
+// The impersonation session ID from the request's cookie, if it is present and correctly signed
+export function getImpersonationId(req: Request): number | null {
+  const token = req.cookies?.[IMPERSONATION_COOKIE_NAME];
+  const decoded = token ? verifyPurposeToken(token, IMPERSONATION_PURPOSE) : null;
+
+  return decoded && typeof decoded.iid === "number" ? decoded.iid : null;
+}
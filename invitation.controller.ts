@@ -0,0 +1,204 @@
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertUserSchema } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import { hashToken } from "../utils/tokens";
+import { inviteUser, sendInvitation } from "../utils/invitations";
+import { completeLogin } from "../utils/session";
+import { sanitizeUser } from "../utils/user";
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get all invitations with pagination and status filter ('pending', 'expired', 'accepted', 'revoked')
+    router.get("/", requirePermission("users:read"), async (req, res) => {
+      try {
+        const page = parseInt(req.query.page as string) || 1;
+        const perPage = parseInt(req.query.perPage as string) || 10;
+        const status = (req.query.status as string) || "all";
+
+        const { invitations, total } = await storage.getAllInvitations(page, perPage, status);
+
+        res.status(200).json({ invitations, total });
+      } catch (error) {
+        console.error("Get all invitations error:", error);
+        res.status(500).json({ message: "An error occurred while fetching invitations" });
+      }
+    });
+
+    // Invite a new user
+    router.post("/", requirePermission("users:write"), async (req, res) => {
+      try {
+        const result = await inviteUser(req, req.body);
+
+        if ("status" in result) {
+          return res.status(result.status).json({ message: result.message });
+        }
+
+        res.status(201).json(result.invitation);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create invitation error:", error);
+        res.status(500).json({ message: "An error occurred while creating the invitation" });
+      }
+    });
+
+    // Resend an invitation - the previous link stops working and the expiry starts over
+    router.post("/:id/resend", requirePermission("users:write"), async (req, res) => {
+      try {
+        const invitationId = parseInt(req.params.id);
+
+        if (isNaN(invitationId)) {
+          return res.status(400).json({ message: "Invalid invitation ID" });
+        }
+
+        const invitation = await storage.getInvitationById(invitationId);
+
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+
+        // Expired invitations are still "pending" and can be resent
+        if (invitation.status !== "pending") {
+          return res.status(400).json({ message: `Invitation has been ${invitation.status}` });
+        }
+
+        const updated = await sendInvitation(req, invitation, true);
+
+        res.status(200).json(updated);
+      } catch (error) {
+        console.error("Resend invitation error:", error);
+        res.status(500).json({ message: "An error occurred while resending the invitation" });
+      }
+    });
+
+    // Revoke an invitation
+    router.delete("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const invitationId = parseInt(req.params.id);
+
+        if (isNaN(invitationId)) {
+          return res.status(400).json({ message: "Invalid invitation ID" });
+        }
+
+        const invitation = await storage.getInvitationById(invitationId);
+
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+
+        if (invitation.status !== "pending") {
+          return res.status(400).json({ message: `Invitation has been ${invitation.status}` });
+        }
+
+        await storage.updateInvitation(invitationId, { status: "revoked", revokedAt: new Date() });
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "invitation_revoke",
+          details: `Revoked invitation for ${invitation.email}`
+        });
+
+        res.status(200).json({ message: "Invitation revoked" });
+      } catch (error) {
+        console.error("Revoke invitation error:", error);
+        res.status(500).json({ message: "An error occurred while revoking the invitation" });
+      }
+    });
+  } else {
+    // Public routes - the invitee doesn't have an account yet
+
+    // Look up an invitation so the accept page can show who it is for
+    router.get("/:token", async (req, res) => {
+      try {
+        const invitation = await storage.getInvitationByTokenHash(hashToken(req.params.token));
+
+        if (!invitation || invitation.status !== "pending" || invitation.expiresAt < new Date()) {
+          return res.status(404).json({ message: "This invitation is invalid or has expired" });
+        }
+
+        res.status(200).json({
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt
+        });
+      } catch (error) {
+        console.error("Get invitation error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the invitation" });
+      }
+    });
+
+    // Accept an invitation - creates the account with the invitee's own password and signs them in
+    router.post("/accept", async (req, res) => {
+      try {
+        const { token } = req.body;
+
+        if (!token || typeof token !== "string") {
+          return res.status(400).json({ message: "Invitation token is required" });
+        }
+
+        const tokenHash = hashToken(token);
+        const pendingInvitation = await storage.getInvitationByTokenHash(tokenHash);
+
+        if (!pendingInvitation) {
+          return res.status(404).json({ message: "This invitation is invalid or has expired" });
+        }
+
+        const { name, password, notificationOptIn } = insertUserSchema
+          .pick({ name: true, password: true, notificationOptIn: true })
+          .parse({ name: pendingInvitation.name, ...req.body });
+
+        // An account may have been created for this email since the invitation was sent
+        if (await storage.getUserByEmail(pendingInvitation.email)) {
+          return res.status(409).json({ message: "An account with this email already exists, please log in" });
+        }
+
+        const result = await storage.acceptInvitation(tokenHash, {
+          name,
+          email: pendingInvitation.email,
+          password: await bcrypt.hash(password, 10),
+          role: pendingInvitation.role,
+          status: "active",
+          notificationOptIn,
+          emailVerifiedAt: new Date() // The invitation link was sent to this address
+        });
+
+        if (!result) {
+          return res.status(404).json({ message: "This invitation is invalid or has expired" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: result.user.id,
+          action: "invitation_accept",
+          details: `${result.user.email} accepted their invitation as ${result.user.role}`
+        });
+
+        await completeLogin(req, res, result.user, "invitation");
+
+        res.status(201).json(sanitizeUser(result.user));
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Accept invitation error:", error);
+        res.status(500).json({ message: "An error occurred while accepting the invitation" });
+      }
+    });
+  }
+
+  return router;
+}
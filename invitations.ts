@@ -0,0 +1,81 @@
+import { Request } from "express";
+import { storage } from "../storage";
+import { insertInvitationSchema, Invitation, DEFAULT_MEMBER_ROLE, OWNER_ROLE } from "@shared/schema";
+import { createSecureToken } from "./tokens";
+import { sendInvitationEmail } from "./email";
+import { logActivity } from "./activity";
+import { checkRoleAssignment } from "./user";
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Create a fresh token for the invitation, (re)send the email and log it
+export async function sendInvitation(req: Request, invitation: Invitation, isResend = false) {
+  const { token, tokenHash } = createSecureToken();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  const [updated] = await storage.updateInvitation(invitation.id, {
+    tokenHash,
+    expiresAt,
+    lastSentAt: new Date()
+  });
+
+  try {
+    await sendInvitationEmail(updated.email, updated.name, req.user?.name || "Grace Church", updated.role, token, expiresAt);
+  } catch (emailError) {
+    console.error("Failed to send invitation email:", emailError);
+    // Continue, the invitation can be resent
+  }
+
+  await logActivity({
+    userId: req.user?.id,
+    action: "invitation_send",
+    details: `${isResend ? "Resent" : "Sent"} invitation to ${updated.email} as ${updated.role}`
+  });
+
+  const { tokenHash: _tokenHash, ...invitationWithoutToken } = updated;
+  return invitationWithoutToken;
+}
+
+// Invite an email address with a preassigned role; returns the invitation or an error response.
+// Throws a ZodError if the input is invalid.
+export async function inviteUser(req: Request, input: unknown) {
+  const { email, name, role } = insertInvitationSchema
+    .pick({ email: true, name: true, role: true })
+    .partial({ name: true, role: true })
+    .parse(input);
+  const invitedRole = role || DEFAULT_MEMBER_ROLE;
+
+  // Owners are made through an ownership transfer or by promoting an existing user
+  if (invitedRole === OWNER_ROLE) {
+    return { status: 400, message: "Users can't be invited as owner" };
+  }
+
+  if (invitedRole !== DEFAULT_MEMBER_ROLE) {
+    const roleError = await checkRoleAssignment(req, invitedRole);
+    if (roleError) {
+      return roleError;
+    }
+  }
+
+  const existingUser = await storage.getUserByEmail(email);
+  if (existingUser) {
+    return { status: 409, message: "User with this email already exists" };
+  }
+
+  const pendingInvitation = await storage.getPendingInvitationByEmail(email);
+  if (pendingInvitation) {
+    return { status: 409, message: "This email already has a pending invitation, resend it instead" };
+  }
+
+  // Placeholder hash until sendInvitation generates the emailed token
+  const [invitation] = await storage.createInvitation({
+    email,
+    name: name || null,
+    role: invitedRole,
+    tokenHash: createSecureToken().tokenHash,
+    invitedBy: req.user?.id,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+  });
+
+  return { invitation: await sendInvitation(req, invitation) };
+}
@@ -2,14 +2,15 @@ import jwt from 'jsonwebtoken';
 
 // The JWT secret should be in environment variables in a real application
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = '24h'; // Token expires in 24 hours
+const JWT_EXPIRES_IN = '15m'; // Short-lived access token, renewed through the session's refresh token
 
-export function generateToken(user: any) {
+export function generateToken(user: any, sessionId: number) {
   return jwt.sign(
     { 
       id: user.id,
       email: user.email,
-      role: user.role 
+      role: user.role,
+      sid: sessionId
     }, 
     JWT_SECRET, 
     { expiresIn: JWT_EXPIRES_IN }
@@ -19,10 +20,31 @@ export function generateToken(user: any) {
 export function verifyToken(token: string) {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    
+    // Purpose tokens (e.g. email verification links) must never be accepted as auth tokens
+    if (decoded.purpose) {
+      console.error('JWT verification error: purpose token used as auth token');
+      return null;
+    }
+    
     console.log('JWT successfully verified:', { id: decoded.id, role: decoded.role });
     return decoded;
   } catch (error) {
     console.error('JWT verification error:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Sign a short-lived token that is only valid for a single purpose (e.g. an email link)
+export function generatePurposeToken(payload: Record<string, any>, purpose: string, expiresIn: string) {
+  return jwt.sign({ ...payload, purpose }, JWT_SECRET, { expiresIn } as jwt.SignOptions);
+}
+
+export function verifyPurposeToken(token: string, purpose: string) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    return decoded.purpose === purpose ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+}
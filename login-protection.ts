@@ -0,0 +1,133 @@
+import { Request } from "express";
+import bcrypt from "bcrypt";
+import { storage, FailedLoginCounts } from "../storage";
+import { User, FailedLogin } from "@shared/schema";
+import { logActivity } from "./activity";
+import { generateSecureToken } from "./tokens";
+import { sendAccountLockedEmail } from "./email";
+
+// Failures against one account from one IP address; counted per IP so one attacker can't lock a member out
+const MAX_FAILED_LOGINS_PER_ACCOUNT_IP = 5;
+// Failures against one account from any IP address, so rotating addresses doesn't give unlimited guesses
+const MAX_FAILED_LOGINS_PER_ACCOUNT = 10;
+const MAX_FAILED_LOGINS_PER_IP = 20; // Across all accounts
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000; // Failures older than this no longer count; also the lockout length
+
+// Checked when the email is unknown, so those logins take as long as a wrong password
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(generateSecureToken(), 10);
+
+// A password or code check in progress; it already counts as a failure until it succeeds
+export interface LoginAttempt {
+  retryAfter: number; // Seconds to wait when the attempt was refused, otherwise 0
+  failedLogin: FailedLogin | null;
+  counts: FailedLoginCounts;
+}
+
+const clientIp = (req: Request) => req.ip || "unknown";
+
+// Seconds until the latest failure leaves the window, or 0 if the failures are under the limit
+function retryAfterFor(stats: { count: number; lastAt: Date | null } | null, max: number) {
+  if (!stats || stats.count < max || !stats.lastAt) {
+    return 0;
+  }
+
+  return Math.max(0, Math.ceil((stats.lastAt.getTime() + FAILED_LOGIN_WINDOW_MS - Date.now()) / 1000));
+}
+
+function retryAfterForCounts(counts: FailedLoginCounts) {
+  return Math.max(
+    retryAfterFor(counts.ip, MAX_FAILED_LOGINS_PER_IP),
+    retryAfterFor(counts.account, MAX_FAILED_LOGINS_PER_ACCOUNT),
+    retryAfterFor(counts.accountIp, MAX_FAILED_LOGINS_PER_ACCOUNT_IP)
+  );
+}
+
+// Seconds the client has to wait before signing in again, or 0 if it may try now. For sign-in methods
+// without a password to guess (OIDC, magic links), which still honour a lockout.
+export async function getLoginRetryAfter(req: Request, user?: User) {
+  const since = new Date(Date.now() - FAILED_LOGIN_WINDOW_MS);
+  const ipAddress = clientIp(req);
+
+  return retryAfterForCounts({
+    ip: await storage.getFailedLoginStats({ ipAddress }, since),
+    account: user ? await storage.getFailedLoginStats({ userId: user.id }, since) : null,
+    accountIp: user ? await storage.getFailedLoginStats({ userId: user.id, ipAddress }, since) : null
+  });
+}
+
+// Start a password or code check: refused while locked out, otherwise recorded as a failure up front so
+// parallel requests can't all get past the limit. Pass it to recordFailedLogin or clearLoginAttempt.
+export async function startLoginAttempt(req: Request, user?: User): Promise<LoginAttempt> {
+  const since = new Date(Date.now() - FAILED_LOGIN_WINDOW_MS);
+  let retryAfter = 0;
+
+  const { stats, failedLogin } = await storage.reserveFailedLogin({ userId: user?.id, ipAddress: clientIp(req) }, since, counts => {
+    retryAfter = retryAfterForCounts(counts);
+    return retryAfter === 0;
+  });
+
+  return { retryAfter, failedLogin, counts: stats };
+}
+
+// The check succeeded, so it no longer counts as a failure
+export async function clearLoginAttempt(attempt: LoginAttempt) {
+  if (attempt.failedLogin) {
+    await storage.deleteFailedLoginById(attempt.failedLogin.id);
+  }
+}
+
+// Check a login password; unknown accounts go through bcrypt too so they can't be told apart by timing
+export async function checkLoginPassword(user: User | undefined, password: string) {
+  const isPasswordValid = await bcrypt.compare(password, user?.password ?? DUMMY_PASSWORD_HASH);
+  return !!user && isPasswordValid;
+}
+
+// Log a failed attempt (already counted by startLoginAttempt); tells the account holder when it locks the account
+export async function recordFailedLogin(req: Request, attempt: LoginAttempt, user?: User) {
+  const ipAddress = clientIp(req);
+
+  await storage.deleteFailedLoginsBefore(new Date(Date.now() - FAILED_LOGIN_WINDOW_MS));
+
+  if (!user) {
+    await logActivity({
+      action: "login_failed",
+      details: `Failed login attempt for an unknown account from ${ipAddress}`
+    });
+    return;
+  }
+
+  // Counts from before this attempt, which was only allowed because the account wasn't locked yet
+  const accountFailures = (attempt.counts.account?.count || 0) + 1;
+  const accountIpFailures = (attempt.counts.accountIp?.count || 0) + 1;
+
+  await logActivity({
+    userId: user.id,
+    action: "login_failed",
+    details: `Failed login attempt ${accountIpFailures} for ${user.email} from ${ipAddress}`
+  });
+
+  const lockedAllIps = accountFailures >= MAX_FAILED_LOGINS_PER_ACCOUNT;
+
+  if (lockedAllIps || accountIpFailures >= MAX_FAILED_LOGINS_PER_ACCOUNT_IP) {
+    const lockedUntil = new Date(Date.now() + FAILED_LOGIN_WINDOW_MS);
+
+    await logActivity({
+      userId: user.id,
+      action: "account_locked",
+      details: lockedAllIps
+        ? `Sign-in locked until ${lockedUntil.toISOString()} after ${accountFailures} failed login attempts: ${user.email}`
+        : `Sign-in locked from ${ipAddress} until ${lockedUntil.toISOString()} after ${accountIpFailures} failed login attempts: ${user.email}`
+    });
+
+    try {
+      await sendAccountLockedEmail(user.email, user.name, lockedUntil);
+    } catch (emailError) {
+      console.error("Failed to send account locked email:", emailError);
+    }
+  }
+}
+
+// Clear the account's failures from this IP after a successful login
+export async function recordSuccessfulLogin(req: Request, user: User) {
+  await storage.deleteFailedLogins({ userId: user.id, ipAddress: clientIp(req) });
+}
@@ -1,37 +1,22 @@
 import { Router } from "express";
-import multer from "multer";
 import { storage } from "../storage";
-import { authenticateJWT } from "../middleware/auth.middleware";
+import { authenticateJWT, requireVerifiedEmail } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { insertMediaSchema } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { logActivity } from "../utils/activity";
 import { uploadToCloudinary, deleteFromCloudinary } from "../utils/cloudinary";
-
-// Set up multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB max file size
-  },
-  fileFilter: (req, file, cb) => {
-    // Accept images and videos
-    if (file.mimetype.startsWith("image/") || file.mimetype.startsWith("video/")) {
-      cb(null, true);
-    } else {
-      cb(new Error("Only images and videos are allowed"));
-    }
-  },
-});
+import { upload } from "../utils/upload";
 
 export function register(isAdmin = false) {
   const router = Router();
 
   if (isAdmin) {
-    // Admin routes - these are already protected by the isOwner middleware in routes.ts
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
 
     // Get all media with pagination, search, and filtering
-    router.get("/", async (req, res) => {
+    router.get("/", requirePermission("media:read"), async (req, res) => {
       try {
         const page = parseInt(req.query.page as string) || 1;
         const perPage = parseInt(req.query.perPage as string) || 12;
@@ -48,7 +33,7 @@ export function register(isAdmin = false) {
     });
 
     // Upload new media
-    router.post("/", upload.single("mediaFile"), async (req, res) => {
+    router.post("/", requirePermission("media:write"), requireVerifiedEmail, upload.single("mediaFile"), async (req, res) => {
       try {
         if (!req.user) {
           return res.status(401).json({ message: "Not authenticated" });
@@ -112,7 +97,7 @@ export function register(isAdmin = false) {
     });
 
     // Get a specific media by ID
-    router.get("/:id", async (req, res) => {
+    router.get("/:id", requirePermission("media:read"), async (req, res) => {
       try {
         const mediaId = parseInt(req.params.id);
         
@@ -145,7 +130,7 @@ export function register(isAdmin = false) {
     });
 
     // Update media
-    router.patch("/:id", async (req, res) => {
+    router.patch("/:id", requirePermission("media:write"), async (req, res) => {
       try {
         if (!req.user) {
           return res.status(401).json({ message: "Not authenticated" });
@@ -190,7 +175,7 @@ export function register(isAdmin = false) {
     });
 
     // Delete media
-    router.delete("/:id", async (req, res) => {
+    router.delete("/:id", requirePermission("media:delete"), async (req, res) => {
       try {
         if (!req.user) {
           return res.status(401).json({ message: "Not authenticated" });
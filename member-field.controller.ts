@@ -0,0 +1,193 @@
+import { Router } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertMemberFieldDefinitionSchema, InsertMemberFieldDefinition } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import { getMemberFieldDefinitionsFor, getMemberFieldValues } from "../utils/member-fields";
+
+const updateMemberFieldSchema = insertMemberFieldDefinitionSchema
+  .pick({ label: true, required: true, visibility: true, options: true, sortOrder: true })
+  .partial();
+
+// Select and multiselect fields need choices, other types don't take any
+function checkOptions(type: string, options: string[] | null | undefined) {
+  const needsOptions = type === "select" || type === "multiselect";
+
+  if (needsOptions && (!options || options.length === 0)) {
+    return "Select fields need at least one option";
+  }
+
+  if (needsOptions && new Set(options).size !== options!.length) {
+    return "Options must be unique";
+  }
+
+  if (!needsOptions && options && options.length > 0) {
+    return `${type} fields don't take options`;
+  }
+
+  return null;
+}
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get all member field definitions
+    router.get("/", requirePermission("users:read"), async (req, res) => {
+      try {
+        const fields = await storage.getMemberFieldDefinitions();
+
+        res.status(200).json(fields);
+      } catch (error) {
+        console.error("Get member fields error:", error);
+        res.status(500).json({ message: "An error occurred while fetching member fields" });
+      }
+    });
+
+    // Create a member field
+    router.post("/", requirePermission("users:write"), async (req, res) => {
+      try {
+        const fieldData = insertMemberFieldDefinitionSchema
+          .pick({ key: true, label: true, type: true, required: true, visibility: true, options: true, sortOrder: true })
+          .parse(req.body);
+
+        const optionsError = checkOptions(fieldData.type, fieldData.options);
+
+        if (optionsError) {
+          return res.status(400).json({ message: optionsError });
+        }
+
+        if (await storage.getMemberFieldDefinitionByKey(fieldData.key)) {
+          return res.status(409).json({ message: "A member field with this key already exists" });
+        }
+
+        const [newField] = await storage.createMemberFieldDefinition(fieldData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "member_field_create",
+          details: `Created member field ${newField.key} (${newField.type})`
+        });
+
+        res.status(201).json(newField);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create member field error:", error);
+        res.status(500).json({ message: "An error occurred while creating the member field" });
+      }
+    });
+
+    // Update a member field (the key and type can't change, existing values depend on them)
+    router.patch("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const fieldId = parseInt(req.params.id);
+
+        if (isNaN(fieldId)) {
+          return res.status(400).json({ message: "Invalid field ID" });
+        }
+
+        const field = await storage.getMemberFieldDefinitionById(fieldId);
+
+        if (!field) {
+          return res.status(404).json({ message: "Member field not found" });
+        }
+
+        if ((req.body.key !== undefined && req.body.key !== field.key) || (req.body.type !== undefined && req.body.type !== field.type)) {
+          return res.status(400).json({ message: "A member field's key and type cannot be changed" });
+        }
+
+        const fieldData: Partial<InsertMemberFieldDefinition> = updateMemberFieldSchema.parse(req.body);
+
+        if (fieldData.options !== undefined) {
+          const optionsError = checkOptions(field.type, fieldData.options);
+
+          if (optionsError) {
+            return res.status(400).json({ message: optionsError });
+          }
+        }
+
+        if (Object.keys(fieldData).length === 0) {
+          return res.status(200).json(field);
+        }
+
+        const [updatedField] = await storage.updateMemberFieldDefinition(fieldId, fieldData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "member_field_update",
+          details: `Updated member field ${field.key}`
+        });
+
+        res.status(200).json(updatedField);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update member field error:", error);
+        res.status(500).json({ message: "An error occurred while updating the member field" });
+      }
+    });
+
+    // Delete a member field and every member's value for it
+    router.delete("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const fieldId = parseInt(req.params.id);
+
+        if (isNaN(fieldId)) {
+          return res.status(400).json({ message: "Invalid field ID" });
+        }
+
+        const valueCount = await storage.countMemberFieldValues(fieldId);
+        const [deletedField] = await storage.deleteMemberFieldDefinition(fieldId);
+
+        if (!deletedField) {
+          return res.status(404).json({ message: "Member field not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "member_field_delete",
+          details: `Deleted member field ${deletedField.key} and ${valueCount} stored values`
+        });
+
+        res.status(200).json({ message: "Member field deleted" });
+      } catch (error) {
+        console.error("Delete member field error:", error);
+        res.status(500).json({ message: "An error occurred while deleting the member field" });
+      }
+    });
+  } else {
+    // User routes
+
+    // Get the fields shown on the current user's profile, with their values
+    router.get("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const fields = getMemberFieldDefinitionsFor(await storage.getMemberFieldDefinitions(), "member");
+        const values = await getMemberFieldValues(req.user.id, "member");
+
+        res.status(200).json({ fields, values });
+      } catch (error) {
+        console.error("Get profile fields error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your profile fields" });
+      }
+    });
+  }
+
+  return router;
+}
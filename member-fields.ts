@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { MemberFieldDefinition, MemberFieldFilter } from "@shared/schema";
+
+// Who is looking at or editing the fields: admins see everything, members don't see 'admin' fields
+// and can only change 'editable' ones
+export type MemberFieldAudience = "admin" | "member";
+
+const PHONE_PATTERN = /^\+?[0-9 ()-]{6,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The zod schema for one field's value
+function buildValueSchema(field: MemberFieldDefinition): z.ZodTypeAny {
+  const options = (field.options || []) as [string, ...string[]];
+
+  switch (field.type) {
+    case "textarea":
+      return z.string().trim().max(5000);
+    case "number":
+      return z.number().finite();
+    case "date":
+      return z.string()
+        .regex(DATE_PATTERN, "Must be a date in YYYY-MM-DD format")
+        .refine(value => !isNaN(new Date(value).getTime()), "Must be a valid date");
+    case "boolean":
+      return z.boolean();
+    case "email":
+      return z.string().trim().email("Must be a valid email");
+    case "phone":
+      return z.string().trim().regex(PHONE_PATTERN, "Must be a valid phone number");
+    case "select":
+      return z.enum(options);
+    case "multiselect":
+      return z.array(z.enum(options)).max(options.length);
+    default:
+      return z.string().trim().max(500);
+  }
+}
+
+export function getMemberFieldDefinitionsFor(definitions: MemberFieldDefinition[], audience: MemberFieldAudience) {
+  return audience === "admin" ? definitions : definitions.filter(field => field.visibility !== "admin");
+}
+
+// Build the schema for a custom field update, e.g. { phone: "+977 1-4412345", baptized: true }.
+// Fields are optional since updates are partial, except required ones the user has no stored value for;
+// null or "" clears a value unless the field is required.
+export function buildMemberFieldsSchema(definitions: MemberFieldDefinition[], audience: MemberFieldAudience, storedFieldIds = new Set<number>()) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const field of getMemberFieldDefinitionsFor(definitions, audience)) {
+    if (audience === "member" && field.visibility !== "editable") {
+      continue;
+    }
+
+    const valueSchema = buildValueSchema(field);
+    const fieldSchema = z.preprocess(
+      value => value === "" ? null : value,
+      field.required ? valueSchema : valueSchema.nullable()
+    );
+    shape[field.key] = field.required && !storedFieldIds.has(field.id) ? fieldSchema : fieldSchema.optional();
+  }
+
+  // Unknown keys, and fields this audience can't edit, are rejected rather than ignored
+  return z.object(shape).strict();
+}
+
+// Validate a custom field update; throws a ZodError for invalid values or missing required ones.
+// Pass the definitions when validating many updates at once to avoid reloading them, and the user's
+// stored values when updating an existing user. An update that leaves out customFields changes nothing.
+export async function parseMemberFieldValues(
+  input: unknown,
+  audience: MemberFieldAudience,
+  options: { definitions?: MemberFieldDefinition[]; storedValues?: { fieldId: number }[] } = {}
+) {
+  if (input === undefined && options.storedValues) {
+    return [];
+  }
+
+  const definitions = options.definitions || await storage.getMemberFieldDefinitions();
+  const storedFieldIds = new Set((options.storedValues || []).map(value => value.fieldId));
+  const values = buildMemberFieldsSchema(definitions, audience, storedFieldIds).parse(input ?? {});
+
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      fieldId: definitions.find(field => field.key === key)!.id,
+      value: value as unknown
+    }));
+}
+
+// A user's custom field values keyed by field key, limited to what the audience may see
+export async function getMemberFieldValues(userId: number, audience: MemberFieldAudience) {
+  const definitions = getMemberFieldDefinitionsFor(await storage.getMemberFieldDefinitions(), audience);
+  const values = await storage.getMemberFieldValues(userId);
+  const result: Record<string, unknown> = {};
+
+  for (const field of definitions) {
+    const fieldValue = values.find(value => value.fieldId === field.id);
+    result[field.key] = fieldValue ? fieldValue.value : null;
+  }
+
+  return result;
+}
+
+// Parse ?fields[key]=value query filters for the member list; returns an error message for unknown fields
+export async function parseMemberFieldFilters(query: unknown): Promise<{ filters: MemberFieldFilter[] } | { message: string }> {
+  if (!query || typeof query !== "object") {
+    return { filters: [] };
+  }
+
+  const definitions = await storage.getMemberFieldDefinitions();
+  const filters: MemberFieldFilter[] = [];
+
+  for (const [key, value] of Object.entries(query)) {
+    const field = definitions.find(definition => definition.key === key);
+
+    if (!field) {
+      return { message: `Unknown member field: ${key}` };
+    }
+
+    if (typeof value === "string" && value !== "") {
+      filters.push({ fieldId: field.id, type: field.type, value });
+    }
+  }
+
+  return { filters };
+}
+
+// Convert a spreadsheet cell to the field's value type, e.g. "yes" for a boolean or "choir; ushers" for a
+// multiselect. Text that doesn't convert is returned as is so validation reports it.
+export function parseMemberFieldText(field: MemberFieldDefinition, text: string): unknown {
+  const value = text.trim();
+
+  if (value === "") {
+    return null;
+  }
+
+  switch (field.type) {
+    case "number":
+      return isNaN(Number(value)) ? value : Number(value);
+    case "boolean":
+      if (/^(true|yes|y|1)$/i.test(value)) return true;
+      if (/^(false|no|n|0)$/i.test(value)) return false;
+      return value;
+    case "multiselect":
+      return value.split(/[;|]/).map(option => option.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { Donation } from "@shared/schema";
+import { PaymentProvider, PaymentUpdate, handlePaymentWebhook } from "./payments";
+
+// A stand-in for a card/PayPal processor so the whole payment flow can be run offline. The donor
+// "pays" on a local checkout page, which confirms with { outcome: "success" | "failure" }; the mock
+// then delivers a signed webhook to itself, exactly as a real provider would call the webhook route.
+export const MOCK_PAYMENT_SIGNATURE_HEADER = "x-mock-signature";
+
+// Checked by routes.ts before the provider is registered, so webhooks are never signed with a guessable key
+export const isMockPaymentsConfigured = () => !!process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+
+function sign(rawBody: Buffer) {
+  if (!process.env.MOCK_PAYMENT_WEBHOOK_SECRET) {
+    throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET is not configured");
+  }
+
+  return crypto.createHmac("sha256", process.env.MOCK_PAYMENT_WEBHOOK_SECRET).update(rawBody).digest("hex");
+}
+
+function createEvent(reference: string, type: string, status: PaymentUpdate["status"]) {
+  return {
+    id: `evt_mock_${crypto.randomBytes(8).toString("hex")}`,
+    type,
+    data: { reference, status }
+  };
+}
+
+// Deliver an event through the same verification as an incoming webhook
+async function deliverWebhook(event: ReturnType<typeof createEvent>) {
+  const rawBody = Buffer.from(JSON.stringify(event));
+  await handlePaymentWebhook(mockPaymentProvider, rawBody, { [MOCK_PAYMENT_SIGNATURE_HEADER]: sign(rawBody) });
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  id: "mock",
+  paymentMethods: ["credit_card", "debit_card", "paypal"],
+
+  async createIntent(donation: Donation) {
+    const reference = `mock_${crypto.randomBytes(12).toString("hex")}`;
+
+    return {
+      reference,
+      redirectUrl: `/donate/mock-checkout?donationId=${donation.id}&reference=${reference}`,
+      clientData: { outcomes: ["success", "failure"] }
+    };
+  },
+
+  async confirm(donation: Donation, input: Record<string, unknown>) {
+    if (!donation.transactionId || (input.outcome !== "success" && input.outcome !== "failure")) {
+      return null;
+    }
+
+    const status = input.outcome === "success" ? "completed" : "failed";
+    await deliverWebhook(createEvent(donation.transactionId, `payment.${status}`, status));
+
+    // Already applied by the webhook, so nothing further to apply here
+    return null;
+  },
+
+  async refund(donation: Donation) {
+    const event = createEvent(donation.transactionId || "", "refund.completed", "refunded");
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      reference: event.data.reference,
+      status: event.data.status,
+      payload: event
+    };
+  },
+
+  // Saved payment methods are any "mock_pm_..." token; "mock_pm_declined" always fails
+  async charge(donation: Donation, paymentToken: string) {
+    const status = paymentToken.startsWith("mock_pm_") && paymentToken !== "mock_pm_declined" ? "completed" : "failed";
+    const event = createEvent(`mock_${crypto.randomBytes(12).toString("hex")}`, `payment.${status}`, status);
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      reference: event.data.reference,
+      status: event.data.status,
+      payload: event
+    };
+  },
+
+  async verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    const signature = headers[MOCK_PAYMENT_SIGNATURE_HEADER];
+    const expected = sign(rawBody);
+
+    if (typeof signature !== "string" || signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody.toString("utf8"));
+
+      return [{
+        eventId: String(event.id),
+        type: String(event.type),
+        reference: String(event.data.reference),
+        status: event.data.status,
+        payload: event
+      }];
+    } catch {
+      return null;
+    }
+  }
+};
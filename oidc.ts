@@ -0,0 +1,218 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from "jose";
+import { generatePurposeToken, verifyPurposeToken } from "./jwt";
+
+// One entry per identity provider, configured with the OIDC_PROVIDERS environment variable as JSON, e.g.
+// [{ "id": "google", "name": "Google", "issuer": "https://accounts.google.com", "clientId": "...", "clientSecret": "..." }]
+// A local mock OIDC server works the same way, just point "issuer" at it.
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string[];
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+export interface OidcFlowState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+  linkUserId?: number;
+}
+
+export interface OidcProfile {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const OIDC_FLOW_PURPOSE = "oidc_flow";
+const OIDC_FLOW_EXPIRES_IN = "10m";
+const OIDC_FLOW_COOKIE_NAME = "oidc_flow";
+const OIDC_COOKIE_PATH = "/api/auth/oidc";
+
+const discoveryCache = new Map<string, { discovery: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+export function getOidcProviders(): OidcProviderConfig[] {
+  try {
+    const providers = JSON.parse(process.env.OIDC_PROVIDERS || "[]");
+    return Array.isArray(providers) ? providers : [];
+  } catch (error) {
+    console.error("Invalid OIDC_PROVIDERS configuration:", error);
+    return [];
+  }
+}
+
+export function getOidcProvider(id: string) {
+  return getOidcProviders().find(provider => provider.id === id);
+}
+
+export function getOidcRedirectUri(providerId: string) {
+  return `${process.env.WEBSITE_URL || 'http://localhost:3000'}${OIDC_COOKIE_PATH}/${providerId}/callback`;
+}
+
+// Fetch (and cache) the provider's /.well-known/openid-configuration
+async function discover(provider: OidcProviderConfig): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.discovery;
+  }
+
+  const response = await fetch(`${provider.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${provider.id}: ${response.status}`);
+  }
+
+  const discovery = await response.json() as OidcDiscovery;
+  if (discovery.issuer !== provider.issuer) {
+    throw new Error(`OIDC discovery for ${provider.id} returned issuer ${discovery.issuer}`);
+  }
+
+  discoveryCache.set(provider.issuer, { discovery, fetchedAt: Date.now() });
+  return discovery;
+}
+
+function base64Url(buffer: Buffer) {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Build the authorization URL and remember state, nonce and the PKCE verifier in a signed cookie
+export async function startOidcFlow(res: Response, provider: OidcProviderConfig, returnTo: string, linkUserId?: number) {
+  const discovery = await discover(provider);
+
+  const flow: OidcFlowState = {
+    provider: provider.id,
+    state: base64Url(crypto.randomBytes(16)),
+    nonce: base64Url(crypto.randomBytes(16)),
+    codeVerifier: base64Url(crypto.randomBytes(32)),
+    returnTo,
+    linkUserId
+  };
+  const codeChallenge = base64Url(crypto.createHash("sha256").update(flow.codeVerifier).digest());
+
+  // "lax" rather than "strict" so the cookie comes back on the provider's top-level redirect
+  res.cookie(OIDC_FLOW_COOKIE_NAME, generatePurposeToken(flow, OIDC_FLOW_PURPOSE, OIDC_FLOW_EXPIRES_IN), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: OIDC_COOKIE_PATH,
+    maxAge: 10 * 60 * 1000
+  });
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", getOidcRedirectUri(provider.id));
+  url.searchParams.set("scope", (provider.scopes || ["openid", "email", "profile"]).join(" "));
+  url.searchParams.set("state", flow.state);
+  url.searchParams.set("nonce", flow.nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return url.toString();
+}
+
+// Read and clear the flow cookie; returns null unless it matches the provider and the returned state
+export function takeOidcFlow(req: Request, res: Response, providerId: string, state: unknown): OidcFlowState | null {
+  const token = req.cookies?.[OIDC_FLOW_COOKIE_NAME];
+  res.clearCookie(OIDC_FLOW_COOKIE_NAME, { path: OIDC_COOKIE_PATH });
+
+  const flow = token ? verifyPurposeToken(token, OIDC_FLOW_PURPOSE) as (OidcFlowState | null) : null;
+
+  if (!flow || flow.provider !== providerId || typeof state !== "string" || state !== flow.state) {
+    return null;
+  }
+
+  return flow;
+}
+
+// Exchange the authorization code, verify the ID token and return who signed in
+export async function completeOidcFlow(provider: OidcProviderConfig, flow: OidcFlowState, code: string): Promise<OidcProfile> {
+  const discovery = await discover(provider);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: getOidcRedirectUri(provider.id),
+    client_id: provider.clientId,
+    code_verifier: flow.codeVerifier
+  });
+  if (provider.clientSecret) {
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed for ${provider.id}: ${tokenResponse.status}`);
+  }
+
+  const tokens = await tokenResponse.json() as { id_token?: string; access_token?: string };
+  if (!tokens.id_token) {
+    throw new Error(`OIDC provider ${provider.id} did not return an ID token`);
+  }
+
+  let jwks = jwksCache.get(discovery.jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(discovery.jwks_uri));
+    jwksCache.set(discovery.jwks_uri, jwks);
+  }
+
+  const { payload } = await jwtVerify(tokens.id_token, jwks, {
+    issuer: discovery.issuer,
+    audience: provider.clientId
+  });
+
+  if (payload.nonce !== flow.nonce) {
+    throw new Error(`OIDC nonce mismatch for ${provider.id}`);
+  }
+
+  if (!payload.sub) {
+    throw new Error(`OIDC ID token from ${provider.id} has no subject`);
+  }
+
+  let claims: JWTPayload = payload;
+
+  // Some providers only put the email in the userinfo response
+  if (!claims.email && discovery.userinfo_endpoint && tokens.access_token) {
+    const userInfoResponse = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (userInfoResponse.ok) {
+      const userInfo = await userInfoResponse.json() as JWTPayload;
+      if (userInfo.sub === payload.sub) {
+        claims = { ...payload, ...userInfo };
+      }
+    }
+  }
+
+  return {
+    subject: payload.sub,
+    email: typeof claims.email === "string" ? claims.email : undefined,
+    emailVerified: claims.email_verified === true || claims.email_verified === "true",
+    name: typeof claims.name === "string" ? claims.name : undefined
+  };
+}
+
+// Only allow redirects back into this site
+export function safeReturnTo(value: unknown) {
+  return typeof value === "string" && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from "express";
+import { OWNER_ROLE } from "@shared/schema";
+import { isTwoFactorRequiredForRole } from "../utils/two-factor";
 
 // Middleware to check if the authenticated user has the owner role
-export const isOwner = (req: Request, res: Response, next: NextFunction) => {
+export const isOwner = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
     console.log("isOwner middleware: No user found in request");
     return res.status(401).json({ message: "Unauthorized - Authentication required" });
@@ -9,11 +11,16 @@ export const isOwner = (req: Request, res: Response, next: NextFunction) => {
   
   console.log(`isOwner middleware: User ${req.user.email} has role ${req.user.role}`);
   
-  if (req.user.role !== "owner") {
+  if (req.user.role !== OWNER_ROLE) {
     console.log(`isOwner middleware: User ${req.user.email} does not have owner role`);
     return res.status(403).json({ message: "Forbidden - Owner access required" });
   }
   
+  if (!req.user.twoFactorEnabled && await isTwoFactorRequiredForRole(req.user.role)) {
+    console.log(`isOwner middleware: User ${req.user.email} must enable two-factor authentication`);
+    return res.status(403).json({ message: "Forbidden - Two-factor authentication is required for your role", twoFactorSetupRequired: true });
+  }
+  
   console.log(`isOwner middleware: User ${req.user.email} authorized as owner`);
   next();
 };
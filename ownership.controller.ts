@@ -0,0 +1,215 @@
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { OWNER_ROLE } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import { createSecureToken, hashToken } from "../utils/tokens";
+import { sendOwnershipTransferEmail } from "../utils/email";
+
+const OWNERSHIP_TRANSFER_TTL_MS = 72 * 60 * 60 * 1000; // 72 hours
+const DEFAULT_PREVIOUS_OWNER_ROLE = "admin";
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Owner routes - routes.ts requires the owner role
+
+    // Get pending ownership transfers
+    router.get("/transfers", async (req, res) => {
+      try {
+        const transfers = await storage.getPendingOwnershipTransfers();
+
+        res.status(200).json(transfers);
+      } catch (error) {
+        console.error("Get ownership transfers error:", error);
+        res.status(500).json({ message: "An error occurred while fetching ownership transfers" });
+      }
+    });
+
+    // Start an ownership transfer - needs the owner's password, the recipient accepts via an emailed link
+    router.post("/transfers", async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { userId, password, previousOwnerRole = DEFAULT_PREVIOUS_OWNER_ROLE } = req.body;
+
+        if (!userId || !password) {
+          return res.status(400).json({ message: "Recipient and your current password are required" });
+        }
+
+        const owner = await storage.getUserById(req.user.id);
+
+        if (!owner || !(await bcrypt.compare(password, owner.password))) {
+          return res.status(401).json({ message: "Password is incorrect" });
+        }
+
+        const recipient = await storage.getUserById(parseInt(userId));
+
+        if (!recipient) {
+          return res.status(404).json({ message: "Recipient not found" });
+        }
+
+        if (recipient.id === owner.id || recipient.role === OWNER_ROLE) {
+          return res.status(400).json({ message: "Recipient is already an owner" });
+        }
+
+        if (recipient.status !== "active" || !recipient.emailVerifiedAt) {
+          return res.status(400).json({ message: "Recipient must be an active user with a verified email address" });
+        }
+
+        if (previousOwnerRole === OWNER_ROLE || !(await storage.getRoleByName(previousOwnerRole))) {
+          return res.status(400).json({ message: `Role "${previousOwnerRole}" can't be used as your new role` });
+        }
+
+        // Only one transfer per owner can be pending at a time
+        await storage.cancelOwnershipTransfers(owner.id);
+
+        const { token, tokenHash } = createSecureToken();
+        const [transfer] = await storage.createOwnershipTransfer({
+          fromUserId: owner.id,
+          toUserId: recipient.id,
+          previousOwnerRole,
+          tokenHash,
+          expiresAt: new Date(Date.now() + OWNERSHIP_TRANSFER_TTL_MS)
+        });
+
+        try {
+          await sendOwnershipTransferEmail(recipient.email, recipient.name, owner.name, token);
+        } catch (emailError) {
+          console.error("Failed to send ownership transfer email:", emailError);
+          // Continue, the owner can cancel and start the transfer again
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: owner.id,
+          action: "ownership_transfer",
+          details: `Owner ${owner.email} started an ownership transfer to ${recipient.email}`
+        });
+
+        const { tokenHash: _tokenHash, ...transferWithoutToken } = transfer;
+        res.status(201).json(transferWithoutToken);
+      } catch (error) {
+        console.error("Start ownership transfer error:", error);
+        res.status(500).json({ message: "An error occurred while starting the ownership transfer" });
+      }
+    });
+
+    // Cancel a pending ownership transfer
+    router.delete("/transfers/:id", async (req, res) => {
+      try {
+        const transferId = parseInt(req.params.id);
+
+        if (isNaN(transferId)) {
+          return res.status(400).json({ message: "Invalid transfer ID" });
+        }
+
+        const [cancelled] = await storage.cancelOwnershipTransfers(undefined, transferId);
+
+        if (!cancelled) {
+          return res.status(404).json({ message: "Pending transfer not found" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "ownership_transfer",
+          details: `Ownership transfer #${cancelled.id} was cancelled by ${req.user?.email}`
+        });
+
+        res.status(200).json({ message: "Ownership transfer cancelled" });
+      } catch (error) {
+        console.error("Cancel ownership transfer error:", error);
+        res.status(500).json({ message: "An error occurred while cancelling the ownership transfer" });
+      }
+    });
+  } else {
+    // User routes
+
+    // Accept an ownership transfer - the recipient has to be signed in to their own account
+    router.post("/accept", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { token } = req.body;
+
+        if (!token || typeof token !== "string") {
+          return res.status(400).json({ message: "Transfer token is required" });
+        }
+
+        const pendingTransfer = await storage.getOwnershipTransferByTokenHash(hashToken(token));
+
+        if (!pendingTransfer || pendingTransfer.toUserId !== req.user.id) {
+          return res.status(404).json({ message: "Ownership transfer not found" });
+        }
+
+        const transfer = await storage.acceptOwnershipTransfer(pendingTransfer.tokenHash, req.user.id);
+
+        if (!transfer) {
+          return res.status(400).json({ message: "This ownership transfer is no longer valid" });
+        }
+
+        const previousOwner = await storage.getUserById(transfer.fromUserId);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "ownership_transfer",
+          details: `${req.user.email} accepted ownership from ${previousOwner?.email}, who is now ${transfer.previousOwnerRole}`
+        });
+
+        res.status(200).json({ message: "You are now the owner" });
+      } catch (error) {
+        console.error("Accept ownership transfer error:", error);
+        res.status(500).json({ message: "An error occurred while accepting the ownership transfer" });
+      }
+    });
+
+    // Decline an ownership transfer
+    router.post("/decline", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { token } = req.body;
+
+        if (!token || typeof token !== "string") {
+          return res.status(400).json({ message: "Transfer token is required" });
+        }
+
+        const transfer = await storage.getOwnershipTransferByTokenHash(hashToken(token));
+
+        if (!transfer || transfer.toUserId !== req.user.id) {
+          return res.status(404).json({ message: "Ownership transfer not found" });
+        }
+
+        const [cancelled] = await storage.cancelOwnershipTransfers(undefined, transfer.id);
+
+        if (!cancelled) {
+          return res.status(400).json({ message: "This ownership transfer is no longer pending" });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "ownership_transfer",
+          details: `${req.user.email} declined ownership transfer #${transfer.id}`
+        });
+
+        res.status(200).json({ message: "Ownership transfer declined" });
+      } catch (error) {
+        console.error("Decline ownership transfer error:", error);
+        res.status(500).json({ message: "An error occurred while declining the ownership transfer" });
+      }
+    });
+  }
+
+  return router;
+}
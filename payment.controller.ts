@@ -0,0 +1,208 @@
+import { Router, Response } from "express";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { Donation } from "@shared/schema";
+import { getPaymentProvider, applyPaymentUpdate, handlePaymentWebhook, PaymentProviderError } from "../utils/payments";
+import { decodeEsewaResponse } from "../utils/esewa";
+import { bankQrPaymentProvider, buildBankQrPayload, renderBankQr } from "../utils/bank-qr";
+
+// Where the donor lands after paying on eSewa's site
+function redirectToResult(res: Response, donation?: Donation, status?: string) {
+  const params = new URLSearchParams();
+
+  if (donation) {
+    params.set("donationId", String(donation.id));
+  }
+  params.set("status", status || donation?.status || "failed");
+
+  res.redirect(`/donate/result?${params}`);
+}
+
+// Check an eSewa payment with eSewa's status API after the donor is sent back, and apply the result
+async function completeEsewaReturn(res: Response, reference: string | undefined, input: Record<string, unknown>) {
+  const provider = getPaymentProvider("esewa");
+  const donation = provider && reference ? await storage.getDonationByProviderReference(provider.id, reference) : undefined;
+
+  if (!provider || !donation) {
+    return redirectToResult(res);
+  }
+
+  try {
+    const update = await provider.confirm(donation, input);
+
+    if (update) {
+      const { donation: updatedDonation } = await applyPaymentUpdate(provider, update);
+      return redirectToResult(res, donation, updatedDonation?.status);
+    }
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) {
+      throw error;
+    }
+
+    console.log(`eSewa return: ${error.message} for donation ID ${donation.id}`);
+  }
+
+  redirectToResult(res, donation);
+}
+
+export function register() {
+  const router = Router();
+
+  // Provider webhooks - no session or CSRF token, the provider's signature is checked instead.
+  // Always answers 200 once verified, so providers don't keep retrying events that were already handled.
+  router.post("/webhook/:provider", async (req, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+
+      if (!req.rawBody) {
+        return res.status(400).json({ message: "Missing request body" });
+      }
+
+      const results = await handlePaymentWebhook(provider, req.rawBody, req.headers);
+
+      if (!results) {
+        console.log(`Payment webhook: Rejected ${provider.id} webhook with an invalid signature`);
+        return res.status(400).json({ message: "Invalid webhook signature" });
+      }
+
+      res.status(200).json({ received: true, results });
+    } catch (error) {
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "An error occurred while processing the webhook" });
+    }
+  });
+
+  // eSewa sends the donor's browser back here - no session is needed, the response is signed and
+  // checked against eSewa's status API before anything changes
+  router.get("/esewa/success", async (req, res) => {
+    try {
+      const response = decodeEsewaResponse(req.query.data);
+
+      if (!response) {
+        console.log("eSewa return: Rejected a success redirect with an invalid signature");
+        return redirectToResult(res);
+      }
+
+      await completeEsewaReturn(res, response.transaction_uuid, { data: req.query.data });
+    } catch (error) {
+      console.error("eSewa success return error:", error);
+      redirectToResult(res, undefined, "error");
+    }
+  });
+
+  router.get("/esewa/failure/:reference", async (req, res) => {
+    try {
+      await completeEsewaReturn(res, req.params.reference, {});
+    } catch (error) {
+      console.error("eSewa failure return error:", error);
+      redirectToResult(res, undefined, "error");
+    }
+  });
+
+  // Confirm a payment when the donor comes back from the provider
+  router.post("/:donationId/confirm", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const donationId = parseInt(req.params.donationId);
+
+      if (isNaN(donationId)) {
+        return res.status(400).json({ message: "Invalid donation ID" });
+      }
+
+      const donation = await storage.getDonationById(donationId);
+
+      if (!donation || donation.userId !== req.user.id) {
+        return res.status(404).json({ message: "Donation not found" });
+      }
+
+      const provider = getPaymentProvider(donation.paymentProvider);
+
+      if (!provider) {
+        return res.status(400).json({ message: "This donation isn't paid through a payment provider" });
+      }
+
+      const update = await provider.confirm(donation, req.body || {});
+
+      if (update) {
+        await applyPaymentUpdate(provider, update);
+      }
+
+      const { user, ...confirmedDonation } = (await storage.getDonationById(donationId))!;
+      res.status(200).json(confirmedDonation);
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      console.error("Confirm payment error:", error);
+      res.status(500).json({ message: "An error occurred while confirming your payment" });
+    }
+  });
+
+  // Bank transfer QR code for a donation, rendered on request - for the donor and donation admins
+  router.get("/:donationId/qr.:format(svg|png)", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const donationId = parseInt(req.params.donationId);
+
+      if (isNaN(donationId)) {
+        return res.status(400).json({ message: "Invalid donation ID" });
+      }
+
+      const donation = await storage.getDonationById(donationId);
+
+      if (!donation || (donation.userId !== req.user.id && !req.user.permissions.includes("donations:read")) ||
+          donation.paymentProvider !== bankQrPaymentProvider.id || !donation.transactionId) {
+        return res.status(404).json({ message: "Donation not found" });
+      }
+
+      const format = req.params.format as "svg" | "png";
+      const image = await renderBankQr(buildBankQrPayload(donation), format);
+
+      res.set("Cache-Control", "private, max-age=3600");
+      res.type(format === "svg" ? "image/svg+xml" : "image/png").send(image);
+    } catch (error) {
+      console.error("Get payment QR code error:", error);
+      res.status(500).json({ message: "An error occurred while generating the QR code" });
+    }
+  });
+
+  // Get a donation's payment status, e.g. to poll while waiting for the provider
+  router.get("/:donationId", authenticateJWT, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const donationId = parseInt(req.params.donationId);
+
+      if (isNaN(donationId)) {
+        return res.status(400).json({ message: "Invalid donation ID" });
+      }
+
+      const donation = await storage.getDonationById(donationId);
+
+      if (!donation || donation.userId !== req.user.id) {
+        return res.status(404).json({ message: "Donation not found" });
+      }
+
+      const { user, ...donationWithoutUser } = donation;
+      res.status(200).json(donationWithoutUser);
+    } catch (error) {
+      console.error("Get payment status error:", error);
+      res.status(500).json({ message: "An error occurred while fetching the payment status" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,150 @@
+import { IncomingHttpHeaders } from "http";
+import { storage } from "../storage";
+import { Donation, User } from "@shared/schema";
+import { logActivity } from "./activity";
+import { sendDonationReceiptEmail } from "./email";
+
+// The raw request body, kept by index.ts so webhook signatures can be checked against the exact bytes sent
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export type PaymentStatus = "pending" | "completed" | "failed" | "refunded";
+
+// A payment started with a provider
+export interface PaymentIntent {
+  reference: string; // The provider's ID for the payment, stored as the donation's transactionId
+  redirectUrl?: string; // Where to send the donor to pay, if the provider has a hosted page
+  clientData?: Record<string, unknown>; // Anything else the frontend needs, e.g. form fields or a QR payload
+}
+
+// A change in a payment's state reported by a provider, from a webhook or a confirmation
+export interface PaymentUpdate {
+  eventId: string; // Unique per provider; the same event is only ever applied once
+  type: string;
+  reference: string;
+  status: PaymentStatus;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  id: string;
+  // Donation payment methods this provider handles, e.g. ['credit_card', 'paypal']
+  paymentMethods: string[];
+  createIntent(donation: Donation, donor: { name: string; email: string }): Promise<PaymentIntent>;
+  // Check a payment after the donor returns from the provider; input is whatever the provider sent back
+  confirm(donation: Donation, input: Record<string, unknown>): Promise<PaymentUpdate | null>;
+  refund(donation: Donation): Promise<PaymentUpdate>;
+  // Charge a saved payment method with the donor not present, for recurring gifts. Providers where the
+  // donor approves every payment themselves (eSewa, bank transfers) leave this out.
+  charge?(donation: Donation, paymentToken: string): Promise<PaymentUpdate>;
+  // Check the signature and parse the webhook; returns null if the signature is invalid
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentUpdate[] | null>;
+}
+
+// Status changes a payment event may make, by the status it moves the donation to
+const ALLOWED_TRANSITIONS: Record<PaymentStatus, string[]> = {
+  pending: [],
+  completed: ["pending", "failed"], // A failed attempt can still be paid on retry
+  failed: ["pending"],
+  refunded: ["completed"]
+};
+
+// A payment the provider rejected or can't handle; the message is safe to show to the user
+export class PaymentProviderError extends Error {}
+
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getPaymentProvider(id: string | null | undefined) {
+  return id ? providers.get(id) : undefined;
+}
+
+// The provider for a payment method; the most recently registered one wins
+export function getPaymentProviderForMethod(paymentMethod: string) {
+  return Array.from(providers.values()).reverse().find(provider => provider.paymentMethods.includes(paymentMethod));
+}
+
+// Record a payment update and apply it to its donation. Repeated events are recognised by their ID and
+// ignored, as are updates that aren't a valid transition from the donation's current status.
+export async function applyPaymentUpdate(provider: PaymentProvider, update: PaymentUpdate) {
+  const donation = await storage.getDonationByProviderReference(provider.id, update.reference);
+
+  const [event] = await storage.createPaymentEvent({
+    provider: provider.id,
+    eventId: update.eventId,
+    donationId: donation?.id,
+    type: update.type,
+    status: update.status,
+    result: donation ? "received" : "unmatched",
+    payload: update.payload ?? {}
+  });
+
+  if (!event) {
+    return { result: "duplicate" as const, donation };
+  }
+
+  if (!donation) {
+    return { result: "unmatched" as const, donation };
+  }
+
+  const now = new Date();
+  const fromStatuses = ALLOWED_TRANSITIONS[update.status] || [];
+  const [updatedDonation] = fromStatuses.length > 0
+    ? await storage.transitionDonationStatus(donation.id, fromStatuses, {
+      status: update.status,
+      ...(update.status === "completed" ? { completedAt: now } : {}),
+      ...(update.status === "refunded" ? { refundedAt: now } : {})
+    })
+    : [];
+
+  await storage.updatePaymentEvent(event.id, { result: updatedDonation ? "applied" : "ignored" });
+
+  if (!updatedDonation) {
+    return { result: "ignored" as const, donation };
+  }
+
+  await logActivity({
+    userId: donation.userId,
+    action: "donation",
+    details: `Donation ID ${donation.id} is now ${update.status} (${provider.id} ${update.type})`
+  });
+
+  if (update.status === "completed") {
+    await sendReceipt(updatedDonation, donation.user);
+  }
+
+  return { result: "applied" as const, donation: updatedDonation };
+}
+
+// Verify and apply a webhook delivery; returns null if the signature is invalid
+export async function handlePaymentWebhook(provider: PaymentProvider, rawBody: Buffer, headers: IncomingHttpHeaders) {
+  const updates = await provider.verifyWebhook(rawBody, headers);
+
+  if (!updates) {
+    return null;
+  }
+
+  const results = [];
+  for (const update of updates) {
+    results.push((await applyPaymentUpdate(provider, update)).result);
+  }
+
+  return results;
+}
+
+async function sendReceipt(donation: Donation, donor: User) {
+  try {
+    await sendDonationReceiptEmail(donor.email, donor.name, parseFloat(donation.amount), donation.completedAt || new Date());
+  } catch (emailError) {
+    console.error("Failed to send donation receipt email:", emailError);
+    // Continue, the donation is recorded either way
+  }
+}
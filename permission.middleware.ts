@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from "express";
+import { Permission } from "@shared/schema";
+import { isTwoFactorRequiredForRole } from "../utils/two-factor";
+
+// Middleware factory to require one or more permissions from the user's role
+export const requirePermission = (...required: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      console.log("requirePermission middleware: No user found in request");
+      return res.status(401).json({ message: "Unauthorized - Authentication required" });
+    }
+    
+    const missing = required.filter(permission => !req.user?.permissions.includes(permission));
+    
+    if (missing.length > 0) {
+      console.log(`requirePermission middleware: User ${req.user.email} is missing ${missing.join(", ")}`);
+      return res.status(403).json({ message: `Forbidden - Missing permission: ${missing.join(", ")}` });
+    }
+    
+    if (!req.user.twoFactorEnabled && await isTwoFactorRequiredForRole(req.user.role)) {
+      return res.status(403).json({ message: "Forbidden - Two-factor authentication is required for your role", twoFactorSetupRequired: true });
+    }
+    
+    next();
+  };
+};
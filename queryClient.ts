@@ -19,6 +19,80 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+const CSRF_COOKIE_NAME = "csrf_token";
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+let csrfTokenPromise: Promise<string> | null = null;
+
+// Read the CSRF token from its cookie, asking the server for one if we don't have it yet
+async function getCsrfToken(forceNew = false): Promise<string> {
+  const cookieToken = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${CSRF_COOKIE_NAME}=`))
+    ?.slice(CSRF_COOKIE_NAME.length + 1);
+
+  if (cookieToken && !forceNew) {
+    return decodeURIComponent(cookieToken);
+  }
+
+  if (!csrfTokenPromise) {
+    csrfTokenPromise = fetch(`/api/auth/csrf-token${forceNew ? "?rotate=true" : ""}`, { credentials: "include" })
+      .then((res) => res.json())
+      .then((data) => data.csrfToken as string)
+      .finally(() => {
+        csrfTokenPromise = null;
+      });
+  }
+  return csrfTokenPromise;
+}
+
+// Whether the server rejected the request because of a missing or stale CSRF token
+async function isCsrfRejection(res: Response): Promise<boolean> {
+  if (res.status !== 403) {
+    return false;
+  }
+  const data = await res.clone().json().catch(() => null);
+  return data?.code === "csrf_invalid";
+}
+
+// Shared by every request that hits a 401 at the same time, so the session is only refreshed once
+let refreshPromise: Promise<boolean> | null = null;
+
+// Exchange the refresh token cookie for a new access token
+async function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = getCsrfToken()
+      .then((csrfToken) =>
+        fetch("/api/auth/refresh", {
+          method: "POST",
+          headers: { "X-CSRF-Token": csrfToken },
+          credentials: "include",
+        }),
+      )
+      // 409 means another tab or request refreshed in the last few seconds; the browser already has the new cookies
+      .then((res) => res.ok || res.status === 409)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+// Endpoints where a 401 is a real answer rather than an expired access token
+const NO_REFRESH_URLS = ["/api/auth/refresh", "/api/auth/login", "/api/auth/logout"];
+
+// fetch that transparently refreshes an expired access token and retries once
+async function fetchWithRefresh(url: string, init: RequestInit): Promise<Response> {
+  const res = await fetch(url, init);
+  
+  if (res.status === 401 && !NO_REFRESH_URLS.some((path) => url.startsWith(path)) && (await refreshSession())) {
+    return fetch(url, init);
+  }
+  
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -39,12 +113,24 @@ export async function apiRequest(
       }
     }
     
-    const res = await fetch(url, {
+    // Mutations carry the CSRF token; retry once with a fresh one if ours was rejected
+    if (!SAFE_METHODS.includes(method.toUpperCase())) {
+      headers["X-CSRF-Token"] = await getCsrfToken();
+    }
+    
+    const init: RequestInit = {
       method,
       headers,
       body,
       credentials: "include", // Important for cookies
-    });
+    };
+    
+    let res = await fetchWithRefresh(url, init);
+    
+    if (await isCsrfRejection(res)) {
+      headers["X-CSRF-Token"] = await getCsrfToken(true);
+      res = await fetchWithRefresh(url, init);
+    }
 
     if (!res.ok) {
       await throwIfResNotOk(res);
@@ -64,7 +150,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     try {
-      const res = await fetch(queryKey[0] as string, {
+      const res = await fetchWithRefresh(queryKey[0] as string, {
         credentials: "include",
       });
 
@@ -0,0 +1,49 @@
+// Simple in-memory fixed-window counter, keyed by e.g. IP address or email
+export function createRateLimiter(options: { windowMs: number; max: number }) {
+  const { windowMs, max } = options;
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so the map doesn't grow without bound
+  const prune = (now: number) => {
+    hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) {
+        hits.delete(key);
+      }
+    });
+  };
+
+  return {
+    // Seconds until the key may try again, or 0 if it is under the limit
+    retryAfter(key: string) {
+      const entry = hits.get(key);
+      const now = Date.now();
+
+      if (!entry || entry.resetAt <= now || entry.count < max) {
+        return 0;
+      }
+
+      return Math.ceil((entry.resetAt - now) / 1000);
+    },
+
+    // Count one hit against the key
+    hit(key: string) {
+      const now = Date.now();
+
+      if (hits.size > 10000) {
+        prune(now);
+      }
+
+      const entry = hits.get(key);
+
+      if (!entry || entry.resetAt <= now) {
+        hits.set(key, { count: 1, resetAt: now + windowMs });
+      } else {
+        entry.count++;
+      }
+    },
+
+    reset(key: string) {
+      hits.delete(key);
+    }
+  };
+}
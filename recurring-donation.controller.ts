@@ -0,0 +1,371 @@
+import { Router } from "express";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticateJWT, requireVerifiedEmail } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertRecurringDonationSchema, RecurringDonation } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+import { getPaymentProviderForMethod } from "../utils/payments";
+import { getNextRunAt, getRecurringDonationProjection, toRecurringDonationResponse } from "../utils/recurring-donations";
+import { resolveDonationAllocations } from "../utils/funds";
+
+const MAX_START_DAYS_AHEAD = 365;
+
+const startDateSchema = z.coerce.date().refine(date => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  return date >= startOfToday && date.getTime() <= Date.now() + MAX_START_DAYS_AHEAD * 24 * 60 * 60 * 1000;
+}, `Start date must be between today and ${MAX_START_DAYS_AHEAD} days from now`);
+
+const createRecurringDonationSchema = insertRecurringDonationSchema
+  .pick({ amount: true, frequency: true, paymentMethod: true, paymentToken: true, fundId: true })
+  .extend({ startDate: startDateSchema.optional() });
+
+const updateRecurringDonationSchema = insertRecurringDonationSchema
+  .pick({ amount: true, frequency: true, paymentToken: true, fundId: true })
+  .extend({ nextRunDate: startDateSchema })
+  .partial();
+
+// A designated fund has to be accepting gifts; returns an error message if it isn't
+async function checkFund(fundId: number | null | undefined, amount: string) {
+  if (!fundId) {
+    return null;
+  }
+
+  const result = await resolveDonationAllocations(amount, [{ fundId, amount: parseFloat(amount) }]);
+  return result.message || null;
+}
+
+// Pause, resume or cancel a schedule; returns an error message if it can't move to that status
+async function setRecurringDonationStatus(recurring: RecurringDonation, status: "active" | "paused" | "cancelled", pausedBy: string) {
+  if (recurring.status === "cancelled") {
+    return { message: "This recurring gift has been cancelled" };
+  }
+
+  if (recurring.status === status) {
+    return { message: `This recurring gift is already ${status}` };
+  }
+
+  const now = new Date();
+  let data: Partial<RecurringDonation>;
+
+  if (status === "cancelled") {
+    data = { status, cancelledAt: now };
+  } else if (status === "paused") {
+    data = { status, pausedReason: pausedBy };
+  } else {
+    // Runs missed while paused are skipped rather than charged on resume
+    data = {
+      status,
+      pausedReason: null,
+      failedAttempts: 0,
+      nextRunAt: recurring.nextRunAt > now ? recurring.nextRunAt : getNextRunAt(recurring.startsAt, recurring.frequency, now)
+    };
+  }
+
+  const [updated] = await storage.updateRecurringDonation(recurring.id, data);
+  return { recurring: updated };
+}
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get recurring gifts (status 'active', 'paused', 'cancelled' or 'all') with the projected income from active ones
+    router.get("/", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const page = parseInt(req.query.page as string) || 1;
+        const perPage = parseInt(req.query.perPage as string) || 10;
+        const status = (req.query.status as string) || "active";
+
+        const { recurringDonations, total } = await storage.getAllRecurringDonations(page, perPage, status);
+        const projected = await getRecurringDonationProjection();
+
+        res.status(200).json({
+          recurringDonations: recurringDonations.map(toRecurringDonationResponse),
+          total,
+          projected
+        });
+      } catch (error) {
+        console.error("Get all recurring donations error:", error);
+        res.status(500).json({ message: "An error occurred while fetching recurring donations" });
+      }
+    });
+
+    // Get a recurring gift with its most recent donations
+    router.get("/:id", requirePermission("donations:read"), async (req, res) => {
+      try {
+        const recurringId = parseInt(req.params.id);
+
+        if (isNaN(recurringId)) {
+          return res.status(400).json({ message: "Invalid recurring donation ID" });
+        }
+
+        const recurring = await storage.getRecurringDonationById(recurringId);
+
+        if (!recurring) {
+          return res.status(404).json({ message: "Recurring donation not found" });
+        }
+
+        const donations = await storage.getDonationsByRecurringDonationId(recurringId);
+
+        res.status(200).json({ ...toRecurringDonationResponse(recurring), donations });
+      } catch (error) {
+        console.error("Get recurring donation error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the recurring donation" });
+      }
+    });
+
+    // Pause, resume or cancel a member's recurring gift
+    router.post("/:id/:action(pause|resume|cancel)", requirePermission("donations:write"), async (req, res) => {
+      try {
+        const recurringId = parseInt(req.params.id);
+
+        if (isNaN(recurringId)) {
+          return res.status(400).json({ message: "Invalid recurring donation ID" });
+        }
+
+        const recurring = await storage.getRecurringDonationById(recurringId);
+
+        if (!recurring) {
+          return res.status(404).json({ message: "Recurring donation not found" });
+        }
+
+        const status = req.params.action === "pause" ? "paused" : req.params.action === "resume" ? "active" : "cancelled";
+        const result = await setRecurringDonationStatus(recurring, status, "admin");
+
+        if (!result.recurring) {
+          return res.status(400).json({ message: result.message });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "recurring_donation",
+          details: `Admin set recurring gift ID ${recurringId} of ${recurring.user.email} to ${status}`
+        });
+
+        res.status(200).json(toRecurringDonationResponse(result.recurring));
+      } catch (error) {
+        console.error("Admin update recurring donation status error:", error);
+        res.status(500).json({ message: "An error occurred while updating the recurring donation" });
+      }
+    });
+  } else {
+    // User routes - a member's own recurring gifts
+
+    // Get current user's recurring gifts
+    router.get("/", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const recurringDonations = await storage.getRecurringDonationsByUserId(req.user.id);
+
+        res.status(200).json(recurringDonations.map(toRecurringDonationResponse));
+      } catch (error) {
+        console.error("Get recurring donations error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your recurring gifts" });
+      }
+    });
+
+    // Set up a recurring gift with a payment method saved with the provider (verified email only)
+    router.post("/", authenticateJWT, requireVerifiedEmail, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { startDate, ...recurringData } = createRecurringDonationSchema.parse(req.body);
+        const provider = getPaymentProviderForMethod(recurringData.paymentMethod);
+
+        if (!provider?.charge) {
+          return res.status(400).json({ message: "Recurring gifts can't be made with this payment method" });
+        }
+
+        const fundError = await checkFund(recurringData.fundId, recurringData.amount);
+
+        if (fundError) {
+          return res.status(400).json({ message: fundError });
+        }
+
+        const startsAt = new Date(Math.max(startDate?.getTime() || 0, Date.now()));
+
+        const [recurring] = await storage.createRecurringDonation({
+          ...recurringData,
+          userId: req.user.id,
+          paymentProvider: provider.id,
+          status: "active",
+          startsAt,
+          nextRunAt: startsAt
+        });
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "recurring_donation",
+          details: `Set up a ${recurring.frequency} recurring gift of $${recurring.amount} using ${recurring.paymentMethod.replace('_', ' ')}`
+        });
+
+        res.status(201).json(toRecurringDonationResponse(recurring));
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Create recurring donation error:", error);
+        res.status(500).json({ message: "An error occurred while setting up your recurring gift" });
+      }
+    });
+
+    // Get one of the current user's recurring gifts with its most recent donations
+    router.get("/:id", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const recurringId = parseInt(req.params.id);
+
+        if (isNaN(recurringId)) {
+          return res.status(400).json({ message: "Invalid recurring donation ID" });
+        }
+
+        const recurring = await storage.getRecurringDonationById(recurringId);
+
+        if (!recurring || recurring.userId !== req.user.id) {
+          return res.status(404).json({ message: "Recurring gift not found" });
+        }
+
+        const { user, ...recurringWithoutUser } = recurring;
+        const donations = await storage.getDonationsByRecurringDonationId(recurringId);
+
+        res.status(200).json({ ...toRecurringDonationResponse(recurringWithoutUser), donations });
+      } catch (error) {
+        console.error("Get recurring donation error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your recurring gift" });
+      }
+    });
+
+    // Change the amount, frequency, payment method or next date of a recurring gift
+    router.patch("/:id", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const recurringId = parseInt(req.params.id);
+
+        if (isNaN(recurringId)) {
+          return res.status(400).json({ message: "Invalid recurring donation ID" });
+        }
+
+        const { nextRunDate, ...changes } = updateRecurringDonationSchema.parse(req.body);
+        const recurring = await storage.getRecurringDonationById(recurringId);
+
+        if (!recurring || recurring.userId !== req.user.id) {
+          return res.status(404).json({ message: "Recurring gift not found" });
+        }
+
+        if (recurring.status === "cancelled") {
+          return res.status(400).json({ message: "This recurring gift has been cancelled" });
+        }
+
+        const fundError = await checkFund(changes.fundId, changes.amount || recurring.amount);
+
+        if (fundError) {
+          return res.status(400).json({ message: fundError });
+        }
+
+        const updateData: Partial<RecurringDonation> = { ...changes };
+
+        // A new date or frequency starts the count again from the next run
+        if (nextRunDate || (changes.frequency && changes.frequency !== recurring.frequency)) {
+          const nextRunAt = nextRunDate ? new Date(Math.max(nextRunDate.getTime(), Date.now())) : recurring.nextRunAt;
+          updateData.startsAt = nextRunAt;
+          updateData.nextRunAt = nextRunAt;
+        }
+
+        // A new payment method gets a fresh set of retries
+        if (changes.paymentToken) {
+          updateData.failedAttempts = 0;
+          updateData.lastFailureReason = null;
+        }
+
+        if (Object.keys(updateData).length === 0) {
+          return res.status(400).json({ message: "No changes provided" });
+        }
+
+        const [updated] = await storage.updateRecurringDonation(recurringId, updateData);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "recurring_donation",
+          details: `Updated recurring gift ID ${recurringId}: ${Object.keys(changes).concat(nextRunDate ? ["nextRunDate"] : []).join(", ")}`
+        });
+
+        res.status(200).json(toRecurringDonationResponse(updated));
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+
+        console.error("Update recurring donation error:", error);
+        res.status(500).json({ message: "An error occurred while updating your recurring gift" });
+      }
+    });
+
+    // Pause, resume or cancel one of the current user's recurring gifts
+    router.post("/:id/:action(pause|resume|cancel)", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const recurringId = parseInt(req.params.id);
+
+        if (isNaN(recurringId)) {
+          return res.status(400).json({ message: "Invalid recurring donation ID" });
+        }
+
+        const recurring = await storage.getRecurringDonationById(recurringId);
+
+        if (!recurring || recurring.userId !== req.user.id) {
+          return res.status(404).json({ message: "Recurring gift not found" });
+        }
+
+        const status = req.params.action === "pause" ? "paused" : req.params.action === "resume" ? "active" : "cancelled";
+
+        // Gifts paused by the church stay paused until an admin resumes them
+        if (status === "active" && recurring.status === "paused" && recurring.pausedReason === "admin") {
+          return res.status(403).json({ message: "This recurring gift was paused by the church, please contact the church office to resume it" });
+        }
+
+        const result = await setRecurringDonationStatus(recurring, status, "member");
+
+        if (!result.recurring) {
+          return res.status(400).json({ message: result.message });
+        }
+
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "recurring_donation",
+          details: `Set recurring gift ID ${recurringId} to ${status}`
+        });
+
+        res.status(200).json(toRecurringDonationResponse(result.recurring));
+      } catch (error) {
+        console.error("Update recurring donation status error:", error);
+        res.status(500).json({ message: "An error occurred while updating your recurring gift" });
+      }
+    });
+  }
+
+  return router;
+}
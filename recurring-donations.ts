@@ -0,0 +1,229 @@
+import { storage } from "../storage";
+import { RecurringDonation, User } from "@shared/schema";
+import { logActivity } from "./activity";
+import { getPaymentProvider, applyPaymentUpdate, PaymentUpdate } from "./payments";
+import { sendRecurringDonationFailedEmail } from "./email";
+import { resolveDonationAllocations } from "./funds";
+
+const RECURRING_SCHEDULER_INTERVAL_MS = parseInt(process.env.RECURRING_SCHEDULER_INTERVAL_MS || "") || 15 * 60 * 1000; // 15 minutes
+const RECURRING_RUN_CLAIM_MS = 60 * 60 * 1000; // 1 hour, how long a run is held while it's charged
+// Days to wait before each retry after a failed charge; once these are used up the gift is paused
+const RECURRING_RETRY_DELAYS_DAYS = [1, 3, 5];
+
+// How far apart runs are, and how many fall in a month on average (for projections)
+const FREQUENCIES: Record<string, { days?: number; months?: number; perMonth: number }> = {
+  weekly: { days: 7, perMonth: 52 / 12 },
+  biweekly: { days: 14, perMonth: 26 / 12 },
+  monthly: { months: 1, perMonth: 1 },
+  quarterly: { months: 3, perMonth: 1 / 3 },
+  yearly: { months: 12, perMonth: 1 / 12 }
+};
+
+// The nth run after startsAt; month steps stay on the start's day, or the month's last day if it's shorter
+function getRunDate(startsAt: Date, frequency: string, n: number) {
+  const { days, months } = FREQUENCIES[frequency];
+  const date = new Date(startsAt);
+
+  if (days) {
+    date.setDate(date.getDate() + days * n);
+    return date;
+  }
+
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + (months || 0) * n);
+  date.setDate(Math.min(day, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+  return date;
+}
+
+// The first run strictly after the given date. Missed runs are skipped, not charged all at once.
+export function getNextRunAt(startsAt: Date, frequency: string, after = new Date()) {
+  if (startsAt > after) {
+    return new Date(startsAt);
+  }
+
+  let n = 1;
+  let next = getRunDate(startsAt, frequency, n);
+  while (next <= after) {
+    next = getRunDate(startsAt, frequency, ++n);
+  }
+
+  return next;
+}
+
+// Expected income from active recurring gifts
+export async function getRecurringDonationProjection() {
+  const totals = await storage.getActiveRecurringDonationTotals();
+  const monthly = totals.reduce((total, row) =>
+    total + parseFloat(row.total || "0") * (FREQUENCIES[row.frequency]?.perMonth || 0), 0);
+
+  return {
+    activeCount: totals.reduce((total, row) => total + Number(row.count), 0),
+    monthly: Math.round(monthly * 100) / 100,
+    yearly: Math.round(monthly * 12 * 100) / 100
+  };
+}
+
+// The saved payment token stays on the server
+export function toRecurringDonationResponse<T extends RecurringDonation>(recurring: T) {
+  const { paymentToken, ...recurringWithoutToken } = recurring;
+  return { ...recurringWithoutToken, paymentTokenHint: paymentToken ? `…${paymentToken.slice(-4)}` : null };
+}
+
+// Charge one due run: create the donation, charge the saved payment method and schedule what comes next
+async function processRecurringDonation(recurring: RecurringDonation & { user: User }, now: Date) {
+  const [claimed] = await storage.claimRecurringDonationRun(
+    recurring.id, recurring.nextRunAt, new Date(now.getTime() + RECURRING_RUN_CLAIM_MS)
+  );
+
+  if (!claimed) {
+    return; // Changed since it was fetched, or picked up by another instance
+  }
+
+  const nextRunAt = getNextRunAt(recurring.startsAt, recurring.frequency, now);
+
+  // Deactivated or deleted donors aren't charged; the run is skipped so nothing piles up if they come back
+  if (recurring.user.status !== "active" || recurring.user.deletedAt) {
+    await storage.updateRecurringDonation(recurring.id, { nextRunAt });
+
+    // Log the activity
+    await logActivity({
+      userId: recurring.userId,
+      action: "recurring_donation",
+      details: `Recurring gift ID ${recurring.id} run skipped, the donor's account is inactive`
+    });
+    return;
+  }
+
+  const [donation] = await storage.createRecurringRunDonation({
+    amount: recurring.amount,
+    paymentMethod: recurring.paymentMethod,
+    paymentProvider: recurring.paymentProvider,
+    recurringDonationId: recurring.id,
+    recurringRunAt: recurring.nextRunAt,
+    userId: recurring.userId,
+    status: "pending"
+  });
+
+  // An earlier attempt at this run got as far as creating its donation, which may have been charged
+  if (!donation) {
+    await storage.updateRecurringDonation(recurring.id, { nextRunAt, lastRunAt: now });
+    return;
+  }
+
+  // A fund closed since the gift was set up falls back to the default fund
+  let { allocations } = await resolveDonationAllocations(
+    recurring.amount, recurring.fundId ? [{ fundId: recurring.fundId, amount: parseFloat(recurring.amount) }] : undefined
+  );
+  if (!allocations) {
+    ({ allocations } = await resolveDonationAllocations(recurring.amount));
+  }
+  await storage.createDonationAllocations((allocations || []).map(allocation => ({ ...allocation, donationId: donation.id })));
+
+  const provider = getPaymentProvider(recurring.paymentProvider);
+  let update: PaymentUpdate | null = null;
+  let failureReason: string | null = null;
+
+  try {
+    if (!provider?.charge) {
+      throw new Error(`Payment provider ${recurring.paymentProvider} can't charge saved payment methods`);
+    }
+
+    update = await provider.charge(donation, recurring.paymentToken);
+    await storage.updateDonation(donation.id, { transactionId: update.reference });
+    await applyPaymentUpdate(provider, update);
+  } catch (error) {
+    failureReason = error instanceof Error ? error.message : String(error);
+
+    // If the charge itself went through, the donation is left for the provider's webhook to settle
+    if (!update) {
+      await storage.updateDonation(donation.id, { status: "failed" });
+    }
+  }
+
+  // A pending charge counts as a run, the provider's webhook settles the donation later
+  if (update && update.status !== "failed") {
+    await storage.updateRecurringDonation(recurring.id, {
+      nextRunAt,
+      failedAttempts: 0,
+      lastRunAt: now,
+      lastFailureReason: null
+    });
+    return;
+  }
+
+  const failedAttempts = recurring.failedAttempts + 1;
+  const retryDays = RECURRING_RETRY_DELAYS_DAYS[failedAttempts - 1];
+  const retryAt = retryDays ? new Date(now.getTime() + retryDays * 24 * 60 * 60 * 1000) : null;
+
+  await storage.updateRecurringDonation(recurring.id, {
+    failedAttempts,
+    lastRunAt: now,
+    lastFailureReason: failureReason || `Payment ${update?.type || "failed"}`,
+    // When paused, nextRunAt is where the schedule picks up again if it's resumed
+    nextRunAt: retryAt || nextRunAt,
+    ...(retryAt ? {} : { status: "paused", pausedReason: "payment_failed" })
+  });
+
+  // Log the activity
+  await logActivity({
+    userId: recurring.userId,
+    action: "recurring_donation",
+    details: retryAt
+      ? `Recurring gift ID ${recurring.id} payment failed, retrying on ${retryAt.toISOString()}`
+      : `Recurring gift ID ${recurring.id} paused after ${failedAttempts} failed payments`
+  });
+
+  try {
+    await sendRecurringDonationFailedEmail(recurring.user.email, recurring.user.name, parseFloat(recurring.amount), retryAt);
+  } catch (emailError) {
+    console.error("Failed to send recurring donation failure email:", emailError);
+    // Continue, the retry is scheduled either way
+  }
+}
+
+// Charge every recurring gift that is due; one failing gift doesn't stop the others
+export async function runDueRecurringDonations(now = new Date()) {
+  const due = await storage.getDueRecurringDonations(now);
+
+  for (const recurring of due) {
+    try {
+      await processRecurringDonation(recurring, now);
+    } catch (error) {
+      console.error(`Recurring donation ${recurring.id} error:`, error);
+    }
+  }
+
+  return due.length;
+}
+
+let running = false;
+
+// Check for due recurring gifts now and then every interval. Set RECURRING_SCHEDULER_ENABLED=false on
+// instances that shouldn't charge (claims stop two instances charging the same run either way).
+export function startRecurringDonationScheduler() {
+  if (process.env.RECURRING_SCHEDULER_ENABLED === "false") {
+    return;
+  }
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const count = await runDueRecurringDonations();
+      if (count > 0) {
+        console.log(`Recurring donations: Processed ${count} due gifts`);
+      }
+    } catch (error) {
+      console.error("Recurring donation scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(tick, 0);
+  setInterval(tick, RECURRING_SCHEDULER_INTERVAL_MS).unref();
+}
@@ -0,0 +1,176 @@
+import { Router } from "express";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { requirePermission } from "../middleware/permission.middleware";
+import { insertRoleSchema, PERMISSIONS, OWNER_ROLE } from "@shared/schema";
+import { logActivity } from "../utils/activity";
+
+const permissionKeysSchema = z.array(
+  z.string().refine(key => key in PERMISSIONS, key => ({ message: `Unknown permission: ${key}` }))
+);
+
+export function register() {
+  const router = Router();
+
+  // Admin routes - routes.ts requires admin panel access, every route here needs roles:manage
+  router.use(requirePermission("roles:manage"));
+
+  // Get all roles with their permissions and user counts
+  router.get("/", async (req, res) => {
+    try {
+      const roles = await storage.getAllRoles();
+
+      res.status(200).json(roles);
+    } catch (error) {
+      console.error("Get all roles error:", error);
+      res.status(500).json({ message: "An error occurred while fetching roles" });
+    }
+  });
+
+  // Get the permission catalog
+  router.get("/permissions", async (req, res) => {
+    try {
+      const permissions = Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }));
+
+      res.status(200).json(permissions);
+    } catch (error) {
+      console.error("Get permissions error:", error);
+      res.status(500).json({ message: "An error occurred while fetching permissions" });
+    }
+  });
+
+  // Create a custom role
+  router.post("/", async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.pick({ name: true, description: true }).parse(req.body);
+      const permissionKeys = permissionKeysSchema.parse(req.body.permissions || []);
+
+      const existingRole = await storage.getRoleByName(roleData.name);
+
+      if (existingRole) {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+
+      const [newRole] = await storage.createRole({ ...roleData, isSystem: false });
+      const permissions = await storage.setRolePermissions(newRole.id, permissionKeys);
+
+      // Log the activity
+      await logActivity({
+        userId: req.user?.id,
+        action: "role_create",
+        details: `Created role ${newRole.name} with permissions: ${permissions.join(", ") || "none"}`
+      });
+
+      res.status(201).json({ ...newRole, permissions, userCount: 0 });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+
+      console.error("Create role error:", error);
+      res.status(500).json({ message: "An error occurred while creating the role" });
+    }
+  });
+
+  // Update a role's description and permissions (roles can't be renamed, users reference them by name)
+  router.patch("/:id", async (req, res) => {
+    try {
+      const roleId = parseInt(req.params.id);
+
+      if (isNaN(roleId)) {
+        return res.status(400).json({ message: "Invalid role ID" });
+      }
+
+      const role = await storage.getRoleById(roleId);
+
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      if (req.body.name !== undefined && req.body.name !== role.name) {
+        return res.status(400).json({ message: "Roles cannot be renamed" });
+      }
+
+      const { description } = insertRoleSchema.pick({ description: true }).partial().parse(req.body);
+      const permissionKeys = req.body.permissions !== undefined
+        ? permissionKeysSchema.parse(req.body.permissions)
+        : undefined;
+
+      // The owner role always keeps every permission so the church can't lock itself out
+      if (role.name === OWNER_ROLE && permissionKeys !== undefined) {
+        return res.status(403).json({ message: "The owner role's permissions cannot be changed" });
+      }
+
+      let updatedRole = role;
+      if (description !== undefined) {
+        [updatedRole] = await storage.updateRole(roleId, { description });
+      }
+
+      if (permissionKeys !== undefined) {
+        await storage.setRolePermissions(roleId, permissionKeys);
+      }
+
+      const permissions = await storage.getPermissionKeysForRole(role.name);
+
+      // Log the activity
+      await logActivity({
+        userId: req.user?.id,
+        action: "role_update",
+        details: `Updated role ${role.name}, permissions: ${permissions.join(", ") || "none"}`
+      });
+
+      res.status(200).json({ ...updatedRole, permissions });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+
+      console.error("Update role error:", error);
+      res.status(500).json({ message: "An error occurred while updating the role" });
+    }
+  });
+
+  // Delete a custom role
+  router.delete("/:id", async (req, res) => {
+    try {
+      const roleId = parseInt(req.params.id);
+
+      if (isNaN(roleId)) {
+        return res.status(400).json({ message: "Invalid role ID" });
+      }
+
+      const role = await storage.getRoleById(roleId);
+
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      if (role.isSystem) {
+        return res.status(403).json({ message: "Built-in roles cannot be deleted" });
+      }
+
+      const userCount = await storage.countUsersWithRole(role.name);
+
+      if (userCount > 0) {
+        return res.status(409).json({ message: `Role is assigned to ${userCount} user(s), reassign them first` });
+      }
+
+      await storage.deleteRole(roleId);
+
+      // Log the activity
+      await logActivity({
+        userId: req.user?.id,
+        action: "role_delete",
+        details: `Deleted role ${role.name}`
+      });
+
+      res.status(200).json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Delete role error:", error);
+      res.status(500).json({ message: "An error occurred while deleting the role" });
+    }
+  });
+
+  return router;
+}
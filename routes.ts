@@ -9,29 +9,97 @@ import { register as registerContactRoutes } from "./controllers/contact.control
 import { register as registerSermonRoutes } from "./controllers/sermon.controller";
 import { register as registerMediaRoutes } from "./controllers/media.controller";
 import { register as registerActivityRoutes } from "./controllers/activity.controller";
-import { authenticateJWT, setUserInfo } from "./middleware/auth.middleware";
+import { register as registerTwoFactorRoutes } from "./controllers/two-factor.controller";
+import { register as registerRoleRoutes } from "./controllers/role.controller";
+import { register as registerOwnershipRoutes } from "./controllers/ownership.controller";
+import { register as registerApiTokenRoutes } from "./controllers/api-token.controller";
+import { register as registerInvitationRoutes } from "./controllers/invitation.controller";
+import { register as registerImpersonationRoutes } from "./controllers/impersonation.controller";
+import { register as registerMemberFieldRoutes } from "./controllers/member-field.controller";
+import { register as registerHouseholdRoutes } from "./controllers/household.controller";
+import { register as registerFundRoutes } from "./controllers/fund.controller";
+import { register as registerPaymentRoutes } from "./controllers/payment.controller";
+import { register as registerRecurringDonationRoutes } from "./controllers/recurring-donation.controller";
+import { register as registerEsewaStubRoutes } from "./controllers/esewa-stub.controller";
+import { authenticateJWT, isAdmin, setUserInfo, rejectApiTokens } from "./middleware/auth.middleware";
 import { isOwner } from "./middleware/owner.middleware";
+import { csrfProtection } from "./middleware/csrf.middleware";
+import { impersonationGuard } from "./middleware/impersonation.middleware";
+import { requirePermission } from "./middleware/permission.middleware";
+import { registerPaymentProvider } from "./utils/payments";
+import { mockPaymentProvider, isMockPaymentsConfigured } from "./utils/mock-payment";
+import { esewaPaymentProvider, getMissingEsewaConfig, ESEWA_CONFIG_VARIABLES } from "./utils/esewa";
+import { bankQrPaymentProvider } from "./utils/bank-qr";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Define API prefix
   const apiPrefix = "/api";
 
+  // Payment providers - the mock provider stands in for a card processor, only when explicitly enabled
+  if (process.env.MOCK_PAYMENTS_ENABLED === "true") {
+    if (!isMockPaymentsConfigured()) {
+      throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET must be set when MOCK_PAYMENTS_ENABLED is true");
+    }
+    registerPaymentProvider(mockPaymentProvider);
+  }
+
+  // Bank QR codes need the church's account outside development
+  if (process.env.NODE_ENV !== "production" || process.env.BANK_QR_ACCOUNT_NUMBER) {
+    registerPaymentProvider(bankQrPaymentProvider);
+  }
+
+  // eSewa uses its test merchant in development; anywhere else the merchant's own key, product code
+  // and URLs must all be set, and a partial setup stops the server rather than falling back to the test merchant
+  const missingEsewaConfig = getMissingEsewaConfig();
+  if (process.env.NODE_ENV === "development" || missingEsewaConfig.length === 0) {
+    registerPaymentProvider(esewaPaymentProvider);
+  } else if (missingEsewaConfig.length < ESEWA_CONFIG_VARIABLES.length) {
+    throw new Error(`eSewa is partly configured, also set ${missingEsewaConfig.join(", ")}`);
+  }
+
   // Apply middleware to all routes to check if user is authenticated
   // but don't block unauthenticated requests - just attach user info if available
   app.use(setUserInfo);
 
+  // Every non-GET API request must carry the CSRF token issued by /api/auth/csrf-token
+  app.use(apiPrefix, csrfProtection);
+
+  // While an owner is impersonating, every request is audited and changes are blocked
+  app.use(apiPrefix, impersonationGuard);
+
+  // Account-level routes are for browser sessions only, API tokens are limited to their scopes
+  app.use([`${apiPrefix}/auth`, `${apiPrefix}/users`, `${apiPrefix}/ownership`, `${apiPrefix}/donations`, `${apiPrefix}/payments`], rejectApiTokens);
+
   // Auth routes (login, signup, etc.)
   app.use(`${apiPrefix}/auth`, registerAuthRoutes());
 
+  // Two-factor authentication routes (enrollment and the second login step)
+  app.use(`${apiPrefix}/auth/2fa`, registerTwoFactorRoutes());
+
+  // Personal API token routes
+  app.use(`${apiPrefix}/auth/tokens`, registerApiTokenRoutes());
+
   // User routes
   app.use(`${apiPrefix}/users`, registerUserRoutes());
 
+  // Household routes (the current user's own household)
+  app.use(`${apiPrefix}/users/profile/household`, registerHouseholdRoutes());
+
+  // Member field routes (the custom fields shown on the current user's profile)
+  app.use(`${apiPrefix}/member-fields`, registerMemberFieldRoutes());
+
   // Event routes
   app.use(`${apiPrefix}/events`, registerEventRoutes());
 
+  // Recurring donation routes (the current user's recurring gifts) - before the donation routes
+  app.use(`${apiPrefix}/donations/recurring`, registerRecurringDonationRoutes());
+
   // Donation routes
   app.use(`${apiPrefix}/donations`, registerDonationRoutes());
 
+  // Fund routes (the funds a gift can be designated to, no auth required)
+  app.use(`${apiPrefix}/funds`, registerFundRoutes());
+
   // Contact routes
   app.use(`${apiPrefix}/contacts`, registerContactRoutes());
 
@@ -41,17 +109,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Media routes (no auth required for public access)
   app.use(`${apiPrefix}/media`, registerMediaRoutes());
 
-  // Admin routes - all require authentication and owner role
+  // Local stand-in for eSewa's endpoints, never available in production
+  if (process.env.NODE_ENV !== "production") {
+    app.use(`${apiPrefix}/payments/esewa-stub`, registerEsewaStubRoutes());
+  }
+
+  // Payment routes (provider webhooks, eSewa returns and confirming a donation's payment)
+  app.use(`${apiPrefix}/payments`, registerPaymentRoutes());
+
+  // Invitation routes (looking up and accepting an invitation)
+  app.use(`${apiPrefix}/invitations`, registerInvitationRoutes());
+
+  // Impersonation routes (status and stopping, used while viewing as another user)
+  app.use(`${apiPrefix}/impersonation`, registerImpersonationRoutes());
+
+  // Ownership routes (the recipient accepting a transfer)
+  app.use(`${apiPrefix}/ownership`, registerOwnershipRoutes());
+
+  // Admin routes - all require authentication and admin panel access,
+  // each route then checks the specific permission it needs
   const adminPrefix = `${apiPrefix}/admin`;
   
-  app.use(`${adminPrefix}/users`, authenticateJWT, isOwner, registerUserRoutes(true));
-  app.use(`${adminPrefix}/media`, authenticateJWT, isOwner, registerMediaRoutes(true));
-  app.use(`${adminPrefix}/contacts`, authenticateJWT, isOwner, registerContactRoutes(true));
-  app.use(`${adminPrefix}/donations`, authenticateJWT, isOwner, registerDonationRoutes(true));
-  app.use(`${adminPrefix}/activity`, authenticateJWT, isOwner, registerActivityRoutes());
+  app.use(`${adminPrefix}/users`, authenticateJWT, isAdmin, registerUserRoutes(true));
+  app.use(`${adminPrefix}/media`, authenticateJWT, isAdmin, registerMediaRoutes(true));
+  app.use(`${adminPrefix}/contacts`, authenticateJWT, isAdmin, registerContactRoutes(true));
+  app.use(`${adminPrefix}/donations/recurring`, authenticateJWT, isAdmin, registerRecurringDonationRoutes(true));
+  app.use(`${adminPrefix}/donations`, authenticateJWT, isAdmin, registerDonationRoutes(true));
+  app.use(`${adminPrefix}/activity`, authenticateJWT, isAdmin, registerActivityRoutes());
+  app.use(`${adminPrefix}/security`, authenticateJWT, isAdmin, registerTwoFactorRoutes(true));
+  app.use(`${adminPrefix}/roles`, authenticateJWT, isAdmin, registerRoleRoutes());
+  app.use(`${adminPrefix}/impersonation`, authenticateJWT, rejectApiTokens, isOwner, registerImpersonationRoutes(true));
+  app.use(`${adminPrefix}/invitations`, authenticateJWT, isAdmin, registerInvitationRoutes(true));
+  app.use(`${adminPrefix}/api-tokens`, authenticateJWT, isAdmin, registerApiTokenRoutes(true));
+  app.use(`${adminPrefix}/ownership`, authenticateJWT, rejectApiTokens, isOwner, registerOwnershipRoutes(true));
+  app.use(`${adminPrefix}/member-fields`, authenticateJWT, isAdmin, registerMemberFieldRoutes(true));
+  app.use(`${adminPrefix}/households`, authenticateJWT, isAdmin, registerHouseholdRoutes(true));
+  app.use(`${adminPrefix}/funds`, authenticateJWT, isAdmin, registerFundRoutes(true));
   
   // Dashboard stats
-  app.get(`${adminPrefix}/dashboard/stats`, authenticateJWT, isOwner, async (req, res) => {
+  app.get(`${adminPrefix}/dashboard/stats`, authenticateJWT, isAdmin, requirePermission("dashboard:read"), async (req, res) => {
     try {
       const totalUsers = await storage.getTotalUsers();
       const totalDonations = await storage.getTotalDonationAmount();
@@ -61,6 +157,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const unreadContacts = await storage.getUnreadContactsCount();
       const userGrowth = await storage.getUserGrowthPercentage();
       const donationGrowth = await storage.getDonationGrowthPercentage();
+      const today = new Date();
+      const fundBreakdown = await storage.getFundBreakdown(new Date(today.getFullYear(), today.getMonth(), 1));
       
       res.json({
         totalUsers,
@@ -70,7 +168,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         newContacts,
         unreadContacts,
         userGrowth,
-        donationGrowth
+        donationGrowth,
+        fundBreakdown // This month's giving per fund
       });
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
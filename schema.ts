@@ -1,21 +1,374 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, primaryKey, unique, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from "zod";
 
+// Permission catalog - every permission the server checks with requirePermission()
+export const PERMISSIONS = {
+  "admin:access": "Open the admin panel",
+  "dashboard:read": "View dashboard statistics",
+  "users:read": "View members",
+  "users:write": "Create and edit members",
+  "users:delete": "Delete members",
+  "roles:manage": "Manage roles and assign them to members",
+  "donations:read": "View donations and giving reports",
+  "donations:write": "Update donations",
+  "media:read": "View the media library",
+  "media:write": "Upload and edit media",
+  "media:delete": "Delete media",
+  "events:write": "Create, edit and delete events",
+  "sermons:write": "Create, edit and delete sermons",
+  "contacts:read": "View contact messages",
+  "contacts:write": "Respond to, update and delete contact messages",
+  "activity:read": "View the activity log",
+  "security:manage": "Manage security settings"
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// The owner role always has every permission, including ones added later
+export const OWNER_ROLE = "owner";
+
+// Role given to new signups
+export const DEFAULT_MEMBER_ROLE = "member";
+
+// Custom member profile fields
+export const MEMBER_FIELD_TYPES = ["text", "textarea", "number", "date", "boolean", "email", "phone", "select", "multiselect"] as const;
+export const MEMBER_FIELD_VISIBILITIES = ["editable", "readonly", "admin"] as const;
+
+// Roles within a household
+export const HOUSEHOLD_MEMBER_ROLES = ["head", "spouse", "child", "other"] as const;
+
+// Recurring gifts
+export const RECURRING_DONATION_FREQUENCIES = ["weekly", "biweekly", "monthly", "quarterly", "yearly"] as const;
+export const RECURRING_DONATION_STATUSES = ["active", "paused", "cancelled"] as const;
+
+// Roles created by the seed script and the permissions they start with
+export const DEFAULT_ROLES: { name: string; description: string; permissions: Permission[] }[] = [
+  {
+    name: OWNER_ROLE,
+    description: "Full access to everything",
+    permissions: ALL_PERMISSIONS
+  },
+  {
+    name: "admin",
+    description: "Manages everything except roles and security settings",
+    permissions: ALL_PERMISSIONS.filter(permission => permission !== "roles:manage" && permission !== "security:manage")
+  },
+  {
+    name: "pastor",
+    description: "Manages events, sermons, media and members",
+    permissions: [
+      "admin:access", "dashboard:read", "users:read", "events:write", "sermons:write",
+      "media:read", "media:write", "contacts:read", "contacts:write", "activity:read"
+    ]
+  },
+  {
+    name: "treasurer",
+    description: "Views and reconciles donations",
+    permissions: ["admin:access", "dashboard:read", "donations:read", "donations:write"]
+  },
+  {
+    name: "media_team",
+    description: "Uploads media and publishes sermons and events",
+    permissions: ["admin:access", "media:read", "media:write", "media:delete", "sermons:write", "events:write"]
+  },
+  {
+    name: DEFAULT_MEMBER_ROLE,
+    description: "Regular church member",
+    permissions: []
+  }
+];
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("user"), // 'user' or 'owner'
+  role: text("role").notNull().default("member"), // Name of a row in the roles table
   status: text("status").notNull().default("active"), // 'active' or 'inactive'
   notificationOptIn: boolean("notification_opt_in").default(true),
-  profilePictureUrl: text("profile_picture_url"),
+  profilePictureUrl: text("profile_picture_url"), // Largest avatar size
+  profilePicturePublicId: text("profile_picture_public_id"), // Cloudinary asset, deleted when the picture is replaced
+  profilePictureVariants: jsonb("profile_picture_variants").$type<Record<string, string>>(), // Avatar URL by size in pixels, e.g. { "64": "https://..." }
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the user clicks the verification link
+  passwordChangedAt: timestamp("password_changed_at"), // Tokens issued before this are no longer accepted
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret, set during enrollment
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"), // Null until enrollment is confirmed with a code
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"), // Prevents replaying a code within its time step
+  deletedAt: timestamp("deleted_at"), // Soft delete - the row stays so donations and media keep their owner
+  statusBeforeDelete: text("status_before_delete"), // Put back when a soft-deleted user is restored
+  anonymizedAt: timestamp("anonymized_at"), // Personal details scrubbed; an anonymized user can't be restored
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Password reset tokens table (only a hash of the emailed token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Magic link tokens table - single-use passwordless sign-in links (only a hash is stored)
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  ipAddress: text("ip_address"), // Where the link was requested from, shown in the email
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Sessions table - one row per signed-in device, backing its refresh token
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"), // Kept to detect reuse of a rotated-out token
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"), // 'logout', 'user_revoked', 'admin_revoked', 'password_reset', 'password_change', 'user_deactivated', 'token_reuse'
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Failed logins table - throttles sign-in attempts per IP address and per account from each IP address
+export const failedLogins = pgTable("failed_logins", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Null when the email is unknown
+  ipAddress: text("ip_address").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  ipAddressCreatedAt: index("failed_logins_ip_address_created_at_idx").on(table.ipAddress, table.createdAt),
+  userIdCreatedAt: index("failed_logins_user_id_created_at_idx").on(table.userId, table.createdAt)
+}));
+
+// Impersonation sessions table - an owner viewing the site as another user, tied to the owner's own session
+export const impersonationSessions = pgTable("impersonation_sessions", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  ownerSessionId: integer("owner_session_id").references(() => sessions.id, { onDelete: "cascade" }).notNull(),
+  reason: text("reason"),
+  expiresAt: timestamp("expires_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Roles table
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // e.g. 'owner', 'pastor', 'treasurer', 'media_team', 'member'
+  description: text("description"),
+  isSystem: boolean("is_system").notNull().default(false), // Seeded roles can't be deleted
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Permissions table
+export const permissions = pgTable("permissions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // e.g. 'events:write', 'donations:read', 'media:delete'
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Role permissions table (many-to-many between roles and permissions)
+export const rolePermissions = pgTable("role_permissions", {
+  roleId: integer("role_id").references(() => roles.id, { onDelete: "cascade" }).notNull(),
+  permissionId: integer("permission_id").references(() => permissions.id, { onDelete: "cascade" }).notNull()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.roleId, table.permissionId] })
+}));
+
+// Two-factor recovery codes table (hashed, each usable once)
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Application settings table (key/value, e.g. security policies)
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// User identities table - external OIDC logins linked to a user (a user can have several plus a password)
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  provider: text("provider").notNull(), // Provider ID from OIDC_PROVIDERS, e.g. 'google'
+  subject: text("subject").notNull(), // The provider's stable "sub" claim
+  email: text("email"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  providerSubject: unique("user_identities_provider_subject_unique").on(table.provider, table.subject)
+}));
+
+// API tokens table - personal access tokens for scripts and integrations (only a hash is stored)
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // First characters of the token, shown so users can tell tokens apart
+  scopes: text("scopes").array().notNull(), // Permission keys, limited to what the owner's role has
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Invitations table - an admin invites an email with a role, the invitee picks their password on acceptance
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  name: text("name"),
+  role: text("role").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // Replaced on resend, so only the latest email works
+  status: text("status").notNull().default("pending"), // 'pending', 'accepted', 'revoked'
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedUserId: integer("accepted_user_id").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Ownership transfers table - the recipient accepts via an emailed link (only its hash is stored)
+export const ownershipTransfers = pgTable("ownership_transfers", {
+  id: serial("id").primaryKey(),
+  fromUserId: integer("from_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  toUserId: integer("to_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  previousOwnerRole: text("previous_owner_role").notNull(), // Role the current owner gets once the transfer is accepted
+  tokenHash: text("token_hash").notNull().unique(),
+  status: text("status").notNull().default("pending"), // 'pending', 'accepted', 'cancelled'
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Data exports table - ZIP archives of everything stored about a user, built in the background
+export const dataExports = pgTable("data_exports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(), // Whose data is exported
+  requestedBy: integer("requested_by").references(() => users.id, { onDelete: "set null" }), // The user, or an owner
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'ready', 'failed', 'expired'
+  filePath: text("file_path"),
+  fileSize: integer("file_size"),
+  error: text("error"),
+  expiresAt: timestamp("expires_at"), // Set once ready; the download link and file stop working after this
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Member field definitions table - custom profile fields each church sets up (phone, birthday, baptism date, ...)
+export const memberFieldDefinitions = pgTable("member_field_definitions", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // Used in API requests and filters, e.g. 'baptism_date'; can't be changed
+  label: text("label").notNull(),
+  type: text("type").notNull(), // One of MEMBER_FIELD_TYPES; can't be changed once values exist
+  required: boolean("required").notNull().default(false), // Required values can't be cleared
+  visibility: text("visibility").notNull().default("editable"), // 'editable' by the member, 'readonly' to them, or 'admin' only
+  options: jsonb("options").$type<string[]>(), // Choices for select and multiselect fields
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Member field values table - one row per user and field that has a value
+export const memberFieldValues = pgTable("member_field_values", {
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  fieldId: integer("field_id").references(() => memberFieldDefinitions.id, { onDelete: "cascade" }).notNull(),
+  value: jsonb("value").notNull(), // JSON value matching the field type, e.g. "1990-04-01", true, ["choir", "ushers"]
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.fieldId] })
+}));
+
+// User import jobs table - bulk CSV imports, processed in the background
+export const userImportJobs = pgTable("user_import_jobs", {
+  id: serial("id").primaryKey(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  fileName: text("file_name").notNull(),
+  mode: text("mode").notNull(), // 'invite' sends invitations, 'create' creates users with the imported passwords
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0), // Users created or invited
+  skippedCount: integer("skipped_count").notNull().default(0), // Duplicates
+  failedCount: integer("failed_count").notNull().default(0), // Invalid rows and rows that failed to save
+  errors: jsonb("errors").$type<{ row: number; email?: string; message: string }[]>().notNull().default([]),
+  error: text("error"), // Set if the whole job failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at")
+});
+
+// User merges table - duplicate accounts merged into one; keeps what was moved so a merge can be undone
+export const userMerges = pgTable("user_merges", {
+  id: serial("id").primaryKey(),
+  sourceUserId: integer("source_user_id").references(() => users.id).notNull(), // The duplicate, soft deleted by the merge
+  targetUserId: integer("target_user_id").references(() => users.id).notNull(), // The account that is kept
+  mergedBy: integer("merged_by").references(() => users.id, { onDelete: "set null" }),
+  movedDonationIds: jsonb("moved_donation_ids").$type<number[]>().notNull(),
+  movedActivityIds: jsonb("moved_activity_ids").$type<number[]>().notNull(),
+  movedMediaIds: jsonb("moved_media_ids").$type<number[]>().notNull(),
+  movedRecurringDonationIds: jsonb("moved_recurring_donation_ids").$type<number[]>().notNull().default([]),
+  movedHouseholdMemberIds: jsonb("moved_household_member_ids").$type<number[]>().notNull().default([]),
+  movedMemberFieldIds: jsonb("moved_member_field_ids").$type<number[]>().notNull().default([]), // Field IDs, values are keyed by user and field
+  movedIdentityIds: jsonb("moved_identity_ids").$type<number[]>().notNull().default([]),
+  sourcePreviousStatus: text("source_previous_status").notNull(), // Restored on undo
+  undoExpiresAt: timestamp("undo_expires_at").notNull(),
+  undoneAt: timestamp("undone_at"),
+  undoneBy: integer("undone_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Households table - a family sharing an address; giving and mailings are often per household
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. 'The Sharma Family'
+  addressLine1: text("address_line1"),
+  addressLine2: text("address_line2"),
+  city: text("city"),
+  state: text("state"),
+  postalCode: text("postal_code"),
+  country: text("country"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Household members table - either a user, or a person without a login (e.g. a young child) who only has a name
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Null for members without a login
+  name: text("name"), // Required when there's no user, otherwise the user's own name is shown
+  role: text("role").notNull().default("other"), // One of HOUSEHOLD_MEMBER_ROLES
+  birthDate: timestamp("birth_date"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  oneHouseholdPerUser: unique("household_members_user_unique").on(table.userId) // A user belongs to at most one household
+}));
+
 // Contacts table
 export const contacts = pgTable("contacts", {
   id: serial("id").primaryKey(),
@@ -34,13 +387,85 @@ export const donations = pgTable("donations", {
   userId: integer("user_id").references(() => users.id).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   paymentMethod: text("payment_method").notNull(), // 'credit_card', 'debit_card', 'paypal', 'esewa', 'bank_qr'
-  transactionId: text("transaction_id"), // For tracking external payment system IDs
+  transactionId: text("transaction_id"), // For tracking external payment system IDs (the provider's payment reference)
   qrImageUrl: text("qr_image_url"), // For storing QR code image URL for bank transfers
   esewaReference: text("esewa_reference"), // For tracking eSewa payments
-  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed'
+  paymentProvider: text("payment_provider"), // ID of the PaymentProvider handling this donation, e.g. 'mock'
+  recurringDonationId: integer("recurring_donation_id").references(() => recurringDonations.id, { onDelete: "set null" }), // Set when created by a recurring gift
+  recurringRunAt: timestamp("recurring_run_at"), // The scheduled run (or retry) this recurring gift's donation is for
+  status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed', 'refunded'
+  completedAt: timestamp("completed_at"),
+  refundedAt: timestamp("refunded_at"),
   createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  // A run is only ever charged once, even if the scheduler stops between charging and moving the schedule on
+  oneDonationPerRun: unique("donations_recurring_run_unique").on(table.recurringDonationId, table.recurringRunAt)
+}));
+
+// Funds table - what gifts can be designated to, e.g. the general fund, building fund or missions
+export const funds = pgTable("funds", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  active: boolean("active").notNull().default(true), // Inactive funds keep their history but can't receive new gifts
+  restricted: boolean("restricted").notNull().default(false), // Donor-restricted: may only be spent on its purpose
+  isDefault: boolean("is_default").notNull().default(false), // Where undesignated gifts go; only one fund at a time
+  goalAmount: decimal("goal_amount", { precision: 12, scale: 2 }),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  singleDefault: uniqueIndex("funds_single_default_unique").on(table.isDefault).where(sql`${table.isDefault}`)
+}));
+
+// Donation allocations table - how a gift is split across funds; the amounts add up to the donation's amount
+export const donationAllocations = pgTable("donation_allocations", {
+  id: serial("id").primaryKey(),
+  donationId: integer("donation_id").references(() => donations.id, { onDelete: "cascade" }).notNull(),
+  fundId: integer("fund_id").references(() => funds.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull()
+}, (table) => ({
+  donationFund: unique("donation_allocations_donation_fund_unique").on(table.donationId, table.fundId)
+}));
+
+// Recurring donations table - a member's standing gift; the scheduler creates a donation from it each time it's due
+export const recurringDonations = pgTable("recurring_donations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  frequency: text("frequency").notNull(), // 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'
+  paymentMethod: text("payment_method").notNull(),
+  paymentProvider: text("payment_provider").notNull(),
+  paymentToken: text("payment_token").notNull(), // The provider's saved payment method, never returned by the API
+  fundId: integer("fund_id").references(() => funds.id, { onDelete: "set null" }), // Designated fund, or null for the default fund
+  status: text("status").notNull().default("active"), // 'active', 'paused', 'cancelled'
+  startsAt: timestamp("starts_at").notNull(), // Runs are counted from here, so monthly gifts keep their day of the month
+  nextRunAt: timestamp("next_run_at").notNull(),
+  failedAttempts: integer("failed_attempts").notNull().default(0), // Failed charges in a row, reset by a successful one
+  lastRunAt: timestamp("last_run_at"),
+  lastFailureReason: text("last_failure_reason"),
+  pausedReason: text("paused_reason"), // 'member', 'admin' or 'payment_failed'
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Payment events table - every provider webhook or confirmation, stored once per provider event ID
+// so retried deliveries don't change a donation twice
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  eventId: text("event_id").notNull(), // The provider's ID for the event
+  donationId: integer("donation_id").references(() => donations.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // e.g. 'payment.completed', 'refund.completed'
+  status: text("status").notNull(), // Donation status the event reports
+  result: text("result").notNull().default("received"), // 'received', 'applied', 'ignored' (not a valid transition), 'unmatched'
+  payload: jsonb("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  providerEvent: unique("payment_events_provider_event_unique").on(table.provider, table.eventId)
+}));
+
 // Media table for Cloudinary assets
 export const media = pgTable("media", {
   id: serial("id").primaryKey(),
@@ -87,11 +512,128 @@ export const activities = pgTable("activities", {
 export const usersRelations = relations(users, ({ many }) => ({
   donations: many(donations),
   activities: many(activities),
-  media: many(media)
+  media: many(media),
+  passwordResetTokens: many(passwordResetTokens),
+  magicLinkTokens: many(magicLinkTokens),
+  sessions: many(sessions),
+  twoFactorRecoveryCodes: many(twoFactorRecoveryCodes),
+  apiTokens: many(apiTokens),
+  identities: many(userIdentities),
+  memberFieldValues: many(memberFieldValues),
+  householdMemberships: many(householdMembers),
+  recurringDonations: many(recurringDonations)
 }));
 
-export const donationsRelations = relations(donations, ({ one }) => ({
-  user: one(users, { fields: [donations.userId], references: [users.id] })
+export const impersonationSessionsRelations = relations(impersonationSessions, ({ one }) => ({
+  owner: one(users, { fields: [impersonationSessions.ownerId], references: [users.id], relationName: "impersonationsStarted" }),
+  targetUser: one(users, { fields: [impersonationSessions.targetUserId], references: [users.id], relationName: "impersonationsReceived" })
+}));
+
+export const rolesRelations = relations(roles, ({ many }) => ({
+  rolePermissions: many(rolePermissions)
+}));
+
+export const permissionsRelations = relations(permissions, ({ many }) => ({
+  rolePermissions: many(rolePermissions)
+}));
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, { fields: [rolePermissions.roleId], references: [roles.id] }),
+  permission: one(permissions, { fields: [rolePermissions.permissionId], references: [permissions.id] })
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodes, ({ one }) => ({
+  user: one(users, { fields: [twoFactorRecoveryCodes.userId], references: [users.id] })
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, { fields: [sessions.userId], references: [users.id] })
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, { fields: [passwordResetTokens.userId], references: [users.id] })
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, { fields: [userIdentities.userId], references: [users.id] })
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, { fields: [apiTokens.userId], references: [users.id] })
+}));
+
+export const magicLinkTokensRelations = relations(magicLinkTokens, ({ one }) => ({
+  user: one(users, { fields: [magicLinkTokens.userId], references: [users.id] })
+}));
+
+export const invitationsRelations = relations(invitations, ({ one }) => ({
+  inviter: one(users, { fields: [invitations.invitedBy], references: [users.id], relationName: "invitationsSent" }),
+  acceptedUser: one(users, { fields: [invitations.acceptedUserId], references: [users.id], relationName: "invitationsAccepted" })
+}));
+
+export const memberFieldDefinitionsRelations = relations(memberFieldDefinitions, ({ many }) => ({
+  values: many(memberFieldValues)
+}));
+
+export const memberFieldValuesRelations = relations(memberFieldValues, ({ one }) => ({
+  user: one(users, { fields: [memberFieldValues.userId], references: [users.id] }),
+  field: one(memberFieldDefinitions, { fields: [memberFieldValues.fieldId], references: [memberFieldDefinitions.id] })
+}));
+
+export const userImportJobsRelations = relations(userImportJobs, ({ one }) => ({
+  creator: one(users, { fields: [userImportJobs.createdBy], references: [users.id] })
+}));
+
+export const userMergesRelations = relations(userMerges, ({ one }) => ({
+  sourceUser: one(users, { fields: [userMerges.sourceUserId], references: [users.id], relationName: "mergedFrom" }),
+  targetUser: one(users, { fields: [userMerges.targetUserId], references: [users.id], relationName: "mergedInto" }),
+  merger: one(users, { fields: [userMerges.mergedBy], references: [users.id], relationName: "mergesPerformed" })
+}));
+
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  creator: one(users, { fields: [households.createdBy], references: [users.id] }),
+  members: many(householdMembers)
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  household: one(households, { fields: [householdMembers.householdId], references: [households.id] }),
+  user: one(users, { fields: [householdMembers.userId], references: [users.id] })
+}));
+
+export const dataExportsRelations = relations(dataExports, ({ one }) => ({
+  user: one(users, { fields: [dataExports.userId], references: [users.id], relationName: "dataExports" }),
+  requester: one(users, { fields: [dataExports.requestedBy], references: [users.id], relationName: "dataExportsRequested" })
+}));
+
+export const ownershipTransfersRelations = relations(ownershipTransfers, ({ one }) => ({
+  fromUser: one(users, { fields: [ownershipTransfers.fromUserId], references: [users.id], relationName: "ownershipTransfersFrom" }),
+  toUser: one(users, { fields: [ownershipTransfers.toUserId], references: [users.id], relationName: "ownershipTransfersTo" })
+}));
+
+export const donationsRelations = relations(donations, ({ one, many }) => ({
+  user: one(users, { fields: [donations.userId], references: [users.id] }),
+  recurringDonation: one(recurringDonations, { fields: [donations.recurringDonationId], references: [recurringDonations.id] }),
+  allocations: many(donationAllocations),
+  paymentEvents: many(paymentEvents)
+}));
+
+export const fundsRelations = relations(funds, ({ many }) => ({
+  allocations: many(donationAllocations)
+}));
+
+export const donationAllocationsRelations = relations(donationAllocations, ({ one }) => ({
+  donation: one(donations, { fields: [donationAllocations.donationId], references: [donations.id] }),
+  fund: one(funds, { fields: [donationAllocations.fundId], references: [funds.id] })
+}));
+
+export const recurringDonationsRelations = relations(recurringDonations, ({ one, many }) => ({
+  user: one(users, { fields: [recurringDonations.userId], references: [users.id] }),
+  fund: one(funds, { fields: [recurringDonations.fundId], references: [funds.id] }),
+  donations: many(donations)
+}));
+
+export const paymentEventsRelations = relations(paymentEvents, ({ one }) => ({
+  donation: one(donations, { fields: [paymentEvents.donationId], references: [donations.id] })
 }));
 
 export const mediaRelations = relations(media, ({ one, many }) => ({
@@ -117,8 +659,54 @@ export const insertUserSchema = createInsertSchema(users, {
   name: (schema) => schema.min(2, "Name must be at least 2 characters"),
   email: (schema) => schema.email("Must provide a valid email"),
   password: (schema) => schema.min(6, "Password must be at least 6 characters"),
-  role: (schema) => z.enum(["user", "owner"]),
+  role: (schema) => schema.min(1, "Role is required"), // Checked against the roles table by the controllers
   status: (schema) => z.enum(["active", "inactive"])
+}).omit({
+  // Maintained by the server, never taken from a request body
+  emailVerifiedAt: true,
+  passwordChangedAt: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorLastUsedStep: true,
+  profilePicturePublicId: true,
+  profilePictureVariants: true,
+  deletedAt: true,
+  statusBeforeDelete: true,
+  anonymizedAt: true
+});
+
+export const insertRoleSchema = createInsertSchema(roles, {
+  name: (schema) => schema.regex(/^[a-z][a-z0-9_]{1,31}$/, "Role name must be 2-32 lowercase letters, numbers or underscores"),
+  description: (schema) => schema.max(200, "Description must be at most 200 characters")
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters").max(100, "Name must be at most 100 characters"),
+  scopes: (schema) => schema.min(1, "Select at least one scope")
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations, {
+  email: (schema) => schema.email("Must provide a valid email"),
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+  role: (schema) => schema.min(1, "Role is required")
+});
+
+export const insertMemberFieldDefinitionSchema = createInsertSchema(memberFieldDefinitions, {
+  key: (schema) => schema.regex(/^[a-z][a-z0-9_]{1,49}$/, "Field key must be 2-50 lowercase letters, numbers or underscores"),
+  label: (schema) => schema.min(1, "Label is required").max(100, "Label must be at most 100 characters"),
+  type: (schema) => z.enum(MEMBER_FIELD_TYPES),
+  visibility: (schema) => z.enum(MEMBER_FIELD_VISIBILITIES),
+  options: (schema) => z.array(z.string().trim().min(1).max(100)).max(100).nullable()
+});
+
+export const insertHouseholdSchema = createInsertSchema(households, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters").max(100, "Name must be at most 100 characters")
+});
+
+export const insertHouseholdMemberSchema = createInsertSchema(householdMembers, {
+  name: (schema) => schema.min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  role: (schema) => z.enum(HOUSEHOLD_MEMBER_ROLES),
+  birthDate: (schema) => z.coerce.date().refine(date => date <= new Date(), "Birth date can't be in the future")
 });
 
 export const insertContactSchema = createInsertSchema(contacts, {
@@ -133,7 +721,21 @@ export const insertDonationSchema = createInsertSchema(donations, {
   transactionId: (schema) => schema.optional(),
   qrImageUrl: (schema) => schema.optional(),
   esewaReference: (schema) => schema.optional(),
-  status: (schema) => z.enum(["pending", "completed", "failed"])
+  status: (schema) => z.enum(["pending", "completed", "failed", "refunded"])
+});
+
+export const insertFundSchema = createInsertSchema(funds, {
+  name: (schema) => schema.trim().min(2, "Name must be at least 2 characters").max(100),
+  description: (schema) => schema.max(1000).optional(),
+  goalAmount: (schema) => schema.refine(val => parseFloat(val) > 0, "Goal must be greater than 0").nullable().optional()
+});
+
+export const insertRecurringDonationSchema = createInsertSchema(recurringDonations, {
+  amount: (schema) => schema.refine(val => parseFloat(val) > 0, "Amount must be greater than 0"),
+  frequency: (schema) => z.enum(RECURRING_DONATION_FREQUENCIES),
+  paymentMethod: (schema) => z.enum(["credit_card", "debit_card", "paypal", "esewa", "bank_qr"]),
+  paymentToken: (schema) => schema.min(1, "Payment method is required").max(500),
+  status: (schema) => z.enum(RECURRING_DONATION_STATUSES)
 });
 
 export const insertMediaSchema = createInsertSchema(media, {
@@ -157,14 +759,82 @@ export const insertActivitySchema = createInsertSchema(activities, {
     "login", "signup", "logout", "media_upload", "donation", 
     "contact_message", "user_update", "user_delete", "event_create", 
     "event_update", "event_delete", "sermon_create", "sermon_update", 
-    "sermon_delete"
+    "sermon_delete", "session_revoke", "login_failed", "account_locked",
+    "role_create", "role_update", "role_delete", "ownership_transfer",
+    "api_token_create", "api_token_revoke", "api_token_used", "identity_link", "identity_unlink",
+    "invitation_send", "invitation_revoke", "invitation_accept",
+    "impersonation_start", "impersonation_stop", "impersonation_request",
+    "user_restore", "user_anonymize", "data_export",
+    "member_field_create", "member_field_update", "member_field_delete",
+    "household_create", "household_update", "household_delete", "user_import", "user_export",
+    "user_merge", "user_merge_undo", "recurring_donation", "fund_create", "fund_update", "fund_delete"
   ]),
   details: (schema) => schema.min(2, "Details must be at least 2 characters")
 });
 
 // Types
 export type User = typeof users.$inferSelect;
-export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertUser = typeof users.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+export type InsertMagicLinkToken = typeof magicLinkTokens.$inferInsert;
+
+export type FailedLogin = typeof failedLogins.$inferSelect;
+export type InsertFailedLogin = typeof failedLogins.$inferInsert;
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+
+export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
+export type InsertImpersonationSession = typeof impersonationSessions.$inferInsert;
+
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
+export type PermissionRecord = typeof permissions.$inferSelect;
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = typeof invitations.$inferInsert;
+
+export type DataExport = typeof dataExports.$inferSelect;
+export type InsertDataExport = typeof dataExports.$inferInsert;
+
+export type MemberFieldDefinition = typeof memberFieldDefinitions.$inferSelect;
+export type InsertMemberFieldDefinition = z.infer<typeof insertMemberFieldDefinitionSchema>;
+
+export type MemberFieldValue = typeof memberFieldValues.$inferSelect;
+export type InsertMemberFieldValue = typeof memberFieldValues.$inferInsert;
+
+export type UserImportJob = typeof userImportJobs.$inferSelect;
+export type InsertUserImportJob = typeof userImportJobs.$inferInsert;
+
+export type UserMerge = typeof userMerges.$inferSelect;
+export type InsertUserMerge = typeof userMerges.$inferInsert;
+
+export type Household = typeof households.$inferSelect;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type InsertHouseholdMember = typeof householdMembers.$inferInsert;
+
+// A parsed ?fields[key]=value filter for the member list
+export type MemberFieldFilter = { fieldId: number; type: string; value: string };
+
+export type OwnershipTransfer = typeof ownershipTransfers.$inferSelect;
+export type InsertOwnershipTransfer = typeof ownershipTransfers.$inferInsert;
 
 export type Contact = typeof contacts.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
@@ -172,6 +842,18 @@ export type InsertContact = z.infer<typeof insertContactSchema>;
 export type Donation = typeof donations.$inferSelect;
 export type InsertDonation = z.infer<typeof insertDonationSchema>;
 
+export type Fund = typeof funds.$inferSelect;
+export type InsertFund = z.infer<typeof insertFundSchema>;
+
+export type DonationAllocation = typeof donationAllocations.$inferSelect;
+export type InsertDonationAllocation = typeof donationAllocations.$inferInsert;
+
+export type RecurringDonation = typeof recurringDonations.$inferSelect;
+export type InsertRecurringDonation = typeof recurringDonations.$inferInsert;
+
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = typeof paymentEvents.$inferInsert;
+
 export type Media = typeof media.$inferSelect;
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
 
@@ -7,6 +7,42 @@ async function seed() {
   try {
     console.log("🌱 Starting database seeding...");
 
+    // Create the permission catalog and built-in roles
+    await db.insert(schema.permissions)
+      .values(Object.entries(schema.PERMISSIONS).map(([key, description]) => ({ key, description })))
+      .onConflictDoNothing({ target: schema.permissions.key });
+
+    const allPermissions = await db.query.permissions.findMany();
+
+    for (const defaultRole of schema.DEFAULT_ROLES) {
+      let role = await db.query.roles.findFirst({
+        where: eq(schema.roles.name, defaultRole.name)
+      });
+
+      if (!role) {
+        console.log(`Creating ${defaultRole.name} role...`);
+
+        [role] = await db.insert(schema.roles).values({
+          name: defaultRole.name,
+          description: defaultRole.description,
+          isSystem: true
+        }).returning();
+
+        const rolePermissions = allPermissions
+          .filter(permission => defaultRole.permissions.includes(permission.key as schema.Permission))
+          .map(permission => ({ roleId: role!.id, permissionId: permission.id }));
+
+        if (rolePermissions.length > 0) {
+          await db.insert(schema.rolePermissions).values(rolePermissions);
+        }
+      }
+    }
+
+    // Accounts created before roles existed used "user" for regular members
+    await db.update(schema.users)
+      .set({ role: schema.DEFAULT_MEMBER_ROLE })
+      .where(eq(schema.users.role, "user"));
+
     // Create the owner account (if it doesn't exist)
     const ownerEmail = "admin@gracechurch.org";
     const existingOwner = await db.query.users.findFirst({
@@ -22,9 +58,10 @@ async function seed() {
         name: "Admin User",
         email: ownerEmail,
         password: hashedPassword,
-        role: "owner",
+        role: schema.OWNER_ROLE,
         status: "active",
         notificationOptIn: true,
+        emailVerifiedAt: new Date(),
         createdAt: new Date()
       });
       
@@ -43,23 +80,25 @@ async function seed() {
           name: "Jane Doe",
           email: "jane.doe@example.com",
           password: await bcrypt.hash("password123", 10),
-          role: "user",
+          role: schema.DEFAULT_MEMBER_ROLE,
           status: "active",
-          notificationOptIn: true
+          notificationOptIn: true,
+          emailVerifiedAt: new Date()
         },
         {
           name: "Michael Smith",
           email: "michael.smith@example.com",
           password: await bcrypt.hash("password123", 10),
-          role: "user",
+          role: schema.DEFAULT_MEMBER_ROLE,
           status: "inactive",
-          notificationOptIn: false
+          notificationOptIn: false,
+          emailVerifiedAt: null
         },
         {
           name: "Sarah Williams",
           email: "sarah.williams@example.com",
           password: await bcrypt.hash("password123", 10),
-          role: "user",
+          role: schema.DEFAULT_MEMBER_ROLE,
           status: "active",
           notificationOptIn: true
         }
@@ -293,6 +332,28 @@ async function seed() {
       console.log("Contacts already exist, skipping creation.");
     }
 
+    // Create the funds gifts can be designated to (the funds migration already creates the default fund)
+    const defaultFunds = [
+      { name: "General Fund", description: "Where the church most needs it", isDefault: true, sortOrder: 0 },
+      { name: "Building Fund", description: "Maintaining and improving our building", restricted: true, sortOrder: 1 },
+      { name: "Missions", description: "Supporting our mission partners", restricted: true, sortOrder: 2 },
+      { name: "Benevolence", description: "Helping families in need", restricted: true, sortOrder: 3 }
+    ];
+    const existingFunds = await db.query.funds.findMany();
+    const missingFunds = defaultFunds.filter(fund =>
+      !existingFunds.some(existing => existing.name === fund.name || (fund.isDefault && existing.isDefault))
+    );
+    
+    if (missingFunds.length > 0) {
+      console.log("Creating funds...");
+      
+      await db.insert(schema.funds).values(missingFunds);
+      
+      console.log(`${missingFunds.length} funds created successfully.`);
+    } else {
+      console.log("Funds already exist, skipping creation.");
+    }
+
     // Create sample donations
     const existingDonations = await db.query.donations.findMany();
     if (existingDonations.length === 0) {
@@ -341,8 +402,20 @@ async function seed() {
         }
       ];
       
+      const generalFund = await db.query.funds.findFirst({
+        where: eq(schema.funds.isDefault, true)
+      });
+      
       for (const donation of sampleDonations) {
-        await db.insert(schema.donations).values(donation);
+        const [newDonation] = await db.insert(schema.donations).values(donation).returning();
+        
+        if (generalFund) {
+          await db.insert(schema.donationAllocations).values({
+            donationId: newDonation.id,
+            fundId: generalFund.id,
+            amount: newDonation.amount
+          });
+        }
       }
       
       console.log(`${sampleDonations.length} sample donations created successfully.`);
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { authenticateJWT } from "../middleware/auth.middleware";
+import { authenticateJWT, requireVerifiedEmail } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { insertSermonSchema } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -78,18 +79,13 @@ export function register() {
     }
   });
 
-  // Create a new sermon (authenticated only)
-  router.post("/", authenticateJWT, async (req, res) => {
+  // Create a new sermon (sermons:write, verified email required)
+  router.post("/", authenticateJWT, requirePermission("sermons:write"), requireVerifiedEmail, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // Check if user is owner (only owner can create sermons)
-      if (req.user.role !== "owner") {
-        return res.status(403).json({ message: "Only the owner can create sermons" });
-      }
-      
       // Validate the request data
       const sermonData = insertSermonSchema.parse(req.body);
       
@@ -126,18 +122,13 @@ export function register() {
     }
   });
 
-  // Update a sermon (authenticated only)
-  router.patch("/:id", authenticateJWT, async (req, res) => {
+  // Update a sermon (sermons:write)
+  router.patch("/:id", authenticateJWT, requirePermission("sermons:write"), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // Check if user is owner (only owner can update sermons)
-      if (req.user.role !== "owner") {
-        return res.status(403).json({ message: "Only the owner can update sermons" });
-      }
-      
       const sermonId = parseInt(req.params.id);
       
       if (isNaN(sermonId)) {
@@ -178,18 +169,13 @@ export function register() {
     }
   });
 
-  // Delete a sermon (authenticated only)
-  router.delete("/:id", authenticateJWT, async (req, res) => {
+  // Delete a sermon (sermons:write)
+  router.delete("/:id", authenticateJWT, requirePermission("sermons:write"), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // Check if user is owner (only owner can delete sermons)
-      if (req.user.role !== "owner") {
-        return res.status(403).json({ message: "Only the owner can delete sermons" });
-      }
-      
       const sermonId = parseInt(req.params.id);
       
       if (isNaN(sermonId)) {
@@ -0,0 +1,75 @@
+import { Request, Response } from "express";
+import { storage } from "../storage";
+import { generateToken } from "./jwt";
+import { createSecureToken } from "./tokens";
+import { logActivity } from "./activity";
+import { recordSuccessfulLogin } from "./login-protection";
+import { clearImpersonationCookie } from "./impersonation";
+import { rotateCsrfToken } from "./csrf";
+import { User } from "@shared/schema";
+
+export const ACCESS_TOKEN_MAX_AGE_MS = 15 * 60 * 1000; // 15 minutes
+export const REFRESH_TOKEN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// The refresh token is only ever needed by the /api/auth endpoints
+const REFRESH_TOKEN_COOKIE_PATH = "/api/auth";
+
+const baseCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const
+};
+
+// Set the access and refresh cookies for a session
+export function setAuthCookies(res: Response, accessToken: string, refreshToken: string) {
+  res.cookie("auth_token", accessToken, {
+    ...baseCookieOptions,
+    maxAge: ACCESS_TOKEN_MAX_AGE_MS
+  });
+  res.cookie("refresh_token", refreshToken, {
+    ...baseCookieOptions,
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_MAX_AGE_MS
+  });
+}
+
+// Clear the authentication cookies, ending any impersonation too
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("auth_token", baseCookieOptions);
+  res.clearCookie("refresh_token", { ...baseCookieOptions, path: REFRESH_TOKEN_COOKIE_PATH });
+  clearImpersonationCookie(res);
+}
+
+// Create a session for the user on this device and sign them in, with a fresh CSRF token
+export async function startSession(req: Request, res: Response, user: { id: number; email: string; role: string }) {
+  const { token: refreshToken, tokenHash } = createSecureToken();
+  
+  const [session] = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: tokenHash,
+    userAgent: req.get("user-agent") || null,
+    ipAddress: req.ip || null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_MAX_AGE_MS)
+  });
+  
+  setAuthCookies(res, generateToken(user, session.id), refreshToken);
+  rotateCsrfToken(res);
+  
+  return session;
+}
+
+// Finish a successful sign-in: clear failure counters, start a session and log the login
+export async function completeLogin(req: Request, res: Response, user: User, method = "password") {
+  await recordSuccessfulLogin(req, user);
+  
+  const session = await startSession(req, res, user);
+  console.log(`Session ${session.id} started for user ID ${user.id}`);
+  
+  await logActivity({
+    userId: user.id,
+    action: "login",
+    details: `User logged in via ${method}: ${user.email}`
+  });
+  
+  return session;
+}
@@ -1,8 +1,71 @@
 import { db } from "@db";
 import * as schema from "@shared/schema";
-import { eq, and, desc, gte, lt, count, sql, like, or, sum, isNull } from "drizzle-orm";
+import { eq, and, desc, gte, lt, count, max, sql, like, or, sum, isNull, isNotNull, ne, inArray } from "drizzle-orm";
 import { activities } from "@shared/schema";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Thrown when a change would leave the church without an active owner
+export class LastOwnerError extends Error {
+  constructor() {
+    super("Cannot demote, deactivate or delete the last owner, transfer ownership first");
+  }
+}
+
+// Locks the active owner rows until the transaction ends, then refuses if the user is the only one left.
+// Concurrent demotions wait on the lock, so two admins can't each remove one of the last two owners.
+async function assertNotLastOwner(tx: Transaction, userId: number) {
+  const owners = await tx.select({ id: schema.users.id })
+    .from(schema.users)
+    .where(and(eq(schema.users.role, schema.OWNER_ROLE), eq(schema.users.status, "active")))
+    .for("update");
+  
+  if (owners.length === 1 && owners[0].id === userId) {
+    throw new LastOwnerError();
+  }
+}
+
+// Save custom field values as part of a larger change; a null value removes it
+async function writeMemberFieldValues(tx: Transaction, userId: number, values: { fieldId: number; value: unknown }[]) {
+  for (const { fieldId, value } of values) {
+    if (value === null) {
+      await tx.delete(schema.memberFieldValues)
+        .where(and(
+          eq(schema.memberFieldValues.userId, userId),
+          eq(schema.memberFieldValues.fieldId, fieldId)
+        ));
+    } else {
+      await tx.insert(schema.memberFieldValues)
+        .values({ userId, fieldId, value })
+        .onConflictDoUpdate({
+          target: [schema.memberFieldValues.userId, schema.memberFieldValues.fieldId],
+          set: { value, updatedAt: new Date() }
+        });
+    }
+  }
+}
+
+type FailedLoginStats = { count: number; lastAt: Date | null };
+export type FailedLoginCounts = { ip: FailedLoginStats; account: FailedLoginStats | null; accountIp: FailedLoginStats | null };
+
+async function getFailedLoginStats(executor: typeof db | Transaction, filters: { ipAddress?: string; userId?: number }, since: Date) {
+  const conditions = [gte(schema.failedLogins.createdAt, since)];
+  
+  if (filters.ipAddress !== undefined) {
+    conditions.push(eq(schema.failedLogins.ipAddress, filters.ipAddress));
+  }
+  
+  if (filters.userId !== undefined) {
+    conditions.push(eq(schema.failedLogins.userId, filters.userId));
+  }
+  
+  const [result] = await executor.select({ count: count(), lastAt: max(schema.failedLogins.createdAt) })
+    .from(schema.failedLogins)
+    .where(and(...conditions));
+  
+  return result;
+}
+
 export const storage = {
   // Activity logging operations
   createActivity: async (activityData: Omit<schema.InsertActivity, "id" | "createdAt">) => {
@@ -117,113 +180,1518 @@ export const storage = {
       .execute();
     
     return {
-      activities: activitiesWithUsers,
-      total: totalResults[0]?.count || 0
+      activities: activitiesWithUsers,
+      total: totalResults[0]?.count || 0
+    };
+  },
+  // User operations
+  // Custom field values are saved in the same transaction, so the user is never created without them
+  createUser: async (user: Omit<schema.InsertUser, "id">, fieldValues: { fieldId: number; value: unknown }[] = []) => {
+    if (fieldValues.length === 0) {
+      return await db.insert(schema.users).values(user).returning();
+    }
+    
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(schema.users).values(user).returning();
+      await writeMemberFieldValues(tx, created[0].id, fieldValues);
+      
+      return created;
+    });
+  },
+  
+  getUserById: async (id: number) => {
+    return await db.query.users.findFirst({
+      where: eq(schema.users.id, id)
+    });
+  },
+  
+  getUserByEmail: async (email: string) => {
+    return await db.query.users.findFirst({
+      where: eq(schema.users.email, email)
+    });
+  },
+  
+  // Throws LastOwnerError instead of demoting or deactivating the last active owner
+  // Custom field values are saved in the same transaction, so a failure leaves neither change behind
+  updateUser: async (id: number, userData: Partial<schema.InsertUser>, fieldValues: { fieldId: number; value: unknown }[] = []) => {
+    const removesOwner = (userData.role !== undefined && userData.role !== schema.OWNER_ROLE) ||
+      (userData.status !== undefined && userData.status !== "active");
+    
+    if (!removesOwner && fieldValues.length === 0) {
+      return await db.update(schema.users)
+        .set(userData)
+        .where(eq(schema.users.id, id))
+        .returning();
+    }
+    
+    return await db.transaction(async (tx) => {
+      if (removesOwner) {
+        await assertNotLastOwner(tx, id);
+      }
+      
+      const updated = Object.keys(userData).length > 0
+        ? await tx.update(schema.users).set(userData).where(eq(schema.users.id, id)).returning()
+        : await tx.select().from(schema.users).where(eq(schema.users.id, id));
+      await writeMemberFieldValues(tx, id, fieldValues);
+      
+      return updated;
+    });
+  },
+  
+  // Soft delete: the user can no longer sign in, but donations and media keep pointing at the row
+  softDeleteUser: async (id: number) => {
+    return await db.transaction(async (tx) => {
+      await assertNotLastOwner(tx, id);
+      
+      const [user] = await tx.update(schema.users)
+        .set({ deletedAt: new Date(), status: "inactive", statusBeforeDelete: sql`${schema.users.status}` })
+        .where(and(eq(schema.users.id, id), isNull(schema.users.deletedAt)))
+        .returning();
+      
+      if (!user) {
+        return null;
+      }
+      
+      await tx.update(schema.sessions)
+        .set({ revokedAt: new Date(), revokedReason: "user_deleted" })
+        .where(and(eq(schema.sessions.userId, id), isNull(schema.sessions.revokedAt)));
+      
+      await tx.update(schema.apiTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(schema.apiTokens.userId, id), isNull(schema.apiTokens.revokedAt)));
+      
+      await tx.update(schema.recurringDonations)
+        .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(schema.recurringDonations.userId, id), ne(schema.recurringDonations.status, "cancelled")));
+      
+      return user;
+    });
+  },
+  
+  restoreUser: async (id: number) => {
+    return await db.update(schema.users)
+      .set({ deletedAt: null, status: sql`COALESCE(${schema.users.statusBeforeDelete}, 'active')`, statusBeforeDelete: null })
+      .where(
+        and(
+          eq(schema.users.id, id),
+          isNotNull(schema.users.deletedAt),
+          isNull(schema.users.anonymizedAt)
+        )
+      )
+      .returning();
+  },
+  
+  // Scrubs personal details and sign-in data but keeps the row, so donation totals are unchanged
+  anonymizeUser: async (id: number, unusablePasswordHash: string) => {
+    return await db.transaction(async (tx) => {
+      await assertNotLastOwner(tx, id);
+      
+      const now = new Date();
+      const anonymizedEmail = `deleted-user-${id}@anonymized.invalid`;
+      
+      const original = await tx.query.users.findFirst({
+        where: eq(schema.users.id, id)
+      });
+      
+      const [user] = await tx.update(schema.users)
+        .set({
+          name: "Deleted User",
+          email: anonymizedEmail,
+          password: unusablePasswordHash,
+          role: schema.DEFAULT_MEMBER_ROLE,
+          status: "inactive",
+          notificationOptIn: false,
+          profilePictureUrl: null,
+          profilePicturePublicId: null,
+          profilePictureVariants: null,
+          emailVerifiedAt: null,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+          deletedAt: sql`COALESCE(${schema.users.deletedAt}, ${now})`,
+          statusBeforeDelete: null,
+          anonymizedAt: now
+        })
+        .where(and(eq(schema.users.id, id), isNull(schema.users.anonymizedAt)))
+        .returning();
+      
+      if (!original || !user) {
+        return null;
+      }
+      
+      // The address also appears in the activity log, contact messages and invitations
+      await tx.update(schema.activities)
+        .set({ details: sql`replace(${schema.activities.details}, ${original.email}, ${anonymizedEmail})` })
+        .where(sql`strpos(${schema.activities.details}, ${original.email}) > 0`);
+      await tx.update(schema.contacts)
+        .set({ name: "Deleted User", email: anonymizedEmail })
+        .where(sql`lower(${schema.contacts.email}) = lower(${original.email})`);
+      await tx.update(schema.invitations)
+        .set({ name: null, email: anonymizedEmail })
+        .where(sql`lower(${schema.invitations.email}) = lower(${original.email})`);
+      
+      // Sessions hold IP addresses and user agents, so remove them rather than revoke
+      await tx.delete(schema.sessions).where(eq(schema.sessions.userId, id));
+      await tx.delete(schema.apiTokens).where(eq(schema.apiTokens.userId, id));
+      await tx.delete(schema.userIdentities).where(eq(schema.userIdentities.userId, id));
+      await tx.delete(schema.twoFactorRecoveryCodes).where(eq(schema.twoFactorRecoveryCodes.userId, id));
+      await tx.delete(schema.passwordResetTokens).where(eq(schema.passwordResetTokens.userId, id));
+      await tx.delete(schema.magicLinkTokens).where(eq(schema.magicLinkTokens.userId, id));
+      await tx.delete(schema.memberFieldValues).where(eq(schema.memberFieldValues.userId, id));
+      await tx.delete(schema.householdMembers).where(eq(schema.householdMembers.userId, id));
+      
+      // Keep the gifts for the totals, but not the saved payment methods
+      await tx.update(schema.recurringDonations)
+        .set({
+          status: "cancelled",
+          paymentToken: "",
+          cancelledAt: sql`COALESCE(${schema.recurringDonations.cancelledAt}, ${now})`,
+          updatedAt: now
+        })
+        .where(eq(schema.recurringDonations.userId, id));
+      
+      return user;
+    });
+  },
+  
+  getAllUsers: async (page = 1, perPage = 10, search = "", verified = "all", deleted = "active", fieldFilters: schema.MemberFieldFilter[] = []) => {
+    const offset = (page - 1) * perPage;
+    
+    let conditions = [];
+    
+    // 'active' hides soft-deleted users, 'deleted' shows only them, 'all' shows both
+    if (deleted === "active") {
+      conditions.push(isNull(schema.users.deletedAt));
+    } else if (deleted === "deleted") {
+      conditions.push(isNotNull(schema.users.deletedAt));
+    }
+    
+    if (search) {
+      conditions.push(
+        or(
+          like(schema.users.name, `%${search}%`),
+          like(schema.users.email, `%${search}%`)
+        )
+      );
+    }
+    
+    if (verified === "verified") {
+      conditions.push(isNotNull(schema.users.emailVerifiedAt));
+    } else if (verified === "unverified") {
+      conditions.push(isNull(schema.users.emailVerifiedAt));
+    }
+    
+    // Custom field filters: text-like fields match partially, multiselect fields contain the
+    // option, everything else must be equal
+    for (const filter of fieldFilters) {
+      const value = schema.memberFieldValues.value;
+      let matches;
+      
+      if (["text", "textarea", "email", "phone"].includes(filter.type)) {
+        // Escape the wildcards so "50%" or "a_b" match literally
+        matches = sql`${value} #>> '{}' ILIKE ${`%${filter.value.replace(/[\\%_]/g, "\\$&")}%`}`;
+      } else if (filter.type === "multiselect") {
+        matches = sql`${value} @> ${JSON.stringify([filter.value])}::jsonb`;
+      } else {
+        matches = sql`${value} #>> '{}' = ${filter.value}`;
+      }
+      
+      conditions.push(sql`EXISTS (
+        SELECT 1 FROM ${schema.memberFieldValues}
+        WHERE ${schema.memberFieldValues.userId} = ${schema.users.id}
+          AND ${schema.memberFieldValues.fieldId} = ${filter.fieldId}
+          AND ${matches}
+      )`);
+    }
+    
+    let whereClause = undefined;
+    if (conditions.length > 0) {
+      whereClause = conditions.length === 1 ? conditions[0] : and(...conditions);
+    }
+    
+    const users = await db.query.users.findMany({
+      where: whereClause,
+      limit: perPage,
+      offset,
+      orderBy: desc(schema.users.createdAt)
+    });
+    
+    const totalResults = await db.select({ count: count() })
+      .from(schema.users)
+      .where(whereClause || sql`1=1`)
+      .execute();
+    
+    return {
+      users,
+      total: totalResults[0]?.count || 0
+    };
+  },
+  
+  // Which of these emails already belong to a user
+  getUsersByEmails: async (emails: string[]) => {
+    if (emails.length === 0) {
+      return [];
+    }
+    
+    return await db.query.users.findMany({
+      where: inArray(sql`lower(${schema.users.email})`, emails.map(email => email.toLowerCase())),
+      columns: { id: true, email: true }
+    });
+  },
+  
+  getTotalUsers: async () => {
+    const result = await db.select({ count: count() })
+      .from(schema.users)
+      .where(isNull(schema.users.deletedAt))
+      .execute();
+    
+    return result[0]?.count || 0;
+  },
+  
+  getUserGrowthPercentage: async () => {
+    const today = new Date();
+    const thirtyDaysAgo = new Date(today);
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    
+    const sixtyDaysAgo = new Date(today);
+    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+    
+    const currentPeriodUsers = await db.select({ count: count() })
+      .from(schema.users)
+      .where(
+        and(
+          gte(schema.users.createdAt, thirtyDaysAgo),
+          lt(schema.users.createdAt, today)
+        )
+      )
+      .execute();
+    
+    const previousPeriodUsers = await db.select({ count: count() })
+      .from(schema.users)
+      .where(
+        and(
+          gte(schema.users.createdAt, sixtyDaysAgo),
+          lt(schema.users.createdAt, thirtyDaysAgo)
+        )
+      )
+      .execute();
+    
+    const currentCount = currentPeriodUsers[0]?.count || 0;
+    const previousCount = previousPeriodUsers[0]?.count || 0;
+    
+    if (previousCount === 0) {
+      return currentCount > 0 ? 100 : 0;
+    }
+    
+    return Math.round(((currentCount - previousCount) / previousCount) * 100);
+  },
+  
+  // Password reset operations
+  createPasswordResetToken: async (tokenData: schema.InsertPasswordResetToken) => {
+    return await db.insert(schema.passwordResetTokens).values(tokenData).returning();
+  },
+  
+  // Marks the token as used and returns it, but only if it is still unused and unexpired
+  consumePasswordResetToken: async (tokenHash: string) => {
+    return await db.update(schema.passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(schema.passwordResetTokens.tokenHash, tokenHash),
+          isNull(schema.passwordResetTokens.usedAt),
+          gte(schema.passwordResetTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+  },
+  
+  deletePasswordResetTokensForUser: async (userId: number) => {
+    return await db.delete(schema.passwordResetTokens)
+      .where(eq(schema.passwordResetTokens.userId, userId))
+      .returning();
+  },
+  
+  // Magic link token operations
+  createMagicLinkToken: async (tokenData: schema.InsertMagicLinkToken) => {
+    return await db.insert(schema.magicLinkTokens).values(tokenData).returning();
+  },
+  
+  // Marks the token as used and returns it, but only if it is still unused and unexpired
+  consumeMagicLinkToken: async (tokenHash: string) => {
+    return await db.update(schema.magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(schema.magicLinkTokens.tokenHash, tokenHash),
+          isNull(schema.magicLinkTokens.usedAt),
+          gte(schema.magicLinkTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+  },
+  
+  deleteMagicLinkTokensForUser: async (userId: number) => {
+    return await db.delete(schema.magicLinkTokens)
+      .where(eq(schema.magicLinkTokens.userId, userId))
+      .returning();
+  },
+  
+  // Failed login operations
+  // Failed logins since a time from an IP address, against an account, or both
+  getFailedLoginStats: async (filters: { ipAddress?: string; userId?: number }, since: Date) => {
+    return await getFailedLoginStats(db, filters, since);
+  },
+  
+  // Record a login attempt as failed before the password is checked, so parallel attempts are all counted.
+  // Runs under a lock on the account (and the IP address), and only inserts if allow() accepts the
+  // failures counted so far; a successful attempt removes its row again with deleteFailedLoginById.
+  reserveFailedLogin: async (
+    failedLoginData: { userId?: number; ipAddress: string },
+    since: Date,
+    allow: (stats: FailedLoginCounts) => boolean
+  ) => {
+    return await db.transaction(async (tx) => {
+      if (failedLoginData.userId !== undefined) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`failed_login:user:${failedLoginData.userId}`}))`);
+      }
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`failed_login:ip:${failedLoginData.ipAddress}`}))`);
+      
+      const { userId, ipAddress } = failedLoginData;
+      const stats: FailedLoginCounts = {
+        ip: await getFailedLoginStats(tx, { ipAddress }, since),
+        account: userId !== undefined ? await getFailedLoginStats(tx, { userId }, since) : null,
+        accountIp: userId !== undefined ? await getFailedLoginStats(tx, { userId, ipAddress }, since) : null
+      };
+      
+      if (!allow(stats)) {
+        return { stats, failedLogin: null };
+      }
+      
+      const [failedLogin] = await tx.insert(schema.failedLogins).values(failedLoginData).returning();
+      return { stats, failedLogin };
+    });
+  },
+  
+  deleteFailedLoginById: async (id: number) => {
+    return await db.delete(schema.failedLogins).where(eq(schema.failedLogins.id, id));
+  },
+  
+  deleteFailedLogins: async (filters: { userId: number; ipAddress?: string }) => {
+    const conditions = [eq(schema.failedLogins.userId, filters.userId)];
+    
+    if (filters.ipAddress) {
+      conditions.push(eq(schema.failedLogins.ipAddress, filters.ipAddress));
+    }
+    
+    return await db.delete(schema.failedLogins).where(and(...conditions));
+  },
+  
+  deleteFailedLoginsBefore: async (before: Date) => {
+    return await db.delete(schema.failedLogins).where(lt(schema.failedLogins.createdAt, before));
+  },
+  
+  // Session operations
+  createSession: async (sessionData: schema.InsertSession) => {
+    return await db.insert(schema.sessions).values(sessionData).returning();
+  },
+  
+  getSessionById: async (id: number) => {
+    return await db.query.sessions.findFirst({
+      where: eq(schema.sessions.id, id)
+    });
+  },
+  
+  getSessionByRefreshTokenHash: async (refreshTokenHash: string) => {
+    return await db.query.sessions.findFirst({
+      where: eq(schema.sessions.refreshTokenHash, refreshTokenHash)
+    });
+  },
+  
+  getSessionByPreviousRefreshTokenHash: async (refreshTokenHash: string) => {
+    return await db.query.sessions.findFirst({
+      where: eq(schema.sessions.previousRefreshTokenHash, refreshTokenHash)
+    });
+  },
+  
+  // Swaps in a new refresh token, but only if the old one is still current (guards against concurrent rotation).
+  // lastUsedAt doubles as the rotation time for the refresh grace window
+  rotateSessionRefreshToken: async (id: number, currentHash: string, newHash: string) => {
+    return await db.update(schema.sessions)
+      .set({
+        refreshTokenHash: newHash,
+        previousRefreshTokenHash: currentHash,
+        lastUsedAt: new Date()
+      })
+      .where(
+        and(
+          eq(schema.sessions.id, id),
+          eq(schema.sessions.refreshTokenHash, currentHash),
+          isNull(schema.sessions.revokedAt)
+        )
+      )
+      .returning();
+  },
+  
+  getActiveSessionsByUserId: async (userId: number) => {
+    return await db.query.sessions.findMany({
+      where: and(
+        eq(schema.sessions.userId, userId),
+        isNull(schema.sessions.revokedAt),
+        gte(schema.sessions.expiresAt, new Date())
+      ),
+      orderBy: desc(schema.sessions.lastUsedAt)
+    });
+  },
+  
+  revokeSession: async (id: number, reason: string) => {
+    return await db.update(schema.sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(schema.sessions.id, id), isNull(schema.sessions.revokedAt)))
+      .returning();
+  },
+  
+  // Revokes every active session of a user, optionally keeping the current one
+  revokeUserSessions: async (userId: number, reason: string, exceptSessionId?: number) => {
+    const conditions = [
+      eq(schema.sessions.userId, userId),
+      isNull(schema.sessions.revokedAt)
+    ];
+    
+    if (exceptSessionId) {
+      conditions.push(ne(schema.sessions.id, exceptSessionId));
+    }
+    
+    return await db.update(schema.sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(...conditions))
+      .returning();
+  },
+  
+  // Impersonation operations
+  createImpersonationSession: async (impersonationData: schema.InsertImpersonationSession) => {
+    return await db.insert(schema.impersonationSessions).values(impersonationData).returning();
+  },
+  
+  getImpersonationSessionById: async (id: number) => {
+    return await db.query.impersonationSessions.findFirst({
+      where: eq(schema.impersonationSessions.id, id)
+    });
+  },
+  
+  getRecentImpersonationSessions: async (limit = 50) => {
+    return await db.query.impersonationSessions.findMany({
+      orderBy: desc(schema.impersonationSessions.createdAt),
+      limit,
+      with: {
+        owner: {
+          columns: { id: true, name: true, email: true }
+        },
+        targetUser: {
+          columns: { id: true, name: true, email: true }
+        }
+      }
+    });
+  },
+  
+  endImpersonationSession: async (id: number) => {
+    return await db.update(schema.impersonationSessions)
+      .set({ endedAt: new Date() })
+      .where(
+        and(
+          eq(schema.impersonationSessions.id, id),
+          isNull(schema.impersonationSessions.endedAt)
+        )
+      )
+      .returning();
+  },
+  
+  // Ends any impersonation still running from the owner's session, e.g. before starting a new one
+  endImpersonationSessionsForOwnerSession: async (ownerSessionId: number) => {
+    return await db.update(schema.impersonationSessions)
+      .set({ endedAt: new Date() })
+      .where(
+        and(
+          eq(schema.impersonationSessions.ownerSessionId, ownerSessionId),
+          isNull(schema.impersonationSessions.endedAt)
+        )
+      )
+      .returning();
+  },
+  
+  // Role and permission operations
+  getAllRoles: async () => {
+    const roles = await db.query.roles.findMany({
+      orderBy: schema.roles.id,
+      with: {
+        rolePermissions: {
+          with: {
+            permission: true
+          }
+        }
+      }
+    });
+    
+    const userCounts = await db.select({ role: schema.users.role, count: count() })
+      .from(schema.users)
+      .groupBy(schema.users.role)
+      .execute();
+    
+    return roles.map(({ rolePermissions, ...role }) => ({
+      ...role,
+      permissions: rolePermissions.map(rp => rp.permission.key),
+      userCount: Number(userCounts.find(uc => uc.role === role.name)?.count || 0)
+    }));
+  },
+  
+  getRoleById: async (id: number) => {
+    return await db.query.roles.findFirst({
+      where: eq(schema.roles.id, id)
+    });
+  },
+  
+  getRoleByName: async (name: string) => {
+    return await db.query.roles.findFirst({
+      where: eq(schema.roles.name, name)
+    });
+  },
+  
+  createRole: async (roleData: Omit<schema.InsertRole, "id">) => {
+    return await db.insert(schema.roles).values(roleData).returning();
+  },
+  
+  updateRole: async (id: number, roleData: Partial<schema.Role>) => {
+    return await db.update(schema.roles)
+      .set(roleData)
+      .where(eq(schema.roles.id, id))
+      .returning();
+  },
+  
+  deleteRole: async (id: number) => {
+    return await db.delete(schema.roles)
+      .where(eq(schema.roles.id, id))
+      .returning();
+  },
+  
+  // Replaces the role's permissions with the given permission keys
+  setRolePermissions: async (roleId: number, permissionKeys: string[]) => {
+    return await db.transaction(async (tx) => {
+      const permissionRows = permissionKeys.length > 0
+        ? await tx.select().from(schema.permissions).where(inArray(schema.permissions.key, permissionKeys))
+        : [];
+      
+      await tx.delete(schema.rolePermissions)
+        .where(eq(schema.rolePermissions.roleId, roleId));
+      
+      if (permissionRows.length > 0) {
+        await tx.insert(schema.rolePermissions)
+          .values(permissionRows.map(permission => ({ roleId, permissionId: permission.id })));
+      }
+      
+      return permissionRows.map(permission => permission.key);
+    });
+  },
+  
+  getPermissionKeysForRole: async (roleName: string) => {
+    const rows = await db.select({ key: schema.permissions.key })
+      .from(schema.rolePermissions)
+      .innerJoin(schema.roles, eq(schema.rolePermissions.roleId, schema.roles.id))
+      .innerJoin(schema.permissions, eq(schema.rolePermissions.permissionId, schema.permissions.id))
+      .where(eq(schema.roles.name, roleName))
+      .execute();
+    
+    return rows.map(row => row.key);
+  },
+  
+  getAllPermissions: async () => {
+    return await db.query.permissions.findMany({
+      orderBy: schema.permissions.key
+    });
+  },
+  
+  // Inserts any permissions from the catalog that don't exist yet
+  ensurePermissions: async (catalog: Record<string, string>) => {
+    return await db.insert(schema.permissions)
+      .values(Object.entries(catalog).map(([key, description]) => ({ key, description })))
+      .onConflictDoNothing({ target: schema.permissions.key })
+      .returning();
+  },
+  
+  countUsersWithRole: async (roleName: string) => {
+    const result = await db.select({ count: count() })
+      .from(schema.users)
+      .where(eq(schema.users.role, roleName))
+      .execute();
+    
+    return result[0]?.count || 0;
+  },
+  
+  // User identity (OIDC) operations
+  getUserIdentity: async (provider: string, subject: string) => {
+    return await db.query.userIdentities.findFirst({
+      where: and(
+        eq(schema.userIdentities.provider, provider),
+        eq(schema.userIdentities.subject, subject)
+      )
+    });
+  },
+  
+  getUserIdentitiesByUserId: async (userId: number) => {
+    return await db.query.userIdentities.findMany({
+      where: eq(schema.userIdentities.userId, userId),
+      orderBy: schema.userIdentities.createdAt
+    });
+  },
+  
+  createUserIdentity: async (identityData: schema.InsertUserIdentity) => {
+    return await db.insert(schema.userIdentities).values(identityData).returning();
+  },
+  
+  touchUserIdentity: async (id: number) => {
+    return await db.update(schema.userIdentities)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(schema.userIdentities.id, id));
+  },
+  
+  deleteUserIdentity: async (id: number, userId: number) => {
+    return await db.delete(schema.userIdentities)
+      .where(
+        and(
+          eq(schema.userIdentities.id, id),
+          eq(schema.userIdentities.userId, userId)
+        )
+      )
+      .returning();
+  },
+  
+  // API token operations
+  createApiToken: async (tokenData: schema.InsertApiToken) => {
+    return await db.insert(schema.apiTokens).values(tokenData).returning();
+  },
+  
+  getApiTokenByHash: async (tokenHash: string) => {
+    return await db.query.apiTokens.findFirst({
+      where: eq(schema.apiTokens.tokenHash, tokenHash)
+    });
+  },
+  
+  // Lists tokens without their hashes; all users' tokens when no user ID is given
+  getApiTokens: async (userId?: number) => {
+    return await db.query.apiTokens.findMany({
+      where: userId !== undefined ? eq(schema.apiTokens.userId, userId) : undefined,
+      orderBy: desc(schema.apiTokens.createdAt),
+      columns: {
+        tokenHash: false
+      },
+      with: {
+        user: {
+          columns: { id: true, name: true, email: true }
+        }
+      }
+    });
+  },
+  
+  touchApiToken: async (id: number) => {
+    return await db.update(schema.apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(schema.apiTokens.id, id));
+  },
+  
+  // Revokes the token if it isn't already, optionally only when it belongs to the given user
+  revokeApiToken: async (id: number, userId?: number) => {
+    const conditions = [eq(schema.apiTokens.id, id), isNull(schema.apiTokens.revokedAt)];
+    
+    if (userId !== undefined) {
+      conditions.push(eq(schema.apiTokens.userId, userId));
+    }
+    
+    return await db.update(schema.apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+  },
+  
+  // Invitation operations
+  getAllInvitations: async (page = 1, perPage = 10, status = "all") => {
+    const offset = (page - 1) * perPage;
+    const conditions = [];
+    
+    // Expired invitations are still stored as pending, so filter on the expiry as well
+    if (status === "pending") {
+      conditions.push(eq(schema.invitations.status, "pending"), gte(schema.invitations.expiresAt, new Date()));
+    } else if (status === "expired") {
+      conditions.push(eq(schema.invitations.status, "pending"), lt(schema.invitations.expiresAt, new Date()));
+    } else if (status !== "all") {
+      conditions.push(eq(schema.invitations.status, status));
+    }
+    
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const invitations = await db.query.invitations.findMany({
+      where: whereClause,
+      orderBy: desc(schema.invitations.createdAt),
+      limit: perPage,
+      offset,
+      columns: {
+        tokenHash: false
+      },
+      with: {
+        inviter: {
+          columns: { id: true, name: true, email: true }
+        }
+      }
+    });
+    
+    const totalResult = await db.select({ count: count() })
+      .from(schema.invitations)
+      .where(whereClause)
+      .execute();
+    
+    return { invitations, total: totalResult[0]?.count || 0 };
+  },
+  
+  getInvitationById: async (id: number) => {
+    return await db.query.invitations.findFirst({
+      where: eq(schema.invitations.id, id)
+    });
+  },
+  
+  getInvitationByTokenHash: async (tokenHash: string) => {
+    return await db.query.invitations.findFirst({
+      where: eq(schema.invitations.tokenHash, tokenHash)
+    });
+  },
+  
+  getPendingInvitationsByEmails: async (emails: string[]) => {
+    if (emails.length === 0) {
+      return [];
+    }
+    
+    return await db.query.invitations.findMany({
+      where: and(
+        inArray(sql`lower(${schema.invitations.email})`, emails.map(email => email.toLowerCase())),
+        eq(schema.invitations.status, "pending"),
+        gte(schema.invitations.expiresAt, new Date())
+      ),
+      columns: { id: true, email: true }
+    });
+  },
+  
+  getPendingInvitationByEmail: async (email: string) => {
+    return await db.query.invitations.findFirst({
+      where: and(
+        eq(schema.invitations.email, email),
+        eq(schema.invitations.status, "pending"),
+        gte(schema.invitations.expiresAt, new Date())
+      )
+    });
+  },
+  
+  createInvitation: async (invitationData: schema.InsertInvitation) => {
+    return await db.insert(schema.invitations).values(invitationData).returning();
+  },
+  
+  updateInvitation: async (id: number, invitationData: Partial<schema.Invitation>) => {
+    return await db.update(schema.invitations)
+      .set(invitationData)
+      .where(eq(schema.invitations.id, id))
+      .returning();
+  },
+  
+  // Creates the invited user and marks the invitation accepted in one transaction,
+  // only if the invitation is still pending and unexpired
+  acceptInvitation: async (tokenHash: string, userData: Omit<schema.InsertUser, "id">) => {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx.update(schema.invitations)
+        .set({ status: "accepted", acceptedAt: new Date() })
+        .where(
+          and(
+            eq(schema.invitations.tokenHash, tokenHash),
+            eq(schema.invitations.status, "pending"),
+            gte(schema.invitations.expiresAt, new Date())
+          )
+        )
+        .returning();
+      
+      if (!invitation) {
+        return null;
+      }
+      
+      const [user] = await tx.insert(schema.users).values({
+        ...userData,
+        email: invitation.email,
+        role: invitation.role
+      }).returning();
+      
+      await tx.update(schema.invitations)
+        .set({ acceptedUserId: user.id })
+        .where(eq(schema.invitations.id, invitation.id));
+      
+      return { invitation, user };
+    });
+  },
+  
+  // Data export operations
+  createDataExport: async (exportData: schema.InsertDataExport) => {
+    return await db.insert(schema.dataExports).values(exportData).returning();
+  },
+  
+  getDataExportById: async (id: number) => {
+    return await db.query.dataExports.findFirst({
+      where: eq(schema.dataExports.id, id)
+    });
+  },
+  
+  // The newest export of the user's data that is still in progress or downloadable
+  getCurrentDataExport: async (userId: number) => {
+    return await db.query.dataExports.findFirst({
+      where: and(
+        eq(schema.dataExports.userId, userId),
+        inArray(schema.dataExports.status, ["pending", "processing", "ready"])
+      ),
+      orderBy: desc(schema.dataExports.createdAt)
+    });
+  },
+  
+  // Mark the user's exports that were never finished (e.g. the server restarted mid-build) as failed
+  failStaleDataExports: async (userId: number, startedBefore: Date) => {
+    return await db.update(schema.dataExports)
+      .set({ status: "failed", error: "The export timed out" })
+      .where(and(
+        eq(schema.dataExports.userId, userId),
+        inArray(schema.dataExports.status, ["pending", "processing"]),
+        lt(schema.dataExports.createdAt, startedBefore)
+      ))
+      .returning();
+  },
+  
+  updateDataExport: async (id: number, exportData: Partial<schema.DataExport>) => {
+    return await db.update(schema.dataExports)
+      .set(exportData)
+      .where(eq(schema.dataExports.id, id))
+      .returning();
+  },
+  
+  getExpiredDataExports: async () => {
+    return await db.query.dataExports.findMany({
+      where: and(
+        eq(schema.dataExports.status, "ready"),
+        lt(schema.dataExports.expiresAt, new Date())
+      )
+    });
+  },
+  
+  // Duplicate detection and merge operations
+  getUsersForDuplicateCheck: async () => {
+    return await db.select({
+      id: schema.users.id,
+      name: schema.users.name,
+      email: schema.users.email,
+      createdAt: schema.users.createdAt
+    })
+      .from(schema.users)
+      .where(isNull(schema.users.deletedAt))
+      .execute();
+  },
+  
+  // Values of every custom field of type 'phone'
+  getPhoneFieldValues: async () => {
+    return await db.select({ userId: schema.memberFieldValues.userId, value: schema.memberFieldValues.value })
+      .from(schema.memberFieldValues)
+      .innerJoin(schema.memberFieldDefinitions, eq(schema.memberFieldValues.fieldId, schema.memberFieldDefinitions.id))
+      .where(eq(schema.memberFieldDefinitions.type, "phone"))
+      .execute();
+  },
+  
+  getHouseholdMembershipsOfUsers: async () => {
+    return await db.select({ userId: schema.householdMembers.userId, householdId: schema.householdMembers.householdId })
+      .from(schema.householdMembers)
+      .where(isNotNull(schema.householdMembers.userId))
+      .execute();
+  },
+  
+  getContactSenders: async () => {
+    return await db.selectDistinct({ name: schema.contacts.name, email: schema.contacts.email })
+      .from(schema.contacts)
+      .execute();
+  },
+  
+  // Move the source user's donations, recurring gifts, activities, media and sign-in identities to the target and
+  // soft delete the source. Household membership and custom field values move too unless the target already has
+  // their own. The moved row IDs are kept on the merge record so it can be undone.
+  mergeUsers: async (sourceUserId: number, targetUserId: number, mergedBy: number | undefined, undoExpiresAt: Date) => {
+    return await db.transaction(async (tx) => {
+      const source = await tx.query.users.findFirst({
+        where: eq(schema.users.id, sourceUserId)
+      });
+      
+      // The conditional update makes sure two concurrent merges of the same user can't both succeed
+      const [deletedSource] = await tx.update(schema.users)
+        .set({ deletedAt: new Date(), status: "inactive", statusBeforeDelete: sql`${schema.users.status}` })
+        .where(and(eq(schema.users.id, sourceUserId), isNull(schema.users.deletedAt)))
+        .returning();
+      
+      if (!source || !deletedSource) {
+        return null;
+      }
+      
+      const movedDonations = await tx.update(schema.donations)
+        .set({ userId: targetUserId })
+        .where(eq(schema.donations.userId, sourceUserId))
+        .returning({ id: schema.donations.id });
+      
+      const movedRecurringDonations = await tx.update(schema.recurringDonations)
+        .set({ userId: targetUserId, updatedAt: new Date() })
+        .where(eq(schema.recurringDonations.userId, sourceUserId))
+        .returning({ id: schema.recurringDonations.id });
+      
+      const movedActivities = await tx.update(schema.activities)
+        .set({ userId: targetUserId })
+        .where(eq(schema.activities.userId, sourceUserId))
+        .returning({ id: schema.activities.id });
+      
+      const movedMedia = await tx.update(schema.media)
+        .set({ uploadedBy: targetUserId })
+        .where(eq(schema.media.uploadedBy, sourceUserId))
+        .returning({ id: schema.media.id });
+      
+      const movedIdentities = await tx.update(schema.userIdentities)
+        .set({ userId: targetUserId })
+        .where(eq(schema.userIdentities.userId, sourceUserId))
+        .returning({ id: schema.userIdentities.id });
+      
+      // A user belongs to at most one household
+      const movedHouseholdMembers = await tx.update(schema.householdMembers)
+        .set({ userId: targetUserId })
+        .where(and(
+          eq(schema.householdMembers.userId, sourceUserId),
+          sql`NOT EXISTS (SELECT 1 FROM ${schema.householdMembers} WHERE ${schema.householdMembers.userId} = ${targetUserId})`
+        ))
+        .returning({ id: schema.householdMembers.id });
+      
+      // Values the target already has are kept
+      const movedMemberFields = await tx.update(schema.memberFieldValues)
+        .set({ userId: targetUserId })
+        .where(and(
+          eq(schema.memberFieldValues.userId, sourceUserId),
+          sql`${schema.memberFieldValues.fieldId} NOT IN (
+            SELECT ${schema.memberFieldValues.fieldId} FROM ${schema.memberFieldValues}
+            WHERE ${schema.memberFieldValues.userId} = ${targetUserId}
+          )`
+        ))
+        .returning({ fieldId: schema.memberFieldValues.fieldId });
+      
+      await tx.update(schema.sessions)
+        .set({ revokedAt: new Date(), revokedReason: "user_merged" })
+        .where(and(eq(schema.sessions.userId, sourceUserId), isNull(schema.sessions.revokedAt)));
+      
+      await tx.update(schema.apiTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(schema.apiTokens.userId, sourceUserId), isNull(schema.apiTokens.revokedAt)));
+      
+      const [merge] = await tx.insert(schema.userMerges).values({
+        sourceUserId,
+        targetUserId,
+        mergedBy,
+        movedDonationIds: movedDonations.map(row => row.id),
+        movedActivityIds: movedActivities.map(row => row.id),
+        movedMediaIds: movedMedia.map(row => row.id),
+        movedRecurringDonationIds: movedRecurringDonations.map(row => row.id),
+        movedHouseholdMemberIds: movedHouseholdMembers.map(row => row.id),
+        movedMemberFieldIds: movedMemberFields.map(row => row.fieldId),
+        movedIdentityIds: movedIdentities.map(row => row.id),
+        sourcePreviousStatus: source.status,
+        undoExpiresAt
+      }).returning();
+      
+      return merge;
+    });
+  },
+  
+  getUserMergeById: async (id: number) => {
+    return await db.query.userMerges.findFirst({
+      where: eq(schema.userMerges.id, id)
+    });
+  },
+  
+  // The merge that deleted this user, while it can still be undone
+  getUndoableUserMergeBySourceUserId: async (sourceUserId: number) => {
+    return await db.query.userMerges.findFirst({
+      where: and(
+        eq(schema.userMerges.sourceUserId, sourceUserId),
+        isNull(schema.userMerges.undoneAt),
+        gte(schema.userMerges.undoExpiresAt, new Date())
+      )
+    });
+  },
+  
+  getRecentUserMerges: async (limit = 50) => {
+    return await db.query.userMerges.findMany({
+      with: {
+        sourceUser: { columns: { id: true, name: true, email: true } },
+        targetUser: { columns: { id: true, name: true, email: true } },
+        merger: { columns: { id: true, name: true, email: true } }
+      },
+      orderBy: desc(schema.userMerges.createdAt),
+      limit
+    });
+  },
+  
+  // Move the recorded rows back (only those still on the target) and restore the source user
+  undoUserMerge: async (id: number, undoneBy: number | undefined) => {
+    return await db.transaction(async (tx) => {
+      const [merge] = await tx.update(schema.userMerges)
+        .set({ undoneAt: new Date(), undoneBy })
+        .where(and(
+          eq(schema.userMerges.id, id),
+          isNull(schema.userMerges.undoneAt),
+          gte(schema.userMerges.undoExpiresAt, new Date())
+        ))
+        .returning();
+      
+      if (!merge) {
+        return null;
+      }
+      
+      if (merge.movedDonationIds.length > 0) {
+        await tx.update(schema.donations)
+          .set({ userId: merge.sourceUserId })
+          .where(and(inArray(schema.donations.id, merge.movedDonationIds), eq(schema.donations.userId, merge.targetUserId)));
+      }
+      
+      if (merge.movedRecurringDonationIds.length > 0) {
+        await tx.update(schema.recurringDonations)
+          .set({ userId: merge.sourceUserId, updatedAt: new Date() })
+          .where(and(
+            inArray(schema.recurringDonations.id, merge.movedRecurringDonationIds),
+            eq(schema.recurringDonations.userId, merge.targetUserId)
+          ));
+      }
+      
+      if (merge.movedActivityIds.length > 0) {
+        await tx.update(schema.activities)
+          .set({ userId: merge.sourceUserId })
+          .where(and(inArray(schema.activities.id, merge.movedActivityIds), eq(schema.activities.userId, merge.targetUserId)));
+      }
+      
+      if (merge.movedMediaIds.length > 0) {
+        await tx.update(schema.media)
+          .set({ uploadedBy: merge.sourceUserId })
+          .where(and(inArray(schema.media.id, merge.movedMediaIds), eq(schema.media.uploadedBy, merge.targetUserId)));
+      }
+      
+      if (merge.movedIdentityIds.length > 0) {
+        await tx.update(schema.userIdentities)
+          .set({ userId: merge.sourceUserId })
+          .where(and(inArray(schema.userIdentities.id, merge.movedIdentityIds), eq(schema.userIdentities.userId, merge.targetUserId)));
+      }
+      
+      if (merge.movedHouseholdMemberIds.length > 0) {
+        await tx.update(schema.householdMembers)
+          .set({ userId: merge.sourceUserId })
+          .where(and(
+            inArray(schema.householdMembers.id, merge.movedHouseholdMemberIds),
+            eq(schema.householdMembers.userId, merge.targetUserId)
+          ));
+      }
+      
+      if (merge.movedMemberFieldIds.length > 0) {
+        await tx.update(schema.memberFieldValues)
+          .set({ userId: merge.sourceUserId })
+          .where(and(
+            inArray(schema.memberFieldValues.fieldId, merge.movedMemberFieldIds),
+            eq(schema.memberFieldValues.userId, merge.targetUserId)
+          ));
+      }
+      
+      await tx.update(schema.users)
+        .set({ deletedAt: null, status: merge.sourcePreviousStatus, statusBeforeDelete: null })
+        .where(eq(schema.users.id, merge.sourceUserId));
+      
+      return merge;
+    });
+  },
+  
+  // User import job operations
+  createUserImportJob: async (jobData: schema.InsertUserImportJob) => {
+    return await db.insert(schema.userImportJobs).values(jobData).returning();
+  },
+  
+  getUserImportJobById: async (id: number) => {
+    return await db.query.userImportJobs.findFirst({
+      where: eq(schema.userImportJobs.id, id)
+    });
+  },
+  
+  getRecentUserImportJobs: async (limit = 20) => {
+    return await db.query.userImportJobs.findMany({
+      orderBy: desc(schema.userImportJobs.createdAt),
+      limit
+    });
+  },
+  
+  updateUserImportJob: async (id: number, jobData: Partial<schema.UserImportJob>) => {
+    return await db.update(schema.userImportJobs)
+      .set(jobData)
+      .where(eq(schema.userImportJobs.id, id))
+      .returning();
+  },
+  
+  // Member field operations
+  getMemberFieldDefinitions: async () => {
+    return await db.query.memberFieldDefinitions.findMany({
+      orderBy: [schema.memberFieldDefinitions.sortOrder, schema.memberFieldDefinitions.id]
+    });
+  },
+  
+  getMemberFieldDefinitionById: async (id: number) => {
+    return await db.query.memberFieldDefinitions.findFirst({
+      where: eq(schema.memberFieldDefinitions.id, id)
+    });
+  },
+  
+  getMemberFieldDefinitionByKey: async (key: string) => {
+    return await db.query.memberFieldDefinitions.findFirst({
+      where: eq(schema.memberFieldDefinitions.key, key)
+    });
+  },
+  
+  createMemberFieldDefinition: async (fieldData: schema.InsertMemberFieldDefinition) => {
+    return await db.insert(schema.memberFieldDefinitions).values(fieldData).returning();
+  },
+  
+  updateMemberFieldDefinition: async (id: number, fieldData: Partial<schema.InsertMemberFieldDefinition>) => {
+    return await db.update(schema.memberFieldDefinitions)
+      .set({ ...fieldData, updatedAt: new Date() })
+      .where(eq(schema.memberFieldDefinitions.id, id))
+      .returning();
+  },
+  
+  // Deleting a field also deletes every user's value for it
+  deleteMemberFieldDefinition: async (id: number) => {
+    return await db.delete(schema.memberFieldDefinitions)
+      .where(eq(schema.memberFieldDefinitions.id, id))
+      .returning();
+  },
+  
+  countMemberFieldValues: async (fieldId: number) => {
+    const result = await db.select({ count: count() })
+      .from(schema.memberFieldValues)
+      .where(eq(schema.memberFieldValues.fieldId, fieldId))
+      .execute();
+    
+    return result[0]?.count || 0;
+  },
+  
+  getMemberFieldValues: async (userId: number) => {
+    return await db.query.memberFieldValues.findMany({
+      where: eq(schema.memberFieldValues.userId, userId)
+    });
+  },
+  
+  getMemberFieldValuesForUsers: async (userIds: number[]) => {
+    if (userIds.length === 0) {
+      return [];
+    }
+    
+    return await db.query.memberFieldValues.findMany({
+      where: inArray(schema.memberFieldValues.userId, userIds)
+    });
+  },
+  
+  // Household operations
+  getAllHouseholds: async (page = 1, perPage = 10, search = "") => {
+    const offset = (page - 1) * perPage;
+    const whereClause = search ? like(schema.households.name, `%${search}%`) : undefined;
+    
+    const households = await db.query.households.findMany({
+      where: whereClause,
+      with: {
+        members: {
+          with: { user: { columns: { id: true, name: true, email: true } } }
+        }
+      },
+      limit: perPage,
+      offset,
+      orderBy: schema.households.name
+    });
+    
+    const totalResults = await db.select({ count: count() })
+      .from(schema.households)
+      .where(whereClause || sql`1=1`)
+      .execute();
+    
+    return {
+      households,
+      total: totalResults[0]?.count || 0
+    };
+  },
+  
+  getHouseholdById: async (id: number) => {
+    return await db.query.households.findFirst({
+      where: eq(schema.households.id, id),
+      with: {
+        members: {
+          with: { user: { columns: { id: true, name: true, email: true, profilePictureUrl: true } } },
+          orderBy: schema.householdMembers.id
+        }
+      }
+    });
+  },
+  
+  getHouseholdMembershipByUserId: async (userId: number) => {
+    return await db.query.householdMembers.findFirst({
+      where: eq(schema.householdMembers.userId, userId)
+    });
+  },
+  
+  // Create a household, optionally with its first member (e.g. the user creating it as head)
+  createHousehold: async (householdData: schema.InsertHousehold, firstMember?: Omit<schema.InsertHouseholdMember, "householdId">) => {
+    return await db.transaction(async (tx) => {
+      const [household] = await tx.insert(schema.households).values(householdData).returning();
+      
+      if (firstMember) {
+        await tx.insert(schema.householdMembers).values({ ...firstMember, householdId: household.id });
+      }
+      
+      return household;
+    });
+  },
+  
+  updateHousehold: async (id: number, householdData: Partial<schema.InsertHousehold>) => {
+    return await db.update(schema.households)
+      .set({ ...householdData, updatedAt: new Date() })
+      .where(eq(schema.households.id, id))
+      .returning();
+  },
+  
+  deleteHousehold: async (id: number) => {
+    return await db.delete(schema.households)
+      .where(eq(schema.households.id, id))
+      .returning();
+  },
+  
+  getHouseholdMemberById: async (id: number) => {
+    return await db.query.householdMembers.findFirst({
+      where: eq(schema.householdMembers.id, id)
+    });
+  },
+  
+  addHouseholdMember: async (memberData: schema.InsertHouseholdMember) => {
+    return await db.insert(schema.householdMembers).values(memberData).returning();
+  },
+  
+  updateHouseholdMember: async (id: number, householdId: number, memberData: Partial<schema.InsertHouseholdMember>) => {
+    return await db.update(schema.householdMembers)
+      .set(memberData)
+      .where(and(eq(schema.householdMembers.id, id), eq(schema.householdMembers.householdId, householdId)))
+      .returning();
+  },
+  
+  removeHouseholdMember: async (id: number, householdId: number) => {
+    return await db.delete(schema.householdMembers)
+      .where(and(eq(schema.householdMembers.id, id), eq(schema.householdMembers.householdId, householdId)))
+      .returning();
+  },
+  
+  // Completed giving of every household member with a login, all time and for the current year
+  getHouseholdGivingTotals: async (householdId: number) => {
+    const startOfYear = new Date(new Date().getFullYear(), 0, 1);
+    const memberUserIds = db.select({ userId: schema.householdMembers.userId })
+      .from(schema.householdMembers)
+      .where(eq(schema.householdMembers.householdId, householdId));
+    
+    const [result] = await db.select({
+      total: sum(schema.donations.amount),
+      yearToDate: sql<string>`COALESCE(SUM(${schema.donations.amount}) FILTER (WHERE ${schema.donations.createdAt} >= ${startOfYear}), 0)`,
+      donationCount: count(),
+      lastDonationAt: sql<Date | null>`MAX(${schema.donations.createdAt})`
+    })
+      .from(schema.donations)
+      .where(and(
+        eq(schema.donations.status, "completed"),
+        inArray(schema.donations.userId, memberUserIds)
+      ))
+      .execute();
+    
+    return {
+      total: parseFloat(result?.total || "0"),
+      yearToDate: parseFloat(result?.yearToDate || "0"),
+      donationCount: result?.donationCount || 0,
+      lastDonationAt: result?.lastDonationAt || null
     };
   },
-  // User operations
-  createUser: async (user: Omit<schema.InsertUser, "id">) => {
-    return await db.insert(schema.users).values(user).returning();
+  
+  // Ownership transfer operations
+  createOwnershipTransfer: async (transferData: schema.InsertOwnershipTransfer) => {
+    return await db.insert(schema.ownershipTransfers).values(transferData).returning();
   },
   
-  getUserById: async (id: number) => {
-    return await db.query.users.findFirst({
-      where: eq(schema.users.id, id)
+  getPendingOwnershipTransfers: async () => {
+    return await db.query.ownershipTransfers.findMany({
+      where: and(
+        eq(schema.ownershipTransfers.status, "pending"),
+        gte(schema.ownershipTransfers.expiresAt, new Date())
+      ),
+      orderBy: desc(schema.ownershipTransfers.createdAt),
+      columns: {
+        tokenHash: false
+      },
+      with: {
+        fromUser: {
+          columns: { id: true, name: true, email: true }
+        },
+        toUser: {
+          columns: { id: true, name: true, email: true }
+        }
+      }
     });
   },
   
-  getUserByEmail: async (email: string) => {
-    return await db.query.users.findFirst({
-      where: eq(schema.users.email, email)
+  getOwnershipTransferByTokenHash: async (tokenHash: string) => {
+    return await db.query.ownershipTransfers.findFirst({
+      where: eq(schema.ownershipTransfers.tokenHash, tokenHash)
     });
   },
   
-  updateUser: async (id: number, userData: Partial<schema.InsertUser>) => {
-    return await db.update(schema.users)
-      .set(userData)
-      .where(eq(schema.users.id, id))
+  // Cancels every pending transfer started by this owner, or just the given one
+  cancelOwnershipTransfers: async (fromUserId?: number, transferId?: number) => {
+    const conditions = [eq(schema.ownershipTransfers.status, "pending")];
+    
+    if (fromUserId !== undefined) {
+      conditions.push(eq(schema.ownershipTransfers.fromUserId, fromUserId));
+    }
+    
+    if (transferId !== undefined) {
+      conditions.push(eq(schema.ownershipTransfers.id, transferId));
+    }
+    
+    return await db.update(schema.ownershipTransfers)
+      .set({ status: "cancelled", cancelledAt: new Date() })
+      .where(and(...conditions))
       .returning();
   },
   
-  deleteUser: async (id: number) => {
-    return await db.delete(schema.users)
-      .where(eq(schema.users.id, id))
-      .returning();
+  // Swaps the roles in one transaction, only if the transfer is still pending and the sender still owns the church
+  acceptOwnershipTransfer: async (tokenHash: string, toUserId: number) => {
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx.update(schema.ownershipTransfers)
+        .set({ status: "accepted", acceptedAt: new Date() })
+        .where(
+          and(
+            eq(schema.ownershipTransfers.tokenHash, tokenHash),
+            eq(schema.ownershipTransfers.toUserId, toUserId),
+            eq(schema.ownershipTransfers.status, "pending"),
+            gte(schema.ownershipTransfers.expiresAt, new Date())
+          )
+        )
+        .returning();
+      
+      if (!transfer) {
+        return null;
+      }
+      
+      const [previousOwner] = await tx.update(schema.users)
+        .set({ role: transfer.previousOwnerRole })
+        .where(
+          and(
+            eq(schema.users.id, transfer.fromUserId),
+            eq(schema.users.role, schema.OWNER_ROLE),
+            eq(schema.users.status, "active")
+          )
+        )
+        .returning();
+      
+      // The sender lost the owner role since starting the transfer, so it no longer applies
+      if (!previousOwner) {
+        await tx.update(schema.ownershipTransfers)
+          .set({ status: "cancelled", acceptedAt: null, cancelledAt: new Date() })
+          .where(eq(schema.ownershipTransfers.id, transfer.id));
+        
+        return null;
+      }
+      
+      await tx.update(schema.users)
+        .set({ role: schema.OWNER_ROLE })
+        .where(eq(schema.users.id, toUserId));
+      
+      return transfer;
+    });
   },
   
-  getAllUsers: async (page = 1, perPage = 10, search = "") => {
-    const offset = (page - 1) * perPage;
-    
-    let whereClause = undefined;
-    if (search) {
-      whereClause = or(
-        like(schema.users.name, `%${search}%`),
-        like(schema.users.email, `%${search}%`)
-      );
-    }
-    
-    const users = await db.query.users.findMany({
-      where: whereClause,
-      limit: perPage,
-      offset,
-      orderBy: desc(schema.users.createdAt)
-    });
-    
-    const totalResults = await db.select({ count: count() })
-      .from(schema.users)
-      .where(whereClause || sql`1=1`)
-      .execute();
+  // Two-factor recovery code operations
+  replaceRecoveryCodes: async (userId: number, codeHashes: string[]) => {
+    await db.delete(schema.twoFactorRecoveryCodes)
+      .where(eq(schema.twoFactorRecoveryCodes.userId, userId));
     
-    return {
-      users,
-      total: totalResults[0]?.count || 0
-    };
+    return await db.insert(schema.twoFactorRecoveryCodes)
+      .values(codeHashes.map(codeHash => ({ userId, codeHash })))
+      .returning();
   },
   
-  getTotalUsers: async () => {
-    const result = await db.select({ count: count() })
-      .from(schema.users)
-      .execute();
-    
-    return result[0]?.count || 0;
+  // Records the TOTP time step a code was used in, but only if no later or equal step was used before (replay guard)
+  useTwoFactorStep: async (userId: number, step: number) => {
+    return await db.update(schema.users)
+      .set({ twoFactorLastUsedStep: step })
+      .where(
+        and(
+          eq(schema.users.id, userId),
+          or(isNull(schema.users.twoFactorLastUsedStep), lt(schema.users.twoFactorLastUsedStep, step))
+        )
+      )
+      .returning();
   },
   
-  getUserGrowthPercentage: async () => {
-    const today = new Date();
-    const thirtyDaysAgo = new Date(today);
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    
-    const sixtyDaysAgo = new Date(today);
-    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
-    
-    const currentPeriodUsers = await db.select({ count: count() })
-      .from(schema.users)
+  // Marks a recovery code as used, but only if it belongs to the user and hasn't been used yet
+  consumeRecoveryCode: async (userId: number, codeHash: string) => {
+    return await db.update(schema.twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
       .where(
         and(
-          gte(schema.users.createdAt, thirtyDaysAgo),
-          lt(schema.users.createdAt, today)
+          eq(schema.twoFactorRecoveryCodes.userId, userId),
+          eq(schema.twoFactorRecoveryCodes.codeHash, codeHash),
+          isNull(schema.twoFactorRecoveryCodes.usedAt)
         )
       )
-      .execute();
-    
-    const previousPeriodUsers = await db.select({ count: count() })
-      .from(schema.users)
+      .returning();
+  },
+  
+  countUnusedRecoveryCodes: async (userId: number) => {
+    const result = await db.select({ count: count() })
+      .from(schema.twoFactorRecoveryCodes)
       .where(
         and(
-          gte(schema.users.createdAt, sixtyDaysAgo),
-          lt(schema.users.createdAt, thirtyDaysAgo)
+          eq(schema.twoFactorRecoveryCodes.userId, userId),
+          isNull(schema.twoFactorRecoveryCodes.usedAt)
         )
       )
       .execute();
     
-    const currentCount = currentPeriodUsers[0]?.count || 0;
-    const previousCount = previousPeriodUsers[0]?.count || 0;
-    
-    if (previousCount === 0) {
-      return currentCount > 0 ? 100 : 0;
-    }
+    return result[0]?.count || 0;
+  },
+  
+  deleteRecoveryCodes: async (userId: number) => {
+    return await db.delete(schema.twoFactorRecoveryCodes)
+      .where(eq(schema.twoFactorRecoveryCodes.userId, userId))
+      .returning();
+  },
+  
+  // App setting operations
+  getSetting: async (key: string) => {
+    const setting = await db.query.appSettings.findFirst({
+      where: eq(schema.appSettings.key, key)
+    });
     
-    return Math.round(((currentCount - previousCount) / previousCount) * 100);
+    return setting?.value;
+  },
+  
+  setSetting: async (key: string, value: unknown, updatedBy?: number) => {
+    return await db.insert(schema.appSettings)
+      .values({ key, value, updatedBy: updatedBy || null, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: schema.appSettings.key,
+        set: { value, updatedBy: updatedBy || null, updatedAt: new Date() }
+      })
+      .returning();
   },
   
   // Contact operations
@@ -250,6 +1718,13 @@ export const storage = {
       .returning();
   },
   
+  getContactsByEmail: async (email: string) => {
+    return await db.query.contacts.findMany({
+      where: eq(schema.contacts.email, email),
+      orderBy: desc(schema.contacts.createdAt)
+    });
+  },
+  
   getAllContacts: async (page = 1, perPage = 10, search = "", status = "all") => {
     const offset = (page - 1) * perPage;
     
@@ -313,16 +1788,175 @@ export const storage = {
     return result[0]?.count || 0;
   },
   
+  // Fund operations
+  getAllFunds: async (includeInactive = true) => {
+    return await db.query.funds.findMany({
+      where: includeInactive ? undefined : eq(schema.funds.active, true),
+      orderBy: [schema.funds.sortOrder, schema.funds.name]
+    });
+  },
+  
+  getFundById: async (id: number) => {
+    return await db.query.funds.findFirst({
+      where: eq(schema.funds.id, id)
+    });
+  },
+  
+  getFundByName: async (name: string) => {
+    return await db.query.funds.findFirst({
+      where: sql`lower(${schema.funds.name}) = lower(${name})`
+    });
+  },
+  
+  getFundsByIds: async (ids: number[]) => {
+    if (ids.length === 0) {
+      return [];
+    }
+    
+    return await db.query.funds.findMany({
+      where: inArray(schema.funds.id, ids)
+    });
+  },
+  
+  getDefaultFund: async () => {
+    return await db.query.funds.findFirst({
+      where: and(eq(schema.funds.isDefault, true), eq(schema.funds.active, true))
+    });
+  },
+  
+  // Only one fund can be the default, so setting it clears it from the others
+  createFund: async (fundData: schema.InsertFund) => {
+    return await db.transaction(async (tx) => {
+      if (fundData.isDefault) {
+        await tx.update(schema.funds).set({ isDefault: false }).where(eq(schema.funds.isDefault, true));
+      }
+      
+      return await tx.insert(schema.funds).values(fundData).returning();
+    });
+  },
+  
+  updateFund: async (id: number, fundData: Partial<schema.Fund>) => {
+    return await db.transaction(async (tx) => {
+      if (fundData.isDefault) {
+        await tx.update(schema.funds)
+          .set({ isDefault: false })
+          .where(and(eq(schema.funds.isDefault, true), ne(schema.funds.id, id)));
+      }
+      
+      return await tx.update(schema.funds)
+        .set({ ...fundData, updatedAt: new Date() })
+        .where(eq(schema.funds.id, id))
+        .returning();
+    });
+  },
+  
+  deleteFund: async (id: number) => {
+    return await db.delete(schema.funds)
+      .where(eq(schema.funds.id, id))
+      .returning();
+  },
+  
+  countFundAllocations: async (fundId: number) => {
+    const result = await db.select({ count: count() })
+      .from(schema.donationAllocations)
+      .where(eq(schema.donationAllocations.fundId, fundId))
+      .execute();
+    
+    return Number(result[0]?.count || 0);
+  },
+  
+  createDonationAllocations: async (allocations: schema.InsertDonationAllocation[]) => {
+    if (allocations.length === 0) {
+      return [];
+    }
+    
+    return await db.insert(schema.donationAllocations).values(allocations).returning();
+  },
+  
+  // Completed giving per fund since startDate (or all time), with each fund's all-time total for its goal.
+  // Donations from before funds existed have no allocations and are reported as unallocated.
+  getFundBreakdown: async (startDate: Date | null = null) => {
+    const inPeriod = startDate ? sql`${schema.donations.createdAt} >= ${startDate}` : sql`TRUE`;
+    
+    const rows = await db.select({
+      fundId: schema.funds.id,
+      name: schema.funds.name,
+      restricted: schema.funds.restricted,
+      active: schema.funds.active,
+      goalAmount: schema.funds.goalAmount,
+      total: sql<string>`COALESCE(SUM(${schema.donationAllocations.amount}) FILTER (WHERE ${schema.donations.status} = 'completed' AND ${inPeriod}), 0)`,
+      raisedToDate: sql<string>`COALESCE(SUM(${schema.donationAllocations.amount}) FILTER (WHERE ${schema.donations.status} = 'completed'), 0)`
+    })
+      .from(schema.funds)
+      .leftJoin(schema.donationAllocations, eq(schema.donationAllocations.fundId, schema.funds.id))
+      .leftJoin(schema.donations, eq(schema.donations.id, schema.donationAllocations.donationId))
+      .groupBy(schema.funds.id)
+      .orderBy(schema.funds.sortOrder, schema.funds.name)
+      .execute();
+    
+    const unallocatedResult = await db.select({ total: sum(schema.donations.amount) })
+      .from(schema.donations)
+      .where(and(
+        eq(schema.donations.status, "completed"),
+        inPeriod,
+        sql`NOT EXISTS (SELECT 1 FROM ${schema.donationAllocations} WHERE ${schema.donationAllocations.donationId} = ${schema.donations.id})`
+      ))
+      .execute();
+    
+    const breakdown = rows.map(row => {
+      const goalAmount = row.goalAmount ? parseFloat(row.goalAmount) : null;
+      const raisedToDate = parseFloat(row.raisedToDate);
+      
+      return {
+        fundId: row.fundId as number | null,
+        name: row.name,
+        restricted: row.restricted,
+        active: row.active,
+        total: parseFloat(row.total),
+        raisedToDate,
+        goalAmount,
+        goalProgress: goalAmount ? Math.round((raisedToDate / goalAmount) * 100) : null
+      };
+    });
+    
+    const unallocated = parseFloat(unallocatedResult[0]?.total || "0");
+    if (unallocated > 0) {
+      breakdown.push({
+        fundId: null,
+        name: "Unallocated",
+        restricted: false,
+        active: false,
+        total: unallocated,
+        raisedToDate: unallocated,
+        goalAmount: null,
+        goalProgress: null
+      });
+    }
+    
+    return breakdown;
+  },
+  
   // Donation operations
   createDonation: async (donation: Omit<schema.InsertDonation, "id">) => {
     return await db.insert(schema.donations).values(donation).returning();
   },
   
+  // The donation for one run of a recurring gift; returns nothing if that run already has one
+  createRecurringRunDonation: async (donation: typeof schema.donations.$inferInsert) => {
+    return await db.insert(schema.donations)
+      .values(donation)
+      .onConflictDoNothing({ target: [schema.donations.recurringDonationId, schema.donations.recurringRunAt] })
+      .returning();
+  },
+  
   getDonationById: async (id: number) => {
     return await db.query.donations.findFirst({
       where: eq(schema.donations.id, id),
       with: {
-        user: true
+        user: true,
+        allocations: {
+          with: { fund: { columns: { id: true, name: true, restricted: true } } }
+        }
       }
     });
   },
@@ -334,11 +1968,74 @@ export const storage = {
       .returning();
   },
   
+  getDonationByProviderReference: async (provider: string, reference: string) => {
+    return await db.query.donations.findFirst({
+      where: and(eq(schema.donations.paymentProvider, provider), eq(schema.donations.transactionId, reference)),
+      with: { user: true }
+    });
+  },
+  
+  getDonationsByProviderReferences: async (provider: string, references: string[]) => {
+    if (references.length === 0) {
+      return [];
+    }
+    
+    return await db.query.donations.findMany({
+      where: and(eq(schema.donations.paymentProvider, provider), inArray(schema.donations.transactionId, references)),
+      with: { user: true }
+    });
+  },
+  
+  getPendingDonationsByProvider: async (provider: string) => {
+    return await db.query.donations.findMany({
+      where: and(eq(schema.donations.paymentProvider, provider), eq(schema.donations.status, "pending")),
+      with: { user: true },
+      orderBy: desc(schema.donations.createdAt)
+    });
+  },
+  
+  // Change a donation's status only if it's currently in one of the given statuses, so concurrent or
+  // out-of-order payment events can't move it backwards
+  transitionDonationStatus: async (id: number, fromStatuses: string[], donationData: Partial<schema.Donation>) => {
+    return await db.update(schema.donations)
+      .set(donationData)
+      .where(and(eq(schema.donations.id, id), inArray(schema.donations.status, fromStatuses)))
+      .returning();
+  },
+  
+  // Payment event operations - returns nothing if the provider already sent this event
+  createPaymentEvent: async (eventData: schema.InsertPaymentEvent) => {
+    return await db.insert(schema.paymentEvents)
+      .values(eventData)
+      .onConflictDoNothing({ target: [schema.paymentEvents.provider, schema.paymentEvents.eventId] })
+      .returning();
+  },
+  
+  updatePaymentEvent: async (id: number, eventData: Partial<schema.PaymentEvent>) => {
+    return await db.update(schema.paymentEvents)
+      .set(eventData)
+      .where(eq(schema.paymentEvents.id, id))
+      .returning();
+  },
+  
+  getPaymentEventsByDonationId: async (donationId: number) => {
+    return await db.query.paymentEvents.findMany({
+      where: eq(schema.paymentEvents.donationId, donationId),
+      orderBy: desc(schema.paymentEvents.createdAt)
+    });
+  },
+  
   getDonationsByUserId: async (userId: number, page = 1, perPage = 10) => {
     const offset = (page - 1) * perPage;
     
     const donations = await db.query.donations.findMany({
       where: eq(schema.donations.userId, userId),
+      with: {
+        allocations: {
+          columns: { fundId: true, amount: true },
+          with: { fund: { columns: { name: true } } }
+        }
+      },
       limit: perPage,
       offset,
       orderBy: desc(schema.donations.createdAt)
@@ -355,7 +2052,7 @@ export const storage = {
     };
   },
   
-  getAllDonations: async (page = 1, perPage = 10, search = "", status = "all", period = "all_time", sort = "date", direction = "desc") => {
+  getAllDonations: async (page = 1, perPage = 10, search = "", status = "all", period = "all_time", sort = "date", direction = "desc", fundId: number | null = null) => {
     const offset = (page - 1) * perPage;
     
     let conditions = [];
@@ -389,6 +2086,15 @@ export const storage = {
       conditions.push(eq(schema.donations.status, status));
     }
     
+    // Donations with any part designated to the fund
+    if (fundId) {
+      conditions.push(sql`EXISTS (
+        SELECT 1 FROM ${schema.donationAllocations}
+        WHERE ${schema.donationAllocations.donationId} = ${schema.donations.id}
+          AND ${schema.donationAllocations.fundId} = ${fundId}
+      )`);
+    }
+    
     if (period !== "all_time") {
       const today = new Date();
       
@@ -567,7 +2273,7 @@ export const storage = {
       .execute();
     
     // Monthly total already calculated in getMonthlyDonationAmount
-    const monthlyTotal = await this.getMonthlyDonationAmount();
+    const monthlyTotal = await storage.getMonthlyDonationAmount();
     
     // Average donation
     const avgResult = await db
@@ -579,7 +2285,7 @@ export const storage = {
       .execute();
     
     // Donation growth percentage already calculated in getDonationGrowthPercentage
-    const donationGrowth = await this.getDonationGrowthPercentage();
+    const donationGrowth = await storage.getDonationGrowthPercentage();
     
     // Total donors (distinct user count)
     const donorsResult = await db
@@ -669,6 +2375,8 @@ export const storage = {
       value: Number(item.count)
     }));
     
+    const fundBreakdown = await storage.getFundBreakdown(startDate);
+    
     return {
       totalDonations: parseFloat(totalResult[0]?.total || "0"),
       monthlyTotal,
@@ -677,10 +2385,103 @@ export const storage = {
       totalDonors: Number(donorsResult[0]?.count || 0),
       statusBreakdown,
       monthlyTrend,
-      paymentMethodBreakdown
+      paymentMethodBreakdown,
+      fundBreakdown
+    };
+  },
+  
+  // Recurring donation operations
+  createRecurringDonation: async (recurringData: schema.InsertRecurringDonation) => {
+    return await db.insert(schema.recurringDonations).values(recurringData).returning();
+  },
+  
+  getRecurringDonationById: async (id: number) => {
+    return await db.query.recurringDonations.findFirst({
+      where: eq(schema.recurringDonations.id, id),
+      with: { user: { columns: { id: true, name: true, email: true } } }
+    });
+  },
+  
+  getRecurringDonationsByUserId: async (userId: number) => {
+    return await db.query.recurringDonations.findMany({
+      where: eq(schema.recurringDonations.userId, userId),
+      orderBy: desc(schema.recurringDonations.createdAt)
+    });
+  },
+  
+  getAllRecurringDonations: async (page = 1, perPage = 10, status = "active") => {
+    const offset = (page - 1) * perPage;
+    const whereClause = status !== "all" ? eq(schema.recurringDonations.status, status) : undefined;
+    
+    const recurringDonations = await db.query.recurringDonations.findMany({
+      where: whereClause,
+      with: { user: { columns: { id: true, name: true, email: true } } },
+      limit: perPage,
+      offset,
+      orderBy: schema.recurringDonations.nextRunAt
+    });
+    
+    const totalResults = await db.select({ count: count() })
+      .from(schema.recurringDonations)
+      .where(whereClause || sql`1=1`)
+      .execute();
+    
+    return {
+      recurringDonations,
+      total: totalResults[0]?.count || 0
     };
   },
   
+  // Totals of active recurring gifts per frequency, for projecting income
+  getActiveRecurringDonationTotals: async () => {
+    return await db.select({
+      frequency: schema.recurringDonations.frequency,
+      total: sum(schema.recurringDonations.amount),
+      count: count()
+    })
+      .from(schema.recurringDonations)
+      .where(eq(schema.recurringDonations.status, "active"))
+      .groupBy(schema.recurringDonations.frequency)
+      .execute();
+  },
+  
+  getDueRecurringDonations: async (now: Date, limit = 100) => {
+    return await db.query.recurringDonations.findMany({
+      where: and(eq(schema.recurringDonations.status, "active"), lt(schema.recurringDonations.nextRunAt, now)),
+      with: { user: true },
+      orderBy: schema.recurringDonations.nextRunAt,
+      limit
+    });
+  },
+  
+  // Move a due run's nextRunAt ahead while it's charged, only if nobody else has already - so a run
+  // is only ever picked up once, even with several app instances
+  claimRecurringDonationRun: async (id: number, dueAt: Date, claimedUntil: Date) => {
+    return await db.update(schema.recurringDonations)
+      .set({ nextRunAt: claimedUntil })
+      .where(and(
+        eq(schema.recurringDonations.id, id),
+        eq(schema.recurringDonations.status, "active"),
+        eq(schema.recurringDonations.nextRunAt, dueAt)
+      ))
+      .returning();
+  },
+  
+  updateRecurringDonation: async (id: number, recurringData: Partial<schema.RecurringDonation>) => {
+    return await db.update(schema.recurringDonations)
+      .set({ ...recurringData, updatedAt: new Date() })
+      .where(eq(schema.recurringDonations.id, id))
+      .returning();
+  },
+  
+  getDonationsByRecurringDonationId: async (recurringDonationId: number, limit = 20) => {
+    return await db.query.donations.findMany({
+      where: eq(schema.donations.recurringDonationId, recurringDonationId),
+      orderBy: desc(schema.donations.createdAt),
+      limit
+    });
+  },
+  
   // Media operations
   createMedia: async (mediaData: Omit<schema.InsertMedia, "id">) => {
     return await db.insert(schema.media).values(mediaData).returning();
@@ -708,6 +2509,13 @@ export const storage = {
       .returning();
   },
   
+  getMediaByUploader: async (userId: number) => {
+    return await db.query.media.findMany({
+      where: eq(schema.media.uploadedBy, userId),
+      orderBy: desc(schema.media.createdAt)
+    });
+  },
+  
   getAllMedia: async (page = 1, perPage = 12, search = "", type = "all") => {
     const offset = (page - 1) * perPage;
     
@@ -747,9 +2555,10 @@ export const storage = {
       .execute();
     
     return {
-      media: media.map(item => ({
+      // Only expose the uploader's name, never the rest of their user row
+      media: media.map(({ uploader, ...item }) => ({
         ...item,
-        uploadedBy: item.uploader.name
+        uploadedBy: uploader.name
       })),
       total: totalResults[0]?.count || 0
     };
@@ -918,6 +2727,13 @@ export const storage = {
   },
   
   // Activity operations
+  getActivitiesByUserId: async (userId: number) => {
+    return await db.query.activities.findMany({
+      where: eq(schema.activities.userId, userId),
+      orderBy: desc(schema.activities.createdAt)
+    });
+  },
+  
   logActivity: async (activityData: Omit<schema.InsertActivity, "id">) => {
     return await db.insert(schema.activities).values(activityData).returning();
   },
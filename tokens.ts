@@ -0,0 +1,17 @@
+import crypto from "crypto";
+
+// Generate a random, URL-safe token to hand out (e.g. in an email link)
+export function generateSecureToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+// Hash a token before storing it so a database leak doesn't expose usable tokens
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Generate a token together with the hash that should be persisted
+export function createSecureToken(bytes = 32) {
+  const token = generateSecureToken(bytes);
+  return { token, tokenHash: hashToken(token) };
+}
@@ -0,0 +1,311 @@
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { authenticateJWT } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { verifyPurposeToken } from "../utils/jwt";
+import { generateTotpSecret, buildOtpauthUri, verifyTotpCode } from "../utils/totp";
+import {
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_CHALLENGE_PURPOSE,
+  TWO_FACTOR_POLICY_SETTING,
+  TWO_FACTOR_CHALLENGE_COOKIE,
+  clearTwoFactorChallengeCookie,
+  generateRecoveryCodes,
+  getTwoFactorRequiredRoles,
+  isTwoFactorRequiredForRole,
+  verifySecondFactor
+} from "../utils/two-factor";
+import { startLoginAttempt, recordFailedLogin } from "../utils/login-protection";
+import { completeLogin } from "../utils/session";
+import { logActivity } from "../utils/activity";
+import { sanitizeUser } from "../utils/user";
+
+export function register(isAdmin = false) {
+  const router = Router();
+
+  if (isAdmin) {
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
+
+    // Get the two-factor policy
+    router.get("/two-factor-policy", requirePermission("security:manage"), async (req, res) => {
+      try {
+        const requiredRoles = await getTwoFactorRequiredRoles();
+        const availableRoles = (await storage.getAllRoles()).map(role => role.name);
+
+        res.status(200).json({ requiredRoles, availableRoles });
+      } catch (error) {
+        console.error("Get two-factor policy error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the two-factor policy" });
+      }
+    });
+
+    // Update the two-factor policy
+    router.put("/two-factor-policy", requirePermission("security:manage"), async (req, res) => {
+      try {
+        const { requiredRoles } = req.body;
+        const availableRoles = (await storage.getAllRoles()).map(role => role.name);
+
+        if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !availableRoles.includes(role))) {
+          return res.status(400).json({ message: `requiredRoles must be a list containing only: ${availableRoles.join(", ")}` });
+        }
+
+        await storage.setSetting(TWO_FACTOR_POLICY_SETTING, requiredRoles, req.user?.id);
+
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_update",
+          details: `Updated two-factor policy, required for: ${requiredRoles.join(", ") || "no roles"}`
+        });
+
+        res.status(200).json({ requiredRoles, availableRoles });
+      } catch (error) {
+        console.error("Update two-factor policy error:", error);
+        res.status(500).json({ message: "An error occurred while updating the two-factor policy" });
+      }
+    });
+  } else {
+    // User routes
+
+    // Second login step - exchange the challenge token from /login (or the challenge cookie set by an OIDC
+    // sign-in) plus a code for a session
+    router.post("/verify", async (req, res) => {
+      try {
+        const { code, recoveryCode } = req.body;
+        const challengeToken = req.body.challengeToken || req.cookies?.[TWO_FACTOR_CHALLENGE_COOKIE];
+
+        if (!challengeToken || (!code && !recoveryCode)) {
+          return res.status(400).json({ message: "Challenge token and a code or recovery code are required" });
+        }
+
+        const decoded = verifyPurposeToken(challengeToken, TWO_FACTOR_CHALLENGE_PURPOSE);
+
+        if (!decoded || !decoded.id) {
+          return res.status(401).json({ message: "Your sign-in attempt has expired. Please log in again." });
+        }
+
+        const user = await storage.getUserById(decoded.id);
+
+        if (!user || user.status === "inactive") {
+          return res.status(401).json({ message: "Your sign-in attempt has expired. Please log in again." });
+        }
+
+        // Wrong codes count towards the same lockout as wrong passwords
+        const attempt = await startLoginAttempt(req, user);
+        if (attempt.retryAfter > 0) {
+          res.set("Retry-After", String(attempt.retryAfter));
+          return res.status(429).json({ message: "Too many failed login attempts. Please try again later." });
+        }
+
+        const isValid = await verifySecondFactor(user, { code, recoveryCode });
+
+        if (!isValid) {
+          await recordFailedLogin(req, attempt, user);
+          return res.status(401).json({ message: "Invalid authentication code" });
+        }
+
+        // The challenge records how the first step was done (password, or an OIDC provider)
+        await completeLogin(req, res, user, `${decoded.method || "password"} + two-factor`);
+        clearTwoFactorChallengeCookie(res);
+
+        res.status(200).json(sanitizeUser(user));
+      } catch (error) {
+        console.error("Two-factor verify error:", error);
+        res.status(500).json({ message: "An error occurred during login" });
+      }
+    });
+
+    // Get the current user's two-factor status
+    router.get("/status", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const recoveryCodesRemaining = req.user.twoFactorEnabled
+          ? await storage.countUnusedRecoveryCodes(req.user.id)
+          : 0;
+
+        res.status(200).json({
+          enabled: req.user.twoFactorEnabled,
+          required: await isTwoFactorRequiredForRole(req.user.role),
+          recoveryCodesRemaining
+        });
+      } catch (error) {
+        console.error("Get two-factor status error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your two-factor status" });
+      }
+    });
+
+    // Start enrollment - generate a secret and the QR code to scan
+    router.post("/setup", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        if (req.user.twoFactorEnabled) {
+          return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+        }
+
+        // The secret is stored but not active until confirmed with /enable
+        const secret = generateTotpSecret();
+        await storage.updateUser(req.user.id, { twoFactorSecret: secret, twoFactorLastUsedStep: null });
+
+        const otpauthUri = buildOtpauthUri(secret, req.user.email, TWO_FACTOR_ISSUER);
+        const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+
+        res.status(200).json({ secret, otpauthUri, qrCodeDataUrl });
+      } catch (error) {
+        console.error("Two-factor setup error:", error);
+        res.status(500).json({ message: "An error occurred while setting up two-factor authentication" });
+      }
+    });
+
+    // Finish enrollment - confirm a code from the app and receive recovery codes
+    router.post("/enable", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { code } = req.body;
+
+        if (!code) {
+          return res.status(400).json({ message: "Authentication code is required" });
+        }
+
+        const user = await storage.getUserById(req.user.id);
+
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (user.twoFactorEnabledAt) {
+          return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+        }
+
+        if (!user.twoFactorSecret) {
+          return res.status(400).json({ message: "Please start two-factor setup first" });
+        }
+
+        const step = verifyTotpCode(user.twoFactorSecret, code);
+
+        if (step === null) {
+          return res.status(400).json({ message: "Invalid authentication code" });
+        }
+
+        const { codes, codeHashes } = generateRecoveryCodes();
+        await storage.replaceRecoveryCodes(user.id, codeHashes);
+        await storage.updateUser(user.id, { twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step });
+
+        // Log the activity
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User enabled two-factor authentication: ${user.email}`
+        });
+
+        // Recovery codes are only ever shown here
+        res.status(200).json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
+      } catch (error) {
+        console.error("Two-factor enable error:", error);
+        res.status(500).json({ message: "An error occurred while enabling two-factor authentication" });
+      }
+    });
+
+    // Disable two-factor authentication
+    router.post("/disable", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { password, code, recoveryCode } = req.body;
+
+        if (!password || (!code && !recoveryCode)) {
+          return res.status(400).json({ message: "Password and a code or recovery code are required" });
+        }
+
+        if (await isTwoFactorRequiredForRole(req.user.role)) {
+          return res.status(403).json({ message: "Two-factor authentication is required for your role and can't be disabled" });
+        }
+
+        const user = await storage.getUserById(req.user.id);
+
+        if (!user || !user.twoFactorEnabledAt) {
+          return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+        }
+
+        const isPasswordValid = await bcrypt.compare(password, user.password);
+
+        if (!isPasswordValid || !(await verifySecondFactor(user, { code, recoveryCode }))) {
+          return res.status(401).json({ message: "Invalid password or authentication code" });
+        }
+
+        await storage.updateUser(user.id, {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null
+        });
+        await storage.deleteRecoveryCodes(user.id);
+
+        // Log the activity
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User disabled two-factor authentication: ${user.email}`
+        });
+
+        res.status(200).json({ message: "Two-factor authentication disabled" });
+      } catch (error) {
+        console.error("Two-factor disable error:", error);
+        res.status(500).json({ message: "An error occurred while disabling two-factor authentication" });
+      }
+    });
+
+    // Replace the recovery codes (invalidates the old ones)
+    router.post("/recovery-codes", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+
+        const { code } = req.body;
+
+        if (!code) {
+          return res.status(400).json({ message: "Authentication code is required" });
+        }
+
+        const user = await storage.getUserById(req.user.id);
+
+        if (!user || !user.twoFactorEnabledAt) {
+          return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+        }
+
+        if (!(await verifySecondFactor(user, { code }))) {
+          return res.status(401).json({ message: "Invalid authentication code" });
+        }
+
+        const { codes, codeHashes } = generateRecoveryCodes();
+        await storage.replaceRecoveryCodes(user.id, codeHashes);
+
+        // Log the activity
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User regenerated two-factor recovery codes: ${user.email}`
+        });
+
+        res.status(200).json({ recoveryCodes: codes });
+      } catch (error) {
+        console.error("Regenerate recovery codes error:", error);
+        res.status(500).json({ message: "An error occurred while generating recovery codes" });
+      }
+    });
+  }
+
+  return router;
+}
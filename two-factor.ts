@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import { Response } from "express";
+import { storage } from "../storage";
+import { User } from "@shared/schema";
+import { base32Encode, verifyTotpCode } from "./totp";
+import { hashToken } from "./tokens";
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "Grace Church";
+export const TWO_FACTOR_CHALLENGE_PURPOSE = "two_factor_challenge";
+export const TWO_FACTOR_CHALLENGE_EXPIRES_IN = "5m";
+export const TWO_FACTOR_POLICY_SETTING = "two_factor_required_roles";
+
+// After a redirect sign-in (OIDC) the challenge travels in this httpOnly cookie instead of the URL
+export const TWO_FACTOR_CHALLENGE_COOKIE = "two_factor_challenge";
+const TWO_FACTOR_CHALLENGE_MAX_AGE_MS = 5 * 60 * 1000; // Matches TWO_FACTOR_CHALLENGE_EXPIRES_IN
+
+const challengeCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path: "/api/auth/2fa" // Only sent to the verify endpoint
+};
+
+export function setTwoFactorChallengeCookie(res: Response, challengeToken: string) {
+  res.cookie(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, { ...challengeCookieOptions, maxAge: TWO_FACTOR_CHALLENGE_MAX_AGE_MS });
+}
+
+export function clearTwoFactorChallengeCookie(res: Response) {
+  res.clearCookie(TWO_FACTOR_CHALLENGE_COOKIE, challengeCookieOptions);
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case- and dash-insensitively
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+
+// Generate a fresh set of recovery codes; returns the codes to show once and the hashes to store
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+
+  return {
+    codes,
+    codeHashes: codes.map(code => hashToken(normalizeRecoveryCode(code)))
+  };
+}
+
+// Roles the owner has made two-factor authentication mandatory for
+export async function getTwoFactorRequiredRoles(): Promise<string[]> {
+  const roles = await storage.getSetting(TWO_FACTOR_POLICY_SETTING);
+  return Array.isArray(roles) ? roles : [];
+}
+
+export async function isTwoFactorRequiredForRole(role: string) {
+  const roles = await getTwoFactorRequiredRoles();
+  return roles.includes(role);
+}
+
+// Check a TOTP code or a recovery code for a user with 2FA enabled; consumes whichever was used
+export async function verifySecondFactor(user: User, factors: { code?: string; recoveryCode?: string }) {
+  if (!user.twoFactorSecret || !user.twoFactorEnabledAt) {
+    return false;
+  }
+
+  if (factors.code) {
+    const step = verifyTotpCode(user.twoFactorSecret, factors.code);
+
+    if (step === null) {
+      return false;
+    }
+
+    // A code can only be used once, even within its 30 second window or by two concurrent requests
+    const [updated] = await storage.useTwoFactorStep(user.id, step);
+    return !!updated;
+  }
+
+  if (factors.recoveryCode) {
+    const [consumed] = await storage.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(factors.recoveryCode)));
+    return !!consumed;
+  }
+
+  return false;
+}
@@ -0,0 +1,204 @@
+import { storage } from "../storage";
+
+// Pairs scoring below this aren't reported
+const MIN_DUPLICATE_SCORE = 0.75;
+// Names at least this similar count as a match on their own
+const SIMILAR_NAME_THRESHOLD = 0.9;
+// Phone numbers are compared by their last digits so "+977 98-1234 5678" matches "9812345678"
+const PHONE_DIGITS_COMPARED = 8;
+
+export type DuplicateReason = "similar_name" | "shared_phone" | "same_household" | "contact_message";
+
+export interface DuplicateCandidate {
+  users: { id: number; name: string; email: string; createdAt: Date }[];
+  score: number; // 0-1, higher is more likely the same person
+  nameSimilarity: number;
+  reasons: DuplicateReason[];
+}
+
+// Lowercase, strip accents and punctuation, and sort the words so "Smith, John" matches "John Smith"
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+// Jaro-Winkler similarity, 0-1; forgiving of typos and small spelling differences in short strings like names
+export function nameSimilarity(a: string, b: string) {
+  if (a === b) {
+    return 1;
+  }
+
+  if (!a || !b) {
+    return 0;
+  }
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(b.length, i + matchWindow + 1);
+
+    for (let j = start; j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function addToGroup<K>(groups: Map<K, number[]>, key: K, userId: number) {
+  const group = groups.get(key);
+
+  if (group) {
+    group.push(userId);
+  } else {
+    groups.set(key, [userId]);
+  }
+}
+
+function normalizePhone(value: unknown) {
+  const digits = typeof value === "string" ? value.replace(/\D/g, "") : "";
+  return digits.length >= PHONE_DIGITS_COMPARED ? digits.slice(-PHONE_DIGITS_COMPARED) : null;
+}
+
+// Find likely duplicate accounts among users that aren't deleted. Names are only compared within
+// "blocks" sharing the first letters of a word, so this stays fast for a few thousand members.
+export async function findDuplicateUsers() {
+  const users = await storage.getUsersForDuplicateCheck();
+  const phones = await storage.getPhoneFieldValues();
+  const memberships = await storage.getHouseholdMembershipsOfUsers();
+  const contactSenders = await storage.getContactSenders();
+
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const normalizedNames = new Map(users.map(user => [user.id, normalizeName(user.name)]));
+  const householdByUser = new Map(memberships.map(membership => [membership.userId!, membership.householdId]));
+  const pairs = new Map<string, Set<DuplicateReason>>();
+
+  const addPair = (a: number, b: number, reason: DuplicateReason) => {
+    if (a === b || !usersById.has(a) || !usersById.has(b)) {
+      return;
+    }
+
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    if (!pairs.has(key)) {
+      pairs.set(key, new Set());
+    }
+    pairs.get(key)!.add(reason);
+  };
+
+  // Similar names
+  const blocks = new Map<string, number[]>();
+  for (const [userId, name] of normalizedNames) {
+    for (const word of new Set(name.split(" "))) {
+      const blockKey = word.slice(0, 3);
+      if (blockKey.length > 1) {
+        addToGroup(blocks, blockKey, userId);
+      }
+    }
+  }
+
+  for (const userIds of blocks.values()) {
+    for (let i = 0; i < userIds.length; i++) {
+      for (let j = i + 1; j < userIds.length; j++) {
+        if (nameSimilarity(normalizedNames.get(userIds[i])!, normalizedNames.get(userIds[j])!) >= SIMILAR_NAME_THRESHOLD) {
+          addPair(userIds[i], userIds[j], "similar_name");
+        }
+      }
+    }
+  }
+
+  // Same phone number in a custom phone field
+  const usersByPhone = new Map<string, number[]>();
+  for (const { userId, value } of phones) {
+    const phone = normalizePhone(value);
+    if (phone) {
+      addToGroup(usersByPhone, phone, userId);
+    }
+  }
+
+  for (const userIds of usersByPhone.values()) {
+    for (let i = 0; i < userIds.length; i++) {
+      for (let j = i + 1; j < userIds.length; j++) {
+        addPair(userIds[i], userIds[j], "shared_phone");
+      }
+    }
+  }
+
+  // A contact message sent from one account's email under another account's name
+  const usersByEmail = new Map(users.map(user => [user.email.toLowerCase(), user.id]));
+  const usersByName = new Map<string, number[]>();
+  for (const [userId, name] of normalizedNames) {
+    addToGroup(usersByName, name, userId);
+  }
+
+  for (const sender of contactSenders) {
+    const emailUserId = usersByEmail.get(sender.email.toLowerCase());
+    if (emailUserId !== undefined) {
+      for (const nameUserId of usersByName.get(normalizeName(sender.name)) || []) {
+        addPair(emailUserId, nameUserId, "contact_message");
+      }
+    }
+  }
+
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const [key, reasons] of pairs) {
+    const [a, b] = key.split(":").map(Number);
+    const similarity = nameSimilarity(normalizedNames.get(a)!, normalizedNames.get(b)!);
+
+    // Family members share a household and often a phone, so that alone isn't enough
+    if (householdByUser.has(a) && householdByUser.get(a) === householdByUser.get(b)) {
+      reasons.add("same_household");
+    }
+
+    let score = similarity * 0.6;
+    if (reasons.has("shared_phone")) score += 0.3;
+    if (reasons.has("contact_message")) score += 0.45;
+    if (reasons.has("same_household") && similarity >= 0.8) score += 0.2;
+    if (similarity >= SIMILAR_NAME_THRESHOLD) score += 0.3;
+    score = Math.min(1, Math.round(score * 100) / 100);
+
+    if (score >= MIN_DUPLICATE_SCORE) {
+      candidates.push({
+        users: [usersById.get(a)!, usersById.get(b)!],
+        score,
+        nameSimilarity: Math.round(similarity * 100) / 100,
+        reasons: Array.from(reasons)
+      });
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
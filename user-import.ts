@@ -0,0 +1,359 @@
+import { Request } from "express";
+import bcrypt from "bcrypt";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { insertUserSchema, DEFAULT_MEMBER_ROLE, OWNER_ROLE, MemberFieldDefinition, UserImportJob } from "@shared/schema";
+import { parseCsv } from "./csv";
+import { logActivity } from "./activity";
+import { checkRoleAssignment, sendUserVerificationEmail } from "./user";
+import { inviteUser } from "./invitations";
+import { parseMemberFieldValues, parseMemberFieldText } from "./member-fields";
+
+export const USER_IMPORT_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+export const USER_IMPORT_MAX_ROWS = 10000;
+
+// Columns a CSV can be mapped to; custom fields are mapped as "customFields.<key>"
+const IMPORT_FIELDS = ["name", "email", "role", "notificationOptIn", "password"];
+const CUSTOM_FIELD_PREFIX = "customFields.";
+const MAX_REPORTED_ERRORS = 500;
+const PROGRESS_UPDATE_EVERY = 50;
+
+// Header spellings recognised when suggesting a mapping
+const HEADER_ALIASES: Record<string, string[]> = {
+  name: ["name", "fullname", "membername"],
+  email: ["email", "emailaddress", "mail"],
+  role: ["role"],
+  notificationOptIn: ["notificationoptin", "notifications", "optin", "newsletter"],
+  password: ["password"]
+};
+
+// Multipart form fields are strings, so objects are sent as JSON; an empty field counts as missing
+const jsonFormField = z.unknown().transform((value, ctx) => {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  if (value === "") {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be valid JSON" });
+    return z.NEVER;
+  }
+});
+
+const importOptionsSchema = z.object({
+  mode: z.preprocess(value => value || undefined, z.enum(["invite", "create"]).default("invite")),
+  // Target field -> CSV column header, e.g. { "name": "Full Name", "customFields.phone": "Mobile" }
+  mapping: jsonFormField.pipe(z.record(z.string(), z.string()).optional())
+});
+
+export type UserImportOptions = { mode: "invite" | "create"; mapping: Record<string, string> };
+
+export interface UserImportFile {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+export interface UserImportRowResult {
+  row: number; // Line in the file, counting the header as line 1
+  email?: string;
+  status: "valid" | "duplicate" | "invalid";
+  message?: string;
+  data?: {
+    user: { name: string; email: string; role: string; notificationOptIn: boolean; password?: string };
+    customFields: { fieldId: number; value: unknown }[];
+  };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function parseUserImportFile(buffer: Buffer): UserImportFile | { message: string } {
+  const [headerRow, ...rows] = parseCsv(buffer.toString("utf8"));
+
+  if (!headerRow) {
+    return { message: "The file is empty" };
+  }
+
+  if (rows.length > USER_IMPORT_MAX_ROWS) {
+    return { message: `Files can have at most ${USER_IMPORT_MAX_ROWS} rows, split the file and import each part` };
+  }
+
+  const headers = headerRow.map(header => header.trim());
+  const records = rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ""])));
+
+  return { headers, records };
+}
+
+// Guess which column holds which field from the header names
+export function suggestUserImportMapping(headers: string[], definitions: MemberFieldDefinition[]) {
+  const mapping: Record<string, string> = {};
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(target => HEADER_ALIASES[target].includes(normalized));
+    const customField = definitions.find(definition =>
+      normalizeHeader(definition.key) === normalized || normalizeHeader(definition.label) === normalized
+    );
+
+    if (field && !mapping[field]) {
+      mapping[field] = header;
+    } else if (customField && !mapping[`${CUSTOM_FIELD_PREFIX}${customField.key}`]) {
+      mapping[`${CUSTOM_FIELD_PREFIX}${customField.key}`] = header;
+    }
+  }
+
+  return mapping;
+}
+
+// Read the multipart form fields; mapping is sent as a JSON string. Returns the options or an error message.
+export function parseUserImportOptions(body: unknown, file: UserImportFile, definitions: MemberFieldDefinition[]): { options: UserImportOptions } | { message: string } {
+  const result = importOptionsSchema.safeParse(body ?? {});
+
+  if (!result.success) {
+    return { message: fromZodError(result.error).message };
+  }
+
+  const options = {
+    mode: result.data.mode,
+    mapping: result.data.mapping || suggestUserImportMapping(file.headers, definitions)
+  };
+
+  for (const [target, header] of Object.entries(options.mapping)) {
+    const customFieldKey = target.startsWith(CUSTOM_FIELD_PREFIX) ? target.slice(CUSTOM_FIELD_PREFIX.length) : null;
+
+    if (!IMPORT_FIELDS.includes(target) && !definitions.some(definition => definition.key === customFieldKey)) {
+      return { message: `Unknown import field: ${target}` };
+    }
+
+    if (!file.headers.includes(header)) {
+      return { message: `Column "${header}" is not in the file` };
+    }
+  }
+
+  if (!options.mapping.email) {
+    return { message: "Map a column to email" };
+  }
+
+  if (options.mode === "create" && !options.mapping.password) {
+    return { message: "Map a column to password, or send invitations instead" };
+  }
+
+  // Invitations only carry name, email and role until the invitee creates their account
+  if (options.mode === "invite" && Object.keys(options.mapping).some(target => target === "password" || target.startsWith(CUSTOM_FIELD_PREFIX))) {
+    return { message: "Passwords and custom fields can only be imported when creating users" };
+  }
+
+  return { options };
+}
+
+// Validate every row without saving anything; duplicates are checked against the file itself,
+// existing users and pending invitations
+export async function validateUserImportRows(req: Request, records: Record<string, string>[], options: UserImportOptions) {
+  const definitions = await storage.getMemberFieldDefinitions();
+  const cell = (record: Record<string, string>, target: string) =>
+    options.mapping[target] !== undefined ? (record[options.mapping[target]] ?? "").trim() : "";
+
+  const emails = records.map(record => cell(record, "email")).filter(Boolean);
+  const existingEmails = new Set([
+    ...(await storage.getUsersByEmails(emails)).map(user => user.email.toLowerCase()),
+    ...(await storage.getPendingInvitationsByEmails(emails)).map(invitation => invitation.email.toLowerCase())
+  ]);
+  const seenEmails = new Set<string>();
+  const roleErrors = new Map<string, string | null>();
+  const userSchema = insertUserSchema.pick({ name: true, email: true, password: true, role: true, notificationOptIn: true });
+
+  const results: UserImportRowResult[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const row = index + 2;
+    const email = cell(record, "email") || undefined;
+
+    try {
+      const optIn = cell(record, "notificationOptIn");
+      const userData = {
+        name: cell(record, "name") || email?.split("@")[0] || "",
+        email: email || "",
+        role: cell(record, "role").toLowerCase() || DEFAULT_MEMBER_ROLE,
+        notificationOptIn: optIn ? /^(true|yes|y|1)$/i.test(optIn) : true,
+        password: options.mode === "create" ? cell(record, "password") : undefined
+      };
+
+      const user = options.mode === "create"
+        ? userSchema.parse(userData)
+        : userSchema.omit({ password: true }).parse(userData);
+
+      if (existingEmails.has(user.email.toLowerCase())) {
+        results.push({ row, email, status: "duplicate", message: "A user or pending invitation with this email already exists" });
+        continue;
+      }
+
+      if (seenEmails.has(user.email.toLowerCase())) {
+        results.push({ row, email, status: "duplicate", message: "This email appears earlier in the file" });
+        continue;
+      }
+      seenEmails.add(user.email.toLowerCase());
+
+      // Owners are made through an ownership transfer or by promoting an existing user
+      if (user.role === OWNER_ROLE) {
+        results.push({ row, email, status: "invalid", message: "Users can't be imported as owner" });
+        continue;
+      }
+
+      if (user.role !== DEFAULT_MEMBER_ROLE) {
+        if (!roleErrors.has(user.role)) {
+          roleErrors.set(user.role, (await checkRoleAssignment(req, user.role))?.message || null);
+        }
+
+        const roleError = roleErrors.get(user.role);
+        if (roleError) {
+          results.push({ row, email, status: "invalid", message: roleError });
+          continue;
+        }
+      }
+
+      const customFieldInput: Record<string, unknown> = {};
+      for (const definition of definitions) {
+        const target = `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+        if (options.mapping[target] !== undefined) {
+          customFieldInput[definition.key] = parseMemberFieldText(definition, cell(record, target));
+        }
+      }
+      // Invited members fill in their own fields, so required ones are only checked for created users
+      const customFields = options.mode === "create"
+        ? await parseMemberFieldValues(customFieldInput, "admin", { definitions })
+        : [];
+
+      results.push({
+        row,
+        email,
+        status: "valid",
+        data: { user: { ...user, notificationOptIn: user.notificationOptIn ?? true }, customFields }
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        results.push({ row, email, status: "invalid", message: fromZodError(error, { prefix: null }).message });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return results;
+}
+
+// Summary of a validation run, as returned by a dry run
+export function toUserImportReport(results: UserImportRowResult[]) {
+  return {
+    totalRows: results.length,
+    validCount: results.filter(result => result.status === "valid").length,
+    duplicateCount: results.filter(result => result.status === "duplicate").length,
+    invalidCount: results.filter(result => result.status === "invalid").length,
+    problems: results
+      .filter(result => result.status !== "valid")
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(({ data, ...result }) => result),
+    preview: results
+      .filter(result => result.status === "valid")
+      .slice(0, 10)
+      .map(result => {
+        const { password, ...user } = result.data!.user;
+        return { row: result.row, ...user };
+      })
+  };
+}
+
+// Run an import in the background; progress and per-row errors are saved on the job
+export function queueUserImport(req: Request, job: UserImportJob, records: Record<string, string>[], options: UserImportOptions) {
+  setImmediate(() => {
+    runUserImport(req, job, records, options).catch(async error => {
+      console.error(`User import ${job.id} failed:`, error);
+      await storage.updateUserImportJob(job.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date()
+      }).catch(() => undefined);
+    });
+  });
+}
+
+async function runUserImport(req: Request, job: UserImportJob, records: Record<string, string>[], options: UserImportOptions) {
+  await storage.updateUserImportJob(job.id, { status: "processing" });
+
+  // Validate again, users may have been added since the dry run
+  const results = await validateUserImportRows(req, records, options);
+  const errors: UserImportJob["errors"] = [];
+  let createdCount = 0;
+  let skippedCount = 0;
+  let failedCount = 0;
+
+  const addError = (row: number, email: string | undefined, message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push({ row, email, message });
+    }
+  };
+
+  for (const [index, result] of results.entries()) {
+    if (result.status === "duplicate") {
+      skippedCount++;
+      addError(result.row, result.email, result.message!);
+    } else if (result.status === "invalid") {
+      failedCount++;
+      addError(result.row, result.email, result.message!);
+    } else {
+      try {
+        const { user, customFields } = result.data!;
+
+        if (options.mode === "invite") {
+          const inviteResult = await inviteUser(req, { email: user.email, name: user.name, role: user.role });
+
+          if ("status" in inviteResult) {
+            throw new Error(inviteResult.message);
+          }
+        } else {
+          const [newUser] = await storage.createUser({
+            ...user,
+            password: await bcrypt.hash(user.password!, 10),
+            status: "active"
+          }, customFields);
+
+          // The address came from a spreadsheet, so its owner still has to confirm it
+          try {
+            await sendUserVerificationEmail(newUser);
+          } catch (emailError) {
+            console.error("Failed to send verification email:", emailError);
+          }
+        }
+
+        createdCount++;
+      } catch (error) {
+        failedCount++;
+        addError(result.row, result.email, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if ((index + 1) % PROGRESS_UPDATE_EVERY === 0) {
+      await storage.updateUserImportJob(job.id, { processedRows: index + 1, createdCount, skippedCount, failedCount });
+    }
+  }
+
+  await storage.updateUserImportJob(job.id, {
+    status: "completed",
+    processedRows: results.length,
+    createdCount,
+    skippedCount,
+    failedCount,
+    errors,
+    completedAt: new Date()
+  });
+
+  await logActivity({
+    userId: req.user?.id,
+    action: "user_import",
+    details: `Imported ${job.fileName}: ${createdCount} ${options.mode === "invite" ? "invited" : "created"}, ${skippedCount} duplicates skipped, ${failedCount} failed`
+  });
+}
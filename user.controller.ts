@@ -1,85 +1,801 @@
-import { Router } from "express";
+import { Router, Request } from "express";
 import bcrypt from "bcrypt";
-import { storage } from "../storage";
-import { authenticateJWT } from "../middleware/auth.middleware";
-import { insertUserSchema } from "@shared/schema";
+import multer from "multer";
+import ExcelJS from "exceljs";
+import { storage, LastOwnerError } from "../storage";
+import { authenticateJWT, rejectApiTokens } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { User, OWNER_ROLE } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { logActivity } from "../utils/activity";
+import { sanitizeUser, checkRoleAssignment, sendUserVerificationEmail } from "../utils/user";
+import { inviteUser } from "../utils/invitations";
+import { clearAuthCookies } from "../utils/session";
+import { generateSecureToken } from "../utils/tokens";
+import { getCurrentDataExport, queueDataExport, toDataExportStatus, verifyDataExportDownloadToken } from "../utils/data-export";
+import { uploadAvatarToCloudinary, deleteFromCloudinary } from "../utils/cloudinary";
+import { AVATAR_SIZES, AVATAR_MAX_FILE_SIZE, detectImageType } from "../utils/avatar";
+import { parseMemberFieldValues, getMemberFieldValues, parseMemberFieldFilters } from "../utils/member-fields";
+import { toCsv } from "../utils/csv";
+import {
+  USER_IMPORT_MAX_FILE_SIZE,
+  parseUserImportFile,
+  parseUserImportOptions,
+  validateUserImportRows,
+  toUserImportReport,
+  queueUserImport
+} from "../utils/user-import";
+import { findDuplicateUsers } from "../utils/user-duplicates";
+import { upload } from "../utils/upload";
+
+// Set up multer for member import files
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: USER_IMPORT_MAX_FILE_SIZE,
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === "text/csv" || file.originalname.toLowerCase().endsWith(".csv")) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only CSV files are allowed"));
+    }
+  },
+});
+
+const EXPORT_PAGE_SIZE = 500;
+const USER_MERGE_UNDO_DAYS = 30;
+
+// Filters for the admin member list and export, from the query string; returns an error message for unknown custom fields
+async function getUserListFilters(req: Request) {
+  const fieldFilters = await parseMemberFieldFilters(req.query.fields);
+  
+  if ("message" in fieldFilters) {
+    return fieldFilters;
+  }
+  
+  return {
+    search: (req.query.search as string) || "",
+    verified: (req.query.verified as string) || "all",
+    deleted: (req.query.deleted as string) || "active",
+    fieldFilters: fieldFilters.filters
+  };
+}
+
+// Only owners may modify other owners' accounts
+function canManageUser(req: Request, user: User) {
+  return user.role !== OWNER_ROLE || req.user?.role === OWNER_ROLE;
+}
+
+// Remove a replaced profile picture from Cloudinary; the upload has already succeeded, so failures are only logged
+async function deleteProfilePicture(publicId: string | null) {
+  if (!publicId) {
+    return;
+  }
+  
+  try {
+    await deleteFromCloudinary(publicId, "image");
+  } catch (error) {
+    console.error("Failed to delete old profile picture:", error);
+  }
+}
+
+// Scrub a user's personal details; their donations stay, attributed to "Deleted User"
+async function anonymizeUser(userId: number) {
+  const user = await storage.getUserById(userId);
+  const anonymizedUser = await storage.anonymizeUser(userId, await bcrypt.hash(generateSecureToken(), 10));
+  
+  if (anonymizedUser) {
+    await deleteProfilePicture(user?.profilePicturePublicId || null);
+  }
+  
+  return anonymizedUser;
+}
 
 export function register(isAdmin = false) {
   const router = Router();
 
   if (isAdmin) {
-    // Admin routes - these are already protected by the isOwner middleware in routes.ts
+    // Admin routes - routes.ts requires admin panel access, each route checks its own permission
 
     // Get all users (admin)
-    router.get("/", async (req, res) => {
+    router.get("/", requirePermission("users:read"), async (req, res) => {
       try {
         const page = parseInt(req.query.page as string) || 1;
         const perPage = parseInt(req.query.perPage as string) || 10;
-        const search = (req.query.search as string) || "";
         
-        const { users, total } = await storage.getAllUsers(page, perPage, search);
+        // Custom field filters, e.g. ?fields[marital_status]=married
+        const filters = await getUserListFilters(req);
+        
+        if ("message" in filters) {
+          return res.status(400).json({ message: filters.message });
+        }
+        
+        const { search, verified, deleted, fieldFilters } = filters;
+        const { users, total } = await storage.getAllUsers(page, perPage, search, verified, deleted, fieldFilters);
+        
+        // Remove passwords from the response and expose the verification state
+        const usersWithoutPasswords = users.map(user => {
+          const userWithoutPassword = sanitizeUser(user);
+          return { ...userWithoutPassword, emailVerified: !!user.emailVerifiedAt };
+        });
+        
+        res.status(200).json({ users: usersWithoutPasswords, total });
+      } catch (error) {
+        console.error("Get all users error:", error);
+        res.status(500).json({ message: "An error occurred while fetching users" });
+      }
+    });
+
+    // Create a user (admin) - sends an invitation, the new user chooses their own password when accepting
+    router.post("/", requirePermission("users:write"), async (req, res) => {
+      try {
+        const result = await inviteUser(req, req.body);
+        
+        if ("status" in result) {
+          return res.status(result.status).json({ message: result.message });
+        }
+        
+        res.status(201).json({ message: `Invitation sent to ${result.invitation.email}`, invitation: result.invitation });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          const validationError = fromZodError(error);
+          return res.status(400).json({ message: validationError.message });
+        }
+        
+        console.error("Create user error:", error);
+        res.status(500).json({ message: "An error occurred while creating the user" });
+      }
+    });
+
+    // Export the filtered member list (same filters as the list) as ?format=csv or xlsx,
+    // with a column per custom field
+    router.get("/export", requirePermission("users:read"), async (req, res) => {
+      try {
+        const filters = await getUserListFilters(req);
+        
+        if ("message" in filters) {
+          return res.status(400).json({ message: filters.message });
+        }
+        
+        const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+        const { search, verified, deleted, fieldFilters } = filters;
+        
+        const users = [];
+        for (let page = 1; ; page++) {
+          const result = await storage.getAllUsers(page, EXPORT_PAGE_SIZE, search, verified, deleted, fieldFilters);
+          users.push(...result.users);
+          
+          if (result.users.length < EXPORT_PAGE_SIZE) {
+            break;
+          }
+        }
+        
+        const definitions = await storage.getMemberFieldDefinitions();
+        const fieldValues = new Map(
+          (await storage.getMemberFieldValuesForUsers(users.map(user => user.id)))
+            .map(fieldValue => [`${fieldValue.userId}:${fieldValue.fieldId}`, fieldValue.value])
+        );
+        
+        const headers = [
+          "id", "name", "email", "role", "status", "emailVerified", "notificationOptIn", "createdAt", "deletedAt",
+          ...definitions.map(field => field.key)
+        ];
+        const rows = users.map(user => {
+          const row: Record<string, unknown> = {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            role: user.role,
+            status: user.status,
+            emailVerified: !!user.emailVerifiedAt,
+            notificationOptIn: user.notificationOptIn,
+            createdAt: user.createdAt,
+            deletedAt: user.deletedAt
+          };
+          
+          for (const field of definitions) {
+            const value = fieldValues.get(`${user.id}:${field.id}`);
+            row[field.key] = Array.isArray(value) ? value.join("; ") : value ?? null;
+          }
+          
+          return row;
+        });
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_export",
+          details: `Exported ${rows.length} members as ${format.toUpperCase()}`
+        });
+        
+        const fileName = `members-${new Date().toISOString().slice(0, 10)}.${format}`;
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+        
+        if (format === "csv") {
+          res.setHeader("Content-Type", "text/csv; charset=utf-8");
+          return res.status(200).send(toCsv(rows, headers));
+        }
+        
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet("Members");
+        sheet.columns = headers.map(header => ({ header, key: header, width: 20 }));
+        sheet.addRows(rows);
+        
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        await workbook.xlsx.write(res);
+        res.end();
+      } catch (error) {
+        console.error("Export users error:", error);
+        res.status(500).json({ message: "An error occurred while exporting users" });
+      }
+    });
+
+    // Import members from a CSV file. With ?dryRun=true nothing is saved and a validation report is returned,
+    // otherwise the import runs as a background job. Form fields: file, mode ('invite' or 'create') and
+    // mapping (JSON of field -> column header, suggested from the headers when left out).
+    router.post("/import", requirePermission("users:write"), importUpload.single("file"), async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        const file = parseUserImportFile(req.file.buffer);
+        
+        if ("message" in file) {
+          return res.status(400).json({ message: file.message });
+        }
+        
+        const definitions = await storage.getMemberFieldDefinitions();
+        const parsedOptions = parseUserImportOptions(req.body, file, definitions);
+        
+        if ("message" in parsedOptions) {
+          return res.status(400).json({ message: parsedOptions.message, headers: file.headers });
+        }
+        
+        const { options } = parsedOptions;
+        
+        if (req.query.dryRun === "true") {
+          const results = await validateUserImportRows(req, file.records, options);
+          
+          return res.status(200).json({
+            headers: file.headers,
+            mode: options.mode,
+            mapping: options.mapping,
+            ...toUserImportReport(results)
+          });
+        }
+        
+        const [job] = await storage.createUserImportJob({
+          createdBy: req.user.id,
+          fileName: req.file.originalname,
+          mode: options.mode,
+          totalRows: file.records.length
+        });
+        
+        queueUserImport(req, job, file.records, options);
+        
+        res.status(202).json(job);
+      } catch (error) {
+        console.error("Import users error:", error);
+        res.status(500).json({ message: "An error occurred while importing users" });
+      }
+    });
+
+    // Get recent import jobs
+    router.get("/import/jobs", requirePermission("users:write"), async (req, res) => {
+      try {
+        const jobs = await storage.getRecentUserImportJobs();
+        
+        res.status(200).json(jobs);
+      } catch (error) {
+        console.error("Get import jobs error:", error);
+        res.status(500).json({ message: "An error occurred while fetching import jobs" });
+      }
+    });
+
+    // Get an import job's progress and row errors
+    router.get("/import/jobs/:jobId", requirePermission("users:write"), async (req, res) => {
+      try {
+        const jobId = parseInt(req.params.jobId);
+        
+        if (isNaN(jobId)) {
+          return res.status(400).json({ message: "Invalid job ID" });
+        }
+        
+        const job = await storage.getUserImportJobById(jobId);
+        
+        if (!job) {
+          return res.status(404).json({ message: "Import job not found" });
+        }
+        
+        res.status(200).json(job);
+      } catch (error) {
+        console.error("Get import job error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the import job" });
+      }
+    });
+
+    // Find likely duplicate accounts (similar names, shared phone numbers, contact messages, households)
+    router.get("/duplicates", requirePermission("users:read"), async (req, res) => {
+      try {
+        const duplicates = await findDuplicateUsers();
+        
+        res.status(200).json(duplicates);
+      } catch (error) {
+        console.error("Find duplicate users error:", error);
+        res.status(500).json({ message: "An error occurred while finding duplicate users" });
+      }
+    });
+
+    // Get recent merges, with whether they can still be undone
+    router.get("/merges", requirePermission("users:read"), async (req, res) => {
+      try {
+        const merges = await storage.getRecentUserMerges();
+        
+        res.status(200).json(merges.map(merge => ({
+          ...merge,
+          canUndo: !merge.undoneAt && merge.undoExpiresAt > new Date()
+        })));
+      } catch (error) {
+        console.error("Get user merges error:", error);
+        res.status(500).json({ message: "An error occurred while fetching user merges" });
+      }
+    });
+
+    // Merge a duplicate account into another - the source's donations, activity and media move to the
+    // target and the source is deleted. Can be undone for USER_MERGE_UNDO_DAYS.
+    router.post("/merge", requirePermission("users:write", "users:delete"), async (req, res) => {
+      try {
+        const sourceUserId = parseInt(req.body.sourceUserId);
+        const targetUserId = parseInt(req.body.targetUserId);
+        
+        if (isNaN(sourceUserId) || isNaN(targetUserId)) {
+          return res.status(400).json({ message: "Source and target user IDs are required" });
+        }
+        
+        if (sourceUserId === targetUserId) {
+          return res.status(400).json({ message: "A user can't be merged into themselves" });
+        }
+        
+        const source = await storage.getUserById(sourceUserId);
+        const target = await storage.getUserById(targetUserId);
+        
+        if (!source || !target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        if (source.deletedAt || target.deletedAt) {
+          return res.status(409).json({ message: "Deleted users can't be merged, restore them first" });
+        }
+        
+        if (!canManageUser(req, source) || !canManageUser(req, target)) {
+          return res.status(403).json({ message: "Only an owner can merge owner accounts" });
+        }
+        
+        if (source.role === OWNER_ROLE) {
+          return res.status(400).json({ message: "An owner account can't be merged away, merge into it instead" });
+        }
+        
+        const undoExpiresAt = new Date(Date.now() + USER_MERGE_UNDO_DAYS * 24 * 60 * 60 * 1000);
+        const merge = await storage.mergeUsers(sourceUserId, targetUserId, req.user?.id, undoExpiresAt);
+        
+        if (!merge) {
+          return res.status(409).json({ message: "User has already been merged or deleted" });
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_merge",
+          details: `Admin merged ${source.email} into ${target.email}: ${merge.movedDonationIds.length} donations, ${merge.movedRecurringDonationIds.length} recurring gifts, ${merge.movedActivityIds.length} activities, ${merge.movedMediaIds.length} media and ${merge.movedIdentityIds.length} sign-in identities moved`
+        });
+        
+        res.status(200).json(merge);
+      } catch (error) {
+        console.error("Merge users error:", error);
+        res.status(500).json({ message: "An error occurred while merging the users" });
+      }
+    });
+
+    // Undo a merge within its grace period - moves everything back and restores the source user
+    router.post("/merges/:mergeId/undo", requirePermission("users:write", "users:delete"), async (req, res) => {
+      try {
+        const mergeId = parseInt(req.params.mergeId);
+        
+        if (isNaN(mergeId)) {
+          return res.status(400).json({ message: "Invalid merge ID" });
+        }
+        
+        const merge = await storage.getUserMergeById(mergeId);
+        
+        if (!merge) {
+          return res.status(404).json({ message: "Merge not found" });
+        }
+        
+        if (merge.undoneAt) {
+          return res.status(409).json({ message: "This merge has already been undone" });
+        }
+        
+        if (merge.undoExpiresAt < new Date()) {
+          return res.status(409).json({ message: "This merge can no longer be undone" });
+        }
+        
+        const source = await storage.getUserById(merge.sourceUserId);
+        
+        if (!source || source.anonymizedAt) {
+          return res.status(409).json({ message: "The merged user has been anonymized and can't be restored" });
+        }
+        
+        const undoneMerge = await storage.undoUserMerge(mergeId, req.user?.id);
+        
+        if (!undoneMerge) {
+          return res.status(409).json({ message: "This merge can no longer be undone" });
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_merge_undo",
+          details: `Admin undid merge #${mergeId}, restoring ${source.email}`
+        });
+        
+        res.status(200).json(undoneMerge);
+      } catch (error) {
+        console.error("Undo user merge error:", error);
+        res.status(500).json({ message: "An error occurred while undoing the merge" });
+      }
+    });
+
+    // Get a user by ID (admin)
+    router.get("/:id", requirePermission("users:read"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        const customFields = await getMemberFieldValues(userId, "admin");
+        
+        // Remove password from response
+        const userWithoutPassword = sanitizeUser(user);
+        res.status(200).json({ ...userWithoutPassword, emailVerified: !!user.emailVerifiedAt, customFields });
+      } catch (error) {
+        console.error("Get user by ID error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the user" });
+      }
+    });
+
+    // Update a user (admin)
+    router.patch("/:id", requirePermission("users:write"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        if (!canManageUser(req, user)) {
+          return res.status(403).json({ message: "Only an owner can modify an owner account" });
+        }
+        
+        if (user.deletedAt) {
+          return res.status(409).json({ message: "User has been deleted, restore them first" });
+        }
+        
+        // Passwords and roles can only be changed from a signed-in session, never with an API token
+        if (req.user?.apiToken && (req.body.password !== undefined || req.body.role !== undefined)) {
+          return res.status(403).json({ message: "Forbidden - API tokens can't change passwords or roles" });
+        }
+        
+        // Only allow certain fields to be updated
+        const allowedFields = ["name", "email", "role", "status", "notificationOptIn", "password"];
+        let updatedData: any = {};
+        
+        for (const field of allowedFields) {
+          if (req.body[field] !== undefined) {
+            updatedData[field] = req.body[field];
+          }
+        }
+        
+        if (updatedData.role !== undefined && updatedData.role !== user.role) {
+          const roleError = await checkRoleAssignment(req, updatedData.role);
+          if (roleError) {
+            return res.status(roleError.status).json({ message: roleError.message });
+          }
+        }
+        
+        // Validate custom fields before changing anything
+        const fieldValues = await parseMemberFieldValues(req.body.customFields, "admin", {
+          storedValues: await storage.getMemberFieldValues(userId)
+        });
+        
+        // If password is being updated, hash it
+        if (updatedData.password) {
+          updatedData.password = await bcrypt.hash(updatedData.password, 10);
+        }
+        
+        // A new address has to be verified again by its owner
+        const emailChanged = updatedData.email !== undefined && updatedData.email !== user.email;
+        if (emailChanged) {
+          updatedData.emailVerifiedAt = null;
+        }
+        
+        // Update the user and their custom fields together
+        const [updatedUser] = Object.keys(updatedData).length > 0 || fieldValues.length > 0
+          ? await storage.updateUser(userId, updatedData, fieldValues)
+          : [user];
+        
+        if (emailChanged) {
+          try {
+            await sendUserVerificationEmail(updatedUser);
+          } catch (emailError) {
+            console.error("Failed to send verification email:", emailError);
+            // The user can request a new link after signing in
+          }
+        }
+        
+        // Deactivated users are signed out everywhere right away
+        if (updatedData.status === "inactive" && user.status !== "inactive") {
+          await storage.revokeUserSessions(userId, "user_deactivated");
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_update",
+          details: `Admin updated user: ${user.email}`
+        });
+        
+        const customFields = await getMemberFieldValues(userId, "admin");
+        
+        // Remove password from response
+        const userWithoutPassword = sanitizeUser(updatedUser);
+        res.status(200).json({ ...userWithoutPassword, customFields });
+      } catch (error) {
+        if (error instanceof LastOwnerError) {
+          return res.status(403).json({ message: error.message });
+        }
+        
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+        
+        console.error("Update user error:", error);
+        res.status(500).json({ message: "An error occurred while updating the user" });
+      }
+    });
+
+    // Assign a role to a user (admin, signed-in session only)
+    router.put("/:id/role", rejectApiTokens, requirePermission("users:write", "roles:manage"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const { role } = req.body;
+        
+        if (!role || typeof role !== "string") {
+          return res.status(400).json({ message: "Role is required" });
+        }
+        
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        if (!canManageUser(req, user)) {
+          return res.status(403).json({ message: "Only an owner can modify an owner account" });
+        }
+        
+        const roleError = await checkRoleAssignment(req, role);
+        if (roleError) {
+          return res.status(roleError.status).json({ message: roleError.message });
+        }
+        
+        const [updatedUser] = await storage.updateUser(userId, { role });
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_update",
+          details: `Admin changed role of ${user.email} from ${user.role} to ${role}`
+        });
+        
+        // Remove password from response
+        const userWithoutPassword = sanitizeUser(updatedUser);
+        res.status(200).json(userWithoutPassword);
+      } catch (error) {
+        if (error instanceof LastOwnerError) {
+          return res.status(403).json({ message: error.message });
+        }
+        
+        console.error("Assign role error:", error);
+        res.status(500).json({ message: "An error occurred while assigning the role" });
+      }
+    });
+
+    // Unlock a user locked out after too many failed logins (admin)
+    router.post("/:id/unlock", requirePermission("users:write"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
         
-        // Remove passwords from the response
-        const usersWithoutPasswords = users.map(user => {
-          const { password, ...userWithoutPassword } = user;
-          return userWithoutPassword;
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        await storage.deleteFailedLogins({ userId });
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_update",
+          details: `Admin unlocked user: ${user.email}`
         });
         
-        res.status(200).json({ users: usersWithoutPasswords, total });
+        // Remove password from response
+        const userWithoutPassword = sanitizeUser(user);
+        res.status(200).json(userWithoutPassword);
       } catch (error) {
-        console.error("Get all users error:", error);
-        res.status(500).json({ message: "An error occurred while fetching users" });
+        console.error("Unlock user error:", error);
+        res.status(500).json({ message: "An error occurred while unlocking the user" });
       }
     });
 
-    // Create a user (admin)
-    router.post("/", async (req, res) => {
+    // List a user's active sessions (admin)
+    router.get("/:id/sessions", requirePermission("users:read"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        const sessions = await storage.getActiveSessionsByUserId(userId);
+        
+        res.status(200).json(sessions.map(session => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt.toISOString(),
+          lastUsedAt: session.lastUsedAt.toISOString(),
+          expiresAt: session.expiresAt.toISOString()
+        })));
+      } catch (error) {
+        console.error("Get user sessions error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the user's sessions" });
+      }
+    });
+    
+    // Revoke all of a user's sessions (admin)
+    router.delete("/:id/sessions", requirePermission("users:write"), async (req, res) => {
       try {
-        // Validate the request data
-        const userData = insertUserSchema.parse(req.body);
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
         
-        // Check if user already exists
-        const existingUser = await storage.getUserByEmail(userData.email);
-        if (existingUser) {
-          return res.status(409).json({ message: "User with this email already exists" });
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
         }
         
-        // Hash the password
-        const hashedPassword = await bcrypt.hash(userData.password, 10);
+        const revoked = await storage.revokeUserSessions(userId, "admin_revoked");
         
-        // Create the user
-        const [newUser] = await storage.createUser({
-          ...userData,
-          password: hashedPassword
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "session_revoke",
+          details: `Admin revoked ${revoked.length} session(s) of user: ${user.email}`
         });
         
+        res.status(200).json({ message: "Sessions revoked successfully" });
+      } catch (error) {
+        console.error("Revoke user sessions error:", error);
+        res.status(500).json({ message: "An error occurred while revoking the user's sessions" });
+      }
+    });
+    
+    // Revoke one of a user's sessions (admin)
+    router.delete("/:id/sessions/:sessionId", requirePermission("users:write"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        const sessionId = parseInt(req.params.sessionId);
+        
+        if (isNaN(userId) || isNaN(sessionId)) {
+          return res.status(400).json({ message: "Invalid user or session ID" });
+        }
+        
+        const session = await storage.getSessionById(sessionId);
+        
+        if (!session || session.userId !== userId || session.revokedAt) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+        
+        await storage.revokeSession(sessionId, "admin_revoked");
+        
         // Log the activity
         await logActivity({
           userId: req.user?.id,
-          action: "user_update",
-          details: `Admin created a new user: ${newUser.email}`
+          action: "session_revoke",
+          details: `Admin revoked session ${sessionId} of user ID ${userId}`
         });
         
-        // Return success message
-        const { password: _, ...userWithoutPassword } = newUser;
-        res.status(201).json(userWithoutPassword);
+        res.status(200).json({ message: "Session revoked successfully" });
       } catch (error) {
-        if (error instanceof ZodError) {
-          const validationError = fromZodError(error);
-          return res.status(400).json({ message: validationError.message });
+        console.error("Revoke user session error:", error);
+        res.status(500).json({ message: "An error occurred while revoking the session" });
+      }
+    });
+
+    // Get the status of the latest export of a user's data (owner only)
+    router.get("/:id/export", async (req, res) => {
+      try {
+        if (req.user?.role !== OWNER_ROLE) {
+          return res.status(403).json({ message: "Only an owner can export another user's data" });
         }
         
-        console.error("Create user error:", error);
-        res.status(500).json({ message: "An error occurred while creating the user" });
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const dataExport = await getCurrentDataExport(userId);
+        
+        if (!dataExport) {
+          return res.status(404).json({ message: "No data export found for this user" });
+        }
+        
+        res.status(200).json(toDataExportStatus(dataExport));
+      } catch (error) {
+        console.error("Get user data export error:", error);
+        res.status(500).json({ message: "An error occurred while fetching the data export" });
       }
     });
 
-    // Get a user by ID (admin)
-    router.get("/:id", async (req, res) => {
+    // Start an export of a user's data, e.g. for a data subject access request (owner only)
+    router.post("/:id/export", async (req, res) => {
       try {
+        if (req.user?.role !== OWNER_ROLE) {
+          return res.status(403).json({ message: "Only an owner can export another user's data" });
+        }
+        
         const userId = parseInt(req.params.id);
         
         if (isNaN(userId)) {
@@ -92,17 +808,31 @@ export function register(isAdmin = false) {
           return res.status(404).json({ message: "User not found" });
         }
         
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+        const currentExport = await getCurrentDataExport(userId);
+        
+        if (currentExport && currentExport.status !== "ready") {
+          return res.status(202).json(toDataExportStatus(currentExport));
+        }
+        
+        const [dataExport] = await storage.createDataExport({ userId, requestedBy: req.user.id });
+        queueDataExport(dataExport.id);
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "data_export",
+          details: `Owner requested a data export for ${user.email}`
+        });
+        
+        res.status(202).json(toDataExportStatus(dataExport));
       } catch (error) {
-        console.error("Get user by ID error:", error);
-        res.status(500).json({ message: "An error occurred while fetching the user" });
+        console.error("Start user data export error:", error);
+        res.status(500).json({ message: "An error occurred while starting the data export" });
       }
     });
 
-    // Update a user (admin)
-    router.patch("/:id", async (req, res) => {
+    // Restore a soft-deleted user (admin)
+    router.post("/:id/restore", requirePermission("users:delete"), async (req, res) => {
       try {
         const userId = parseInt(req.params.id);
         
@@ -116,39 +846,90 @@ export function register(isAdmin = false) {
           return res.status(404).json({ message: "User not found" });
         }
         
-        // Special protection for the owner account (shahidsingh1432@gmail.com)
-        if (user.email === "shahidsingh1432@gmail.com" && req.body.role === "user") {
-          return res.status(403).json({ message: "Cannot change the owner's role" });
+        if (!canManageUser(req, user)) {
+          return res.status(403).json({ message: "Only an owner can restore an owner account" });
         }
         
-        // If password is being updated, hash it
-        let updatedData: any = { ...req.body };
+        if (user.anonymizedAt) {
+          return res.status(409).json({ message: "Anonymized users can't be restored" });
+        }
         
-        if (updatedData.password) {
-          updatedData.password = await bcrypt.hash(updatedData.password, 10);
+        // Restoring a merged-away user would leave their records on the target, undoing the merge moves them back
+        const merge = await storage.getUndoableUserMergeBySourceUserId(userId);
+        
+        if (merge) {
+          return res.status(409).json({
+            message: "This user was merged into another account. Undo the merge instead to restore them with their records.",
+            mergeId: merge.id,
+            undoUrl: `/api/admin/users/merges/${merge.id}/undo`
+          });
         }
         
-        // Update the user
-        const [updatedUser] = await storage.updateUser(userId, updatedData);
+        const [restoredUser] = await storage.restoreUser(userId);
+        
+        if (!restoredUser) {
+          return res.status(409).json({ message: "User is not deleted" });
+        }
         
         // Log the activity
         await logActivity({
           userId: req.user?.id,
-          action: "user_update",
-          details: `Admin updated user: ${user.email}`
+          action: "user_restore",
+          details: `Admin restored user: ${restoredUser.email}`
         });
         
-        // Remove password from response
-        const { password, ...userWithoutPassword } = updatedUser;
-        res.status(200).json(userWithoutPassword);
+        res.status(200).json(sanitizeUser(restoredUser));
       } catch (error) {
-        console.error("Update user error:", error);
-        res.status(500).json({ message: "An error occurred while updating the user" });
+        console.error("Restore user error:", error);
+        res.status(500).json({ message: "An error occurred while restoring the user" });
+      }
+    });
+
+    // Anonymize a user (admin) - removes their personal details for good, donation totals are kept
+    router.post("/:id/anonymize", requirePermission("users:delete"), async (req, res) => {
+      try {
+        const userId = parseInt(req.params.id);
+        
+        if (isNaN(userId)) {
+          return res.status(400).json({ message: "Invalid user ID" });
+        }
+        
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        if (!canManageUser(req, user)) {
+          return res.status(403).json({ message: "Only an owner can delete an owner account" });
+        }
+        
+        const anonymizedUser = await anonymizeUser(userId);
+        
+        if (!anonymizedUser) {
+          return res.status(409).json({ message: "User is already anonymized" });
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id,
+          action: "user_anonymize",
+          details: `Admin anonymized user ID ${userId}`
+        });
+        
+        res.status(200).json({ message: "User anonymized successfully" });
+      } catch (error) {
+        if (error instanceof LastOwnerError) {
+          return res.status(403).json({ message: error.message });
+        }
+        
+        console.error("Anonymize user error:", error);
+        res.status(500).json({ message: "An error occurred while anonymizing the user" });
       }
     });
 
-    // Delete a user (admin)
-    router.delete("/:id", async (req, res) => {
+    // Delete a user (admin) - a soft delete that can be restored
+    router.delete("/:id", requirePermission("users:delete"), async (req, res) => {
       try {
         const userId = parseInt(req.params.id);
         
@@ -162,12 +943,15 @@ export function register(isAdmin = false) {
           return res.status(404).json({ message: "User not found" });
         }
         
-        // Prevent deletion of the owner account
-        if (user.email === "shahidsingh1432@gmail.com") {
-          return res.status(403).json({ message: "Cannot delete the owner account" });
+        if (!canManageUser(req, user)) {
+          return res.status(403).json({ message: "Only an owner can delete an owner account" });
         }
         
-        await storage.deleteUser(userId);
+        const deletedUser = await storage.softDeleteUser(userId);
+        
+        if (!deletedUser) {
+          return res.status(409).json({ message: "User is already deleted" });
+        }
         
         // Log the activity
         await logActivity({
@@ -178,6 +962,10 @@ export function register(isAdmin = false) {
         
         res.status(200).json({ message: "User deleted successfully" });
       } catch (error) {
+        if (error instanceof LastOwnerError) {
+          return res.status(403).json({ message: error.message });
+        }
+        
         console.error("Delete user error:", error);
         res.status(500).json({ message: "An error occurred while deleting the user" });
       }
@@ -193,7 +981,8 @@ export function register(isAdmin = false) {
         }
         
         // Only allow certain fields to be updated
-        const allowedFields = ["name", "notificationOptIn", "profilePictureUrl"];
+        // Profile pictures go through POST /profile/picture
+        const allowedFields = ["name", "notificationOptIn"];
         const updateData: any = {};
         
         for (const field of allowedFields) {
@@ -202,8 +991,19 @@ export function register(isAdmin = false) {
           }
         }
         
-        // Update the user
-        const [updatedUser] = await storage.updateUser(req.user.id, updateData);
+        // Members can only change custom fields marked as editable
+        const fieldValues = await parseMemberFieldValues(req.body.customFields, "member", {
+          storedValues: await storage.getMemberFieldValues(req.user.id)
+        });
+        
+        // Update the user and their custom fields together
+        const [updatedUser] = Object.keys(updateData).length > 0 || fieldValues.length > 0
+          ? await storage.updateUser(req.user.id, updateData, fieldValues)
+          : [await storage.getUserById(req.user.id)];
+        
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
         
         // Log the activity
         await logActivity({
@@ -212,42 +1012,236 @@ export function register(isAdmin = false) {
           details: `User updated their profile: ${req.user.email}`
         });
         
+        const customFields = await getMemberFieldValues(req.user.id, "member");
+        
         // Remove password from response
-        const { password, ...userWithoutPassword } = updatedUser;
-        res.status(200).json(userWithoutPassword);
+        const userWithoutPassword = sanitizeUser(updatedUser);
+        res.status(200).json({ ...userWithoutPassword, customFields });
       } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: fromZodError(error).message });
+        }
+        
         console.error("Update profile error:", error);
         res.status(500).json({ message: "An error occurred while updating your profile" });
       }
     });
 
-    // Delete current user's account
+    // Upload a new profile picture - cropped to a square and resized to each avatar size
+    router.post("/profile/picture", authenticateJWT, upload.single("picture"), async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        if (req.file.size > AVATAR_MAX_FILE_SIZE) {
+          return res.status(400).json({ message: `Profile picture must be ${AVATAR_MAX_FILE_SIZE / 1024 / 1024}MB or smaller` });
+        }
+        
+        // Check the file really is an image, whatever the client said it was
+        const mimetype = detectImageType(req.file.buffer);
+        
+        if (!mimetype) {
+          return res.status(400).json({ message: "Profile picture must be a JPEG, PNG, GIF or WebP image" });
+        }
+        
+        const user = await storage.getUserById(req.user.id);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        // Upload to Cloudinary
+        const avatar = await uploadAvatarToCloudinary({ ...req.file, mimetype }, AVATAR_SIZES);
+        
+        const [updatedUser] = await storage.updateUser(user.id, {
+          profilePictureUrl: avatar.url,
+          profilePicturePublicId: avatar.publicId,
+          profilePictureVariants: avatar.variants
+        });
+        
+        await deleteProfilePicture(user.profilePicturePublicId);
+        
+        // Log the activity
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User updated their profile picture: ${user.email}`
+        });
+        
+        res.status(200).json(sanitizeUser(updatedUser));
+      } catch (error) {
+        console.error("Upload profile picture error:", error);
+        res.status(500).json({ message: "An error occurred while uploading your profile picture" });
+      }
+    });
+
+    // Remove current user's profile picture
+    router.delete("/profile/picture", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        const user = await storage.getUserById(req.user.id);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        const [updatedUser] = await storage.updateUser(user.id, {
+          profilePictureUrl: null,
+          profilePicturePublicId: null,
+          profilePictureVariants: null
+        });
+        
+        await deleteProfilePicture(user.profilePicturePublicId);
+        
+        // Log the activity
+        await logActivity({
+          userId: user.id,
+          action: "user_update",
+          details: `User removed their profile picture: ${user.email}`
+        });
+        
+        res.status(200).json(sanitizeUser(updatedUser));
+      } catch (error) {
+        console.error("Remove profile picture error:", error);
+        res.status(500).json({ message: "An error occurred while removing your profile picture" });
+      }
+    });
+
+    // Get the status of the current user's latest data export, without starting a new one
+    router.get("/profile/export", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        const dataExport = await getCurrentDataExport(req.user.id);
+        
+        if (!dataExport) {
+          return res.status(404).json({ message: "No data export found" });
+        }
+        
+        res.status(200).json(toDataExportStatus(dataExport));
+      } catch (error) {
+        console.error("Get profile export error:", error);
+        res.status(500).json({ message: "An error occurred while fetching your data export" });
+      }
+    });
+    
+    // Export current user's data - starts a background export, then reports its status until
+    // the ZIP is ready (202 while it's being built, 200 with a download link once it's done)
+    router.post("/profile/export", authenticateJWT, async (req, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        const currentExport = await getCurrentDataExport(req.user.id);
+        
+        if (currentExport) {
+          const status = toDataExportStatus(currentExport);
+          
+          if (status.downloadUrl) {
+            return res.status(200).json(status);
+          }
+          
+          if (currentExport.status !== "ready") {
+            return res.status(202).json(status);
+          }
+        }
+        
+        const [dataExport] = await storage.createDataExport({ userId: req.user.id, requestedBy: req.user.id });
+        queueDataExport(dataExport.id);
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user.id,
+          action: "data_export",
+          details: `User requested an export of their data: ${req.user.email}`
+        });
+        
+        res.status(202).json(toDataExportStatus(dataExport));
+      } catch (error) {
+        console.error("Export profile error:", error);
+        res.status(500).json({ message: "An error occurred while exporting your data" });
+      }
+    });
+
+    // Download a finished data export - the signed link from the export status or email is the credential
+    router.get("/exports/:id/download", async (req, res) => {
+      try {
+        const exportId = parseInt(req.params.id);
+        const token = req.query.token as string;
+        
+        if (isNaN(exportId) || !token || !verifyDataExportDownloadToken(token, exportId)) {
+          return res.status(403).json({ message: "This download link is invalid or has expired" });
+        }
+        
+        const dataExport = await storage.getDataExportById(exportId);
+        
+        if (!dataExport || dataExport.status !== "ready" || !dataExport.filePath || !dataExport.expiresAt || dataExport.expiresAt < new Date()) {
+          return res.status(410).json({ message: "This data export has expired, please request a new one" });
+        }
+        
+        // Log the activity
+        await logActivity({
+          userId: req.user?.id || dataExport.userId,
+          action: "data_export",
+          details: `Data export #${dataExport.id} of user ID ${dataExport.userId} was downloaded`
+        });
+        
+        res.download(dataExport.filePath, `grace-church-data-export-${dataExport.id}.zip`);
+      } catch (error) {
+        console.error("Download data export error:", error);
+        res.status(500).json({ message: "An error occurred while downloading the data export" });
+      }
+    });
+
+    // Delete current user's account - ?anonymize=true also removes their personal details for good
     router.delete("/profile", authenticateJWT, async (req, res) => {
       try {
         if (!req.user) {
           return res.status(401).json({ message: "Not authenticated" });
         }
         
-        // Prevent deletion of the owner account
-        if (req.user.email === "shahidsingh1432@gmail.com") {
-          return res.status(403).json({ message: "Cannot delete the owner account" });
+        const user = await storage.getUserById(req.user.id);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
         }
         
-        // Delete the user
-        await storage.deleteUser(req.user.id);
+        // Soft delete the user, anonymizing as well if they asked for it
+        const anonymize = req.query.anonymize === "true";
+        
+        if (anonymize) {
+          await anonymizeUser(req.user.id);
+        } else {
+          await storage.softDeleteUser(req.user.id);
+        }
         
         // Log the activity (system log since user is being deleted)
         await logActivity({
           userId: req.user.id,
-          action: "user_delete",
-          details: `User deleted their account: ${req.user.email}`
+          action: anonymize ? "user_anonymize" : "user_delete",
+          details: anonymize ? `User ID ${req.user.id} deleted and anonymized their account` : `User deleted their account: ${req.user.email}`
         });
         
-        // Clear the authentication cookie
-        res.clearCookie("auth_token");
+        // Clear the authentication cookies
+        clearAuthCookies(res);
         
         res.status(200).json({ message: "Account deleted successfully" });
       } catch (error) {
+        if (error instanceof LastOwnerError) {
+          return res.status(403).json({ message: error.message });
+        }
+        
         console.error("Delete account error:", error);
         res.status(500).json({ message: "An error occurred while deleting your account" });
       }
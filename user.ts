@@ -0,0 +1,39 @@
+import { Request } from "express";
+import { storage } from "../storage";
+import { generatePurposeToken } from "./jwt";
+import { sendEmailVerificationEmail } from "./email";
+import { User, OWNER_ROLE } from "@shared/schema";
+
+export const EMAIL_VERIFICATION_PURPOSE = "email_verification";
+const EMAIL_VERIFICATION_EXPIRES_IN = "24h";
+
+// Strip credentials and secrets from a user row before it is sent to a client
+export function sanitizeUser(user: User) {
+  const { password, twoFactorSecret, twoFactorLastUsedStep, ...safeUser } = user;
+  return safeUser;
+}
+
+// Email a verification link; the token is bound to the email so changing the address invalidates it
+export async function sendUserVerificationEmail(user: { id: number; email: string; name: string }) {
+  const token = generatePurposeToken({ id: user.id, email: user.email }, EMAIL_VERIFICATION_PURPOSE, EMAIL_VERIFICATION_EXPIRES_IN);
+  await sendEmailVerificationEmail(user.email, user.name, token);
+}
+
+// Check that the requester may give a user this role; returns an error response or null
+export async function checkRoleAssignment(req: Request, role: string) {
+  const existingRole = await storage.getRoleByName(role);
+  
+  if (!existingRole) {
+    return { status: 400, message: `Role "${role}" does not exist` };
+  }
+  
+  if (!req.user?.permissions.includes("roles:manage")) {
+    return { status: 403, message: "Forbidden - Missing permission: roles:manage" };
+  }
+  
+  if (role === OWNER_ROLE && req.user.role !== OWNER_ROLE) {
+    return { status: 403, message: "Only an owner can grant the owner role" };
+  }
+  
+  return null;
+}